@@ -1,63 +1,154 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo, useCallback, forwardRef, useImperativeHandle, type CSSProperties } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Send, Plane, Clock, Package, AlertCircle, MessageCircle, X, Minimize2 } from "lucide-react";
-
-interface Message {
-  id: string;
-  text: string;
-  sender: 'user' | 'bot';
-  timestamp: Date;
-}
-
-interface DroneLocation {
-  lat: number;
-  lng: number;
-  address: string;
-}
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Send, Plane, Package, AlertCircle, MessageCircle, X, Minimize2, HelpCircle, Headset, SquarePen, History, LogOut } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { responder as defaultResponder } from "@/lib/bot/client";
+import type { ChatHistoryEntry, Responder } from "@/lib/bot/responder";
+import { defaultFrustrationPolicy } from "@/lib/bot/sentiment";
+import type { ConversationState, OrderLookup } from "@/lib/bot/types";
+import { handoffRelay as defaultHandoffRelay } from "@/lib/handoff/client";
+import { queuePosition, toTranscript } from "@/lib/handoff/queue";
+import type { HandoffRelay, RequestAgent } from "@/lib/handoff/types";
+import { orderService as defaultOrderService } from "@/lib/orders/client";
+import type { OrderService } from "@/lib/orders/service";
+import { isEnRoute } from "@/lib/orders/lifecycle";
+import { refundService as defaultRefundService } from "@/lib/refunds/client";
+import type { RefundService } from "@/lib/refunds/service";
+import { orderQueryOptions, useOrder } from "@/hooks/use-order";
+import { useTelemetry } from "@/hooks/use-telemetry";
+import { useConversation } from "@/hooks/use-conversation";
+import { useHandoff } from "@/hooks/use-handoff";
+import { TranslatorContext } from "@/hooks/use-translator";
+import { conversationStore as defaultConversationStore, conversationSync as defaultConversationSync } from "@/lib/conversations/client";
+import type { ConversationStore, ConversationSync } from "@/lib/conversations/types";
+import { reportError } from "@/lib/diagnostics";
+import { telemetrySource as defaultTelemetrySource } from "@/lib/telemetry/client";
+import type { TelemetrySource } from "@/lib/telemetry/types";
+import { verificationSession } from "@/lib/verification/session";
+import { ChatMessage } from "@/components/chat/ChatMessage";
+import { AgentAvatar } from "@/components/chat/AgentAvatar";
+import { BotAvatar } from "@/components/chat/BotAvatar";
+import { ConversationHistory } from "@/components/chat/ConversationHistory";
+import { parseWidgetConfig, personalizedGreeting, themeVariables, type WidgetConfigInput } from "@/lib/widget-config";
+import type { ChatAction, CustomerIdentity, Message, MessageContent } from "@/lib/chat/types";
+import { localeNames, resolveLocale } from "@/lib/i18n/catalog";
+import { translator } from "@/lib/i18n/translator";
+import { locales, type Locale, type Translator } from "@/lib/i18n/types";
 
 const quickActions = [
-  { icon: Package, label: "Track Drone", query: "track my order" },
-  { icon: AlertCircle, label: "Wrong Order", query: "wrong order" },
-  { icon: MessageCircle, label: "Help", query: "I need help" },
-];
-
-const droneLocations: Record<string, { location: DroneLocation; eta: number; status: string }> = {
-  "N001": { location: { lat: 40.7505, lng: -73.9934, address: "Near Washington Square Park" }, eta: 4, status: "In Transit" },
-  "N002": { location: { lat: 40.7614, lng: -73.9776, address: "Above Union Square" }, eta: 7, status: "In Transit" },
-  "N003": { location: { lat: 40.7831, lng: -73.9712, address: "Central Park South" }, eta: 12, status: "Preparing for delivery" },
-};
+  { icon: Package, label: "chat.quick.track", query: "intent.help.track" },
+  { icon: AlertCircle, label: "chat.quick.wrongOrder", query: "intent.help.wrongOrder" },
+  { icon: MessageCircle, label: "chat.quick.help", query: "chat.quick.help.reply" },
+] as const;
 
-const botResponses: Record<string, string> = {
-  "track my order": "I'll help you track your Nibbly drone delivery! Please provide your order number (format: N001, N002, etc.) and I'll show you exactly where your drone is in Lower Manhattan.",
-  "wrong order": "Oh no! I'm sorry your order isn't correct. Please provide your order number and tell me what's wrong - we'll get this fixed right away and send out a replacement drone if needed.",
-  "I need help": "Hi! I'm here to help with your Nibbly drone delivery. I can track your drone's location, estimate delivery time, help with incorrect orders, or answer any questions about our service in Lower Manhattan!",
-  "hello": "Hello! Welcome to Nibbly - Lower Manhattan's fastest drone delivery service! 🚁 How can I help you today?",
-  "hi": "Hi there! Thanks for choosing Nibbly for your delivery needs. I can track your drone, help with order issues, or answer any questions!",
-  "refund": "I understand you'd like a refund. For drone deliveries, we offer full refunds if there's an issue with your order. Please provide your order number and I'll process this for you.",
-  "cancel order": "I can help cancel your order if the drone hasn't taken off yet. Please provide your order number and I'll check if we can still cancel it.",
-  "delivery time": "Our drones typically deliver within 15 minutes anywhere in Lower Manhattan! Weather conditions may add a few extra minutes for safety.",
-  "location": "We serve all of Lower Manhattan from Battery Park to 14th Street. Our drones launch from our hub near the Brooklyn Bridge and can reach you super quickly!",
-  "how it works": "Simple! Order through our app, our drone picks up your items from local partners, and flies directly to your location. You'll get real-time tracking the whole way!"
+const launcherIcons = {
+  chat: MessageCircle,
+  plane: Plane,
+  help: HelpCircle,
+  headset: Headset,
 };
 
-export const ChatBot = () => {
+interface ChatBotProps {
+  orderService?: OrderService;
+  refundService?: RefundService;
+  telemetrySource?: TelemetrySource;
+  responder?: Responder;
+  conversationStore?: ConversationStore;
+  conversationSync?: ConversationSync;
+  handoffRelay?: HandoffRelay;
+  customer?: CustomerIdentity;
+  // Branding overrides; anything left out keeps the Nibbly defaults.
+  config?: WidgetConfigInput;
+  // "docked" fills its parent and is always open, for pages built around the chat.
+  variant?: "floating" | "docked";
+  // Scopes the chat to one order, e.g. on its tracking page.
+  orderId?: string;
+  onOpenChange?: (open: boolean) => void;
+  // Called once per message, after a bot message has finished streaming.
+  onMessage?: (message: Message) => void;
+}
+
+// Lets an embedding page drive the widget (see `src/widget/loader.tsx`).
+export interface ChatBotHandle {
+  open: () => void;
+  close: () => void;
+  sendMessage: (text: string) => void;
+}
+
+// Earlier turns as plain text, for responders that need the transcript.
+const toHistory = (messages: Message[]): ChatHistoryEntry[] =>
+  messages
+    .filter(message => message.type === "text" || (message.type === "quick-replies" && message.text))
+    .map(message => ({
+      role: message.sender === 'user' ? 'user' : 'assistant',
+      content: message.type === "text" || message.type === "quick-replies" ? message.text : ""
+    }));
+
+export const ChatBot = forwardRef<ChatBotHandle, ChatBotProps>(({
+  orderService = defaultOrderService,
+  refundService = defaultRefundService,
+  telemetrySource = defaultTelemetrySource,
+  responder = defaultResponder,
+  conversationStore = defaultConversationStore,
+  conversationSync = defaultConversationSync,
+  handoffRelay = defaultHandoffRelay,
+  customer,
+  config,
+  variant = "floating",
+  orderId,
+  onOpenChange,
+  onMessage,
+}, ref) => {
+  const branding = useMemo(() => parseWidgetConfig(config), [config]);
+  const frustrationPolicy = useMemo(
+    () => ({ ...defaultFrustrationPolicy, threshold: branding.escalationThreshold }),
+    [branding.escalationThreshold]
+  );
   const [isOpen, setIsOpen] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      text: "Hi! I'm your Nibbly support assistant. I can help track your drone delivery, handle order issues, or answer questions about our service in Lower Manhattan! 🚁",
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // The history sheet renders inside the card so it also works inside the embed's shadow root.
+  const [cardElement, setCardElement] = useState<HTMLDivElement | null>(null);
+  // The opening messages by id, so they can follow the language switcher.
+  const openingTexts = useCallback((t: Translator): Record<string, string> => ({
+    '1': personalizedGreeting(branding, t, customer?.name),
+    ...(orderId ? { '2': t("chat.orderIntro", { orderId }) } : {}),
+  }), [branding, customer?.name, orderId]);
+  const { conversation, setMessages, setState: setConversationState, startNew, openConversation } = useConversation({
+    store: conversationStore,
+    sync: conversationSync,
+    retentionDays: branding.retentionDays,
+    locale: branding.locale ?? resolveLocale(navigator.language),
+    orderId,
+    createMessages: (locale) => Object.entries(openingTexts(translator(locale))).map(([id, text]) => ({
+      id,
+      type: 'text',
+      text,
       sender: 'bot',
       timestamp: new Date()
-    }
-  ]);
+    }))
+  });
+  const { messages } = conversation;
+  const t = translator(conversation.state.locale ?? "en");
   const [inputValue, setInputValue] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const activeOrderId = conversation.state.activeOrderId;
+  const activeOrder = useOrder(orderService, activeOrderId);
+  const queryClient = useQueryClient();
+  const { frame: activeFrame } = useTelemetry(activeOrderId, telemetrySource);
+  const notifiedOrdersRef = useRef(new Set<string>());
+  const pendingResponseRef = useRef<AbortController | null>(null);
+  // The state the next message starts from, ahead of the render that shows it.
+  const stateRef = useRef(conversation.state);
+  stateRef.current = conversation.state;
+  const conversationIdRef = useRef(conversation.id);
+  conversationIdRef.current = conversation.id;
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -67,47 +158,177 @@ export const ChatBot = () => {
     scrollToBottom();
   }, [messages]);
 
-  const getBotResponse = (userMessage: string): string => {
-    const message = userMessage.toLowerCase();
-    
-    // Check for order numbers (N001, N002, etc.)
-    const orderMatch = message.match(/n\d{3}/i);
-    if (orderMatch) {
-      const orderNum = orderMatch[0].toUpperCase();
-      const droneData = droneLocations[orderNum];
-      if (droneData) {
-        return `🚁 Found your order ${orderNum}!\n\n📍 Current location: ${droneData.location.address}\n⏰ ETA: ${droneData.eta} minutes\n📦 Status: ${droneData.status}\n\nYour drone is flying at 400ft altitude for safety. You'll get a notification when it's 1 minute away!`;
-      } else {
-        return `I couldn't find order ${orderNum}. Please double-check your order number or contact us if you think this is an error.`;
+  useEffect(() => {
+    return () => pendingResponseRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    const texts = openingTexts(t);
+    const isStale = (message: Message) => message.id in texts && message.type === "text" && message.text !== texts[message.id];
+    setMessages(prev => prev.some(isStale)
+      ? prev.map(message => isStale(message) ? { ...message, text: texts[message.id] } : message)
+      : prev
+    );
+  }, [openingTexts, t, setMessages]);
+
+  const changeOpen = (open: boolean) => {
+    setIsOpen(open);
+    onOpenChange?.(open);
+  };
+
+  const addMessage = (message: Message) => {
+    setMessages(prev => [...prev, message]);
+    onMessage?.(message);
+  };
+
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  // Agent messages can arrive more than once, e.g. in every open tab; keep the first.
+  const mergeMessages = useCallback((updates: Message[]) => {
+    const fresh = updates.filter(update => !messagesRef.current.some(message => message.id === update.id));
+    if (!fresh.length) return;
+    setMessages(prev => [...prev, ...fresh.filter(update => !prev.some(message => message.id === update.id))]);
+    fresh.forEach(message => onMessage?.(message));
+  }, [onMessage, setMessages]);
+
+  const handoff = useHandoff({ relay: handoffRelay, conversationId: conversation.id, onUpdates: mergeMessages, t });
+
+  useEffect(() => {
+    if (!activeFrame || activeFrame.etaSeconds > 60 || !isEnRoute(activeFrame.status)) return;
+    if (notifiedOrdersRef.current.has(activeFrame.orderId)) return;
+    notifiedOrdersRef.current.add(activeFrame.orderId);
+
+    const headsUp: Message = {
+      id: `eta-${activeFrame.orderId}`,
+      type: 'text',
+      text: t("chat.oneMinuteAway", { orderId: activeFrame.orderId }),
+      sender: 'bot',
+      timestamp: new Date()
+    };
+    setMessages(prev => prev.some(message => message.id === headsUp.id) ? prev : [...prev, headsUp]);
+    onMessage?.(headsUp);
+  }, [activeFrame, t, onMessage, setMessages]);
+
+  const loadOrders = async (orderIds: string[], signal: AbortSignal): Promise<OrderLookup> => {
+    const entries = await Promise.all(
+      orderIds.map(async (orderId) =>
+        [orderId, await queryClient.fetchQuery(orderQueryOptions(orderService, orderId))] as const
+      )
+    );
+    signal.throwIfAborted();
+    return Object.fromEntries(entries);
+  };
+
+  const cancelOrder = async (orderId: string, reason: string, signal?: AbortSignal) => {
+    const result = await orderService.cancelOrder(orderId, reason, signal);
+    await queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+    return result;
+  };
+
+  const requestRefund: RefundService["requestRefund"] = async (request, signal) => {
+    const result = await refundService.requestRefund(request, signal);
+    await queryClient.invalidateQueries({ queryKey: ["order", request.orderId] });
+    return result;
+  };
+
+  const requestAgent: RequestAgent = async (_signal, options) => {
+    const ticket = await handoffRelay.request({
+      conversationId: conversation.id,
+      customerName: customer?.name,
+      orderId: activeOrderId,
+      callbackPhone: options?.callbackPhone,
+      transcript: toTranscript(messages),
+    });
+    return { ticket, position: queuePosition(await handoffRelay.list(), ticket.id) };
+  };
+
+  // Only customers the host page has vouched for with a signed token can ask for their orders.
+  const customerToken = customer?.token;
+  const listOrders = customerToken
+    ? (signal: AbortSignal) => orderService.listOrders(customerToken, signal)
+    : undefined;
+
+  const respond = async (text: string) => {
+    // A new message supersedes whatever the bot was still saying.
+    pendingResponseRef.current?.abort();
+    const controller = new AbortController();
+    pendingResponseRef.current = controller;
+    setIsTyping(true);
+
+    const turnId = Date.now();
+    const conversationId = conversationIdRef.current;
+    const saveState = (state: ConversationState) => {
+      if (conversationId === conversationIdRef.current) stateRef.current = state;
+      setConversationState(state, conversationId);
+    };
+    const messageIds: string[] = [];
+    // Final contents of this turn's messages, reported once streaming is done.
+    const contents = new Map<string, MessageContent>();
+
+    try {
+      const events = responder.respond({
+        text,
+        state: stateRef.current,
+        history: toHistory(messagesRef.current),
+        loadOrders,
+        cancelOrder,
+        requestRefund,
+        requestAgent,
+        isVerified: verificationSession.isVerified,
+        listOrders,
+        frustrationPolicy,
+        signal: controller.signal
+      });
+
+      for await (const event of events) {
+        if (event.type === "message") {
+          const id = `${turnId}-${event.index}`;
+          messageIds.push(id);
+          contents.set(id, event.content);
+          setIsTyping(false);
+          setMessages(prev => [...prev, { ...event.content, id, sender: 'bot', timestamp: new Date() }]);
+        } else if (event.type === "text-delta") {
+          const id = `${turnId}-${event.index}`;
+          const content = contents.get(id);
+          if (content?.type === "text") contents.set(id, { ...content, text: content.text + event.delta });
+          setMessages(prev => prev.map(message =>
+            message.id === id && message.type === "text"
+              ? { ...message, text: message.text + event.delta }
+              : message
+          ));
+        } else if (event.type === "state") {
+          saveState(event.state);
+        } else {
+          saveState(event.state);
+          setMessages(prev => prev.map(message =>
+            messageIds.includes(message.id)
+              ? { ...message, intent: event.intent, confidence: event.confidence }
+              : message
+          ));
+          for (const [id, content] of contents) {
+            onMessage?.({ ...content, id, sender: 'bot', timestamp: new Date(), intent: event.intent, confidence: event.confidence });
+          }
+        }
       }
-    }
-    
-    // Check for exact matches first
-    for (const [key, response] of Object.entries(botResponses)) {
-      if (message.includes(key)) {
-        return response;
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      addMessage({
+        id: `${turnId}-error`,
+        type: "notice",
+        tone: "warning",
+        text: t("chat.unreachable"),
+        sender: 'bot',
+        timestamp: new Date(),
+        intent: "error.orders",
+        confidence: 0
+      });
+    } finally {
+      if (pendingResponseRef.current === controller) {
+        pendingResponseRef.current = null;
+        setIsTyping(false);
       }
     }
-    
-    // Check for drone-specific keywords
-    if (message.includes("drone") && (message.includes("where") || message.includes("location"))) {
-      return "To track your drone, please provide your order number (like N001). I'll show you exactly where it is and when it will arrive!";
-    }
-    
-    if (message.includes("eta") || message.includes("when") || message.includes("arrive")) {
-      return "Delivery times depend on your location in Lower Manhattan. Please share your order number and I'll give you the exact ETA!";
-    }
-    
-    if (message.includes("thank")) {
-      return "You're very welcome! Enjoy your Nibbly delivery! 🚁 Anything else I can help with?";
-    }
-    
-    if (message.includes("bye") || message.includes("goodbye")) {
-      return "Thanks for using Nibbly! Have a great day and don't hesitate to reach out if you need anything! 🚁";
-    }
-    
-    // Default response
-    return "I'm here to help with your Nibbly drone delivery! I can track your order, help with issues, or answer questions. What can I assist you with?";
   };
 
   const handleSendMessage = (messageText?: string) => {
@@ -116,27 +337,68 @@ export const ChatBot = () => {
 
     const userMessage: Message = {
       id: Date.now().toString(),
+      type: 'text',
       text: textToSend,
       sender: 'user',
       timestamp: new Date()
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    addMessage(userMessage);
     setInputValue("");
-    setIsTyping(true);
 
-    // Simulate bot response delay
-    setTimeout(() => {
-      const botResponse: Message = {
-        id: (Date.now() + 1).toString(),
-        text: getBotResponse(textToSend),
-        sender: 'bot',
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => [...prev, botResponse]);
-      setIsTyping(false);
-    }, 1500);
+    // While a support agent has the chat, messages go to them instead of the bot.
+    if (handoff.ticket) {
+      handoff.send(textToSend).catch(() => {
+        addMessage({
+          id: `${userMessage.id}-undelivered`,
+          type: "notice",
+          tone: "warning",
+          text: t("chat.undelivered"),
+          sender: 'bot',
+          timestamp: new Date()
+        });
+      });
+      return;
+    }
+    respond(textToSend);
+  };
+
+  useImperativeHandle(ref, () => ({
+    open: () => changeOpen(true),
+    close: () => changeOpen(false),
+    sendMessage: (text: string) => {
+      changeOpen(true);
+      handleSendMessage(text);
+    }
+  }));
+
+  const stopResponding = () => {
+    pendingResponseRef.current?.abort();
+    setIsTyping(false);
+    setInputValue("");
+  };
+
+  const leaveHandoff = () => {
+    handoff.leave().catch(error => reportError("Couldn't end the support chat", error));
+  };
+
+  const handleStartNew = () => {
+    stopResponding();
+    if (handoff.ticket) leaveHandoff();
+    setIsHistoryOpen(false);
+    startNew();
+  };
+
+  const handleOpenConversation = (conversationId: string) => {
+    setIsHistoryOpen(false);
+    if (conversationId === conversation.id) return;
+    stopResponding();
+    openConversation(conversationId).catch(error => reportError("Couldn't open conversation", error));
+  };
+
+  // A language picked by hand sticks; detection only replaces the default.
+  const changeLocale = (locale: Locale) => {
+    setConversationState({ ...conversation.state, locale, localeSource: "chosen" });
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -146,172 +408,266 @@ export const ChatBot = () => {
     }
   };
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const updateMessage = (id: string, content: MessageContent) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, ...content } : message));
   };
 
-  if (!isOpen) {
+  const handleAction = (action: ChatAction) => {
+    if (action.type === "reply") {
+      handleSendMessage(action.text);
+    } else {
+      window.open(action.href, "_blank", "noopener");
+    }
+  };
+
+  const isDocked = variant === "docked";
+  const containerClassName = isDocked
+    ? "h-full w-full"
+    : `fixed bottom-6 z-50 ${branding.position === 'left' ? 'left-6' : 'right-6'}`;
+  const theme = themeVariables(branding) as CSSProperties;
+  const LauncherIcon = launcherIcons[branding.launcherIcon as keyof typeof launcherIcons];
+  const agent = handoff.ticket?.agent;
+
+  if (!isOpen && !isDocked) {
     return (
-      <div className="fixed bottom-6 right-6 z-50">
+      <div className={containerClassName} style={theme}>
         <Button
-          onClick={() => setIsOpen(true)}
+          onClick={() => changeOpen(true)}
+          aria-label={t("chat.open", { title: branding.title })}
           className="h-14 w-14 rounded-full bg-gradient-primary shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-110"
         >
-          <MessageCircle className="h-6 w-6" />
+          {LauncherIcon
+            ? <LauncherIcon className="h-6 w-6" />
+            : <img src={branding.launcherIcon} alt="" className="h-7 w-7 object-contain" />}
         </Button>
       </div>
     );
   }
 
   return (
-    <div className="fixed bottom-6 right-6 z-50">
-      <Card className={`w-80 shadow-2xl border-0 transition-all duration-300 ${
-        isMinimized ? 'h-16' : 'h-[500px]'
-      }`}>
-        {/* Header */}
-        <div className="bg-gradient-primary text-primary-foreground p-4 rounded-t-lg">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <Avatar className="h-8 w-8 bg-white/20">
-                <AvatarFallback className="bg-white/20 text-primary-foreground text-xs">
-                  <Plane className="h-4 w-4" />
-                </AvatarFallback>
-              </Avatar>
-              <div>
-                <h3 className="font-semibold text-sm">Nibbly Support</h3>
-                <p className="text-xs opacity-90 flex items-center gap-1">
-                  <div className="w-1.5 h-1.5 bg-green-400 rounded-full"></div>
-                  Online
-                </p>
+    <TranslatorContext.Provider value={t}>
+      <div className={containerClassName} style={theme}>
+        <Card
+          ref={setCardElement}
+          className={isDocked
+            ? "relative overflow-hidden flex flex-col h-full w-full shadow-lg border-0"
+            : `relative overflow-hidden flex flex-col max-w-[calc(100vw-3rem)] shadow-2xl border-0 transition-all duration-300 ${isMinimized ? 'h-16' : ''}`}
+          style={isDocked ? undefined : { width: branding.width, height: isMinimized ? undefined : branding.height }}
+        >
+          {/* Header */}
+          <div className="bg-gradient-primary text-primary-foreground p-4 rounded-t-lg">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                {agent ? <AgentAvatar agent={agent} className="h-8 w-8" /> : (
+                  <Avatar className="h-8 w-8 bg-white/20">
+                    {branding.avatarUrl && <AvatarImage src={branding.avatarUrl} alt={branding.title} />}
+                    <AvatarFallback className="bg-white/20 text-primary-foreground text-xs">
+                      <Plane className="h-4 w-4" />
+                    </AvatarFallback>
+                  </Avatar>
+                )}
+                <div>
+                  <h3 className="font-semibold text-sm">{agent ? agent.name : branding.title}</h3>
+                  <p className="text-xs opacity-90 flex items-center gap-1">
+                    <span className={`w-1.5 h-1.5 rounded-full ${handoff.ticket && !agent ? 'bg-amber-500 animate-pulse' : 'bg-green-400'}`} />
+                    {agent
+                      ? t("chat.support", { title: branding.title })
+                      : handoff.ticket
+                        ? handoff.position ? t("chat.waitingInLine", { position: handoff.position }) : t("chat.waiting")
+                        : branding.subtitle}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                {/* A native select, since its menu has to open inside the embed's shadow root too. */}
+                <select
+                  value={t.locale}
+                  onChange={(e) => changeLocale(e.target.value as Locale)}
+                  title={t("chat.language")}
+                  aria-label={t("chat.language")}
+                  className="h-8 max-w-[4.5rem] rounded bg-transparent text-xs hover:bg-white/20 focus:outline-none"
+                >
+                  {locales.map(locale => (
+                    <option key={locale} value={locale} className="text-foreground">{localeNames[locale]}</option>
+                  ))}
+                </select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsHistoryOpen(true)}
+                  title={t("chat.pastConversations")}
+                  aria-label={t("chat.pastConversations")}
+                  className="h-8 w-8 p-0 hover:bg-white/20"
+                >
+                  <History className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleStartNew}
+                  title={t("chat.startNew")}
+                  aria-label={t("chat.startNew")}
+                  className="h-8 w-8 p-0 hover:bg-white/20"
+                >
+                  <SquarePen className="h-3 w-3" />
+                </Button>
+                {!isDocked && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setIsMinimized(!isMinimized)}
+                      className="h-8 w-8 p-0 hover:bg-white/20"
+                    >
+                      <Minimize2 className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => changeOpen(false)}
+                      className="h-8 w-8 p-0 hover:bg-white/20"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </>
+                )}
               </div>
-            </div>
-            <div className="flex gap-1">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setIsMinimized(!isMinimized)}
-                className="h-8 w-8 p-0 hover:bg-white/20"
-              >
-                <Minimize2 className="h-3 w-3" />
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setIsOpen(false)}
-                className="h-8 w-8 p-0 hover:bg-white/20"
-              >
-                <X className="h-3 w-3" />
-              </Button>
             </div>
           </div>
-        </div>
-
-        {!isMinimized && (
-          <>
-            {/* Quick Actions */}
-            <div className="p-3 bg-muted/30 border-b">
-              <div className="flex gap-1 flex-wrap">
-                {quickActions.map((action, index) => (
-                  <Button
-                    key={index}
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleSendMessage(action.query)}
-                    className="flex items-center gap-1 h-7 text-xs hover:bg-primary hover:text-primary-foreground transition-colors"
-                  >
-                    <action.icon className="h-3 w-3" />
-                    {action.label}
-                  </Button>
-                ))}
+
+          <Sheet open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+            <SheetContent
+              side="left"
+              container={cardElement}
+              className="absolute w-full sm:max-w-none p-4 flex flex-col"
+              overlayClassName="absolute"
+            >
+              <SheetHeader>
+                <SheetTitle className="text-sm text-left">{t("chat.conversations")}</SheetTitle>
+              </SheetHeader>
+              <ConversationHistory
+                store={conversationStore}
+                current={conversation}
+                onSelect={handleOpenConversation}
+                onStartNew={handleStartNew}
+              />
+            </SheetContent>
+          </Sheet>
+
+          {!isMinimized && (
+            <>
+              {/* Quick Actions */}
+              <div className="p-3 bg-muted/30 border-b">
+                <div className="flex gap-1 flex-wrap">
+                  {quickActions.map((action, index) => (
+                    <Button
+                      key={index}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSendMessage(t(action.query))}
+                      className="flex items-center gap-1 h-7 text-xs hover:bg-primary hover:text-primary-foreground transition-colors"
+                    >
+                      <action.icon className="h-3 w-3" />
+                      {t(action.label)}
+                    </Button>
+                  ))}
+                </div>
               </div>
-            </div>
 
-            {/* Messages */}
-            <ScrollArea className="flex-1 p-3 h-80">
-              <div className="space-y-3">
-                {messages.map((message) => (
-                  <div
-                    key={message.id}
-                    className={`flex animate-fade-in ${
-                      message.sender === 'user' ? 'justify-end' : 'justify-start'
-                    }`}
-                  >
-                    <div className={`flex gap-2 max-w-[85%] ${
-                      message.sender === 'user' ? 'flex-row-reverse' : 'flex-row'
-                    }`}>
-                      {message.sender === 'bot' && (
-                        <Avatar className="h-6 w-6 bg-gradient-primary flex-shrink-0">
-                          <AvatarFallback className="bg-gradient-primary text-primary-foreground text-xs">
-                            N
-                          </AvatarFallback>
-                        </Avatar>
-                      )}
-                      
-                      <div className={`space-y-1 ${
-                        message.sender === 'user' ? 'items-end' : 'items-start'
-                      } flex flex-col`}>
-                        <div className={`p-2 rounded-lg text-xs ${
-                          message.sender === 'user'
-                            ? 'bg-gradient-primary text-primary-foreground'
-                            : 'bg-muted text-foreground'
-                        }`}>
-                          <p className="leading-relaxed whitespace-pre-line">{message.text}</p>
-                        </div>
-                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                          <Clock className="h-2 w-2" />
-                          {formatTime(message.timestamp)}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                ))}
+              {/* Active Order */}
+              {activeOrderId && (
+                <div className="px-3 py-2 bg-primary/20 border-b flex items-center gap-2 text-xs">
+                  <Package className="h-3 w-3 flex-shrink-0" />
+                  <span className="font-semibold">{t("order.label", { orderId: activeOrderId })}</span>
+                  <span className="text-muted-foreground truncate">
+                    {activeOrder.isPending && t("chat.loadingOrder")}
+                    {activeOrder.isError && t("chat.orderUnavailable")}
+                    {activeOrder.data && !activeFrame && t("chat.orderEta", {
+                      status: t(`stage.${activeOrder.data.status}`),
+                      minutes: activeOrder.data.etaMinutes,
+                    })}
+                    {activeFrame && t("chat.orderEta", {
+                      status: t(`stage.${activeFrame.status}`),
+                      minutes: Math.ceil(activeFrame.etaSeconds / 60),
+                    })}
+                  </span>
+                </div>
+              )}
+
+              {/* Support chat */}
+              {handoff.ticket && (
+                <div className="px-3 py-2 bg-muted/60 border-b flex items-center gap-2 text-xs">
+                  <Headset className="h-3 w-3 flex-shrink-0" />
+                  <span className="flex-1 truncate">
+                    {agent ? t("chat.chattingWith", { agent: agent.name }) : t("chat.nextAgent")}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={leaveHandoff} className="h-6 px-2 text-xs gap-1">
+                    <LogOut className="h-3 w-3" />
+                    {t(agent ? "chat.endChat" : "chat.leaveQueue")}
+                  </Button>
+                </div>
+              )}
+
+              {/* Messages */}
+              <ScrollArea className="flex-1 min-h-0 p-3">
+                <div className="space-y-3">
+                  {messages.map((message, index) => (
+                    <ChatMessage
+                      key={message.id}
+                      message={message}
+                      isLatest={index === messages.length - 1}
+                      onAction={handleAction}
+                      onChange={content => updateMessage(message.id, content)}
+                      orderService={orderService}
+                      telemetrySource={telemetrySource}
+                      branding={branding}
+                    />
+                  ))}
                 
-                {isTyping && (
-                  <div className="flex justify-start animate-fade-in">
-                    <div className="flex gap-2 max-w-[85%]">
-                      <Avatar className="h-6 w-6 bg-gradient-primary">
-                        <AvatarFallback className="bg-gradient-primary text-primary-foreground text-xs">
-                          N
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="p-2 bg-muted rounded-lg">
-                        <div className="flex gap-1">
-                          <div className="w-1 h-1 bg-muted-foreground rounded-full animate-pulse"></div>
-                          <div className="w-1 h-1 bg-muted-foreground rounded-full animate-pulse" style={{animationDelay: '0.2s'}}></div>
-                          <div className="w-1 h-1 bg-muted-foreground rounded-full animate-pulse" style={{animationDelay: '0.4s'}}></div>
+                  {isTyping && (
+                    <div className="flex justify-start animate-fade-in">
+                      <div className="flex gap-2 max-w-[85%]">
+                        <BotAvatar name={branding.title} imageUrl={branding.avatarUrl} />
+                        <div className="p-2 bg-muted rounded-lg">
+                          <div className="flex gap-1">
+                            <div className="w-1 h-1 bg-muted-foreground rounded-full animate-pulse"></div>
+                            <div className="w-1 h-1 bg-muted-foreground rounded-full animate-pulse" style={{animationDelay: '0.2s'}}></div>
+                            <div className="w-1 h-1 bg-muted-foreground rounded-full animate-pulse" style={{animationDelay: '0.4s'}}></div>
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                )}
-                <div ref={messagesEndRef} />
-              </div>
-            </ScrollArea>
-
-            {/* Input */}
-            <div className="p-3 border-t">
-              <div className="flex gap-2">
-                <Input
-                  value={inputValue}
-                  onChange={(e) => setInputValue(e.target.value)}
-                  onKeyPress={handleKeyPress}
-                  placeholder="Ask about your order..."
-                  className="flex-1 h-8 text-xs"
-                  disabled={isTyping}
-                />
-                <Button 
-                  onClick={() => handleSendMessage()} 
-                  disabled={!inputValue.trim() || isTyping}
-                  size="sm"
-                  className="h-8 w-8 p-0 bg-gradient-primary hover:opacity-90"
-                >
-                  <Send className="h-3 w-3" />
-                </Button>
+                  )}
+                  <div ref={messagesEndRef} />
+                </div>
+              </ScrollArea>
+
+              {/* Input */}
+              <div className="p-3 border-t">
+                <div className="flex gap-2">
+                  <Input
+                    value={inputValue}
+                    onChange={(e) => setInputValue(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    placeholder={agent ? t("chat.messageAgent", { agent: agent.name }) : t("chat.placeholder")}
+                    className="flex-1 h-8 text-xs"
+                  />
+                  <Button 
+                    onClick={() => handleSendMessage()} 
+                    disabled={!inputValue.trim()}
+                    size="sm"
+                    className="h-8 w-8 p-0 bg-gradient-primary hover:opacity-90"
+                  >
+                    <Send className="h-3 w-3" />
+                  </Button>
+                </div>
               </div>
-            </div>
-          </>
-        )}
-      </Card>
-    </div>
+            </>
+          )}
+        </Card>
+      </div>
+    </TranslatorContext.Provider>
   );
-};
\ No newline at end of file
+});
+
+ChatBot.displayName = "ChatBot";
@@ -0,0 +1,26 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import type { AgentProfile } from "@/lib/handoff/types";
+
+interface AgentAvatarProps {
+  agent: AgentProfile;
+  className?: string;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part.charAt(0).toUpperCase())
+    .join("");
+
+// Dark rather than the bot's brand yellow, so it's obvious a person is talking.
+export const AgentAvatar = ({ agent, className }: AgentAvatarProps) => (
+  <Avatar className={cn("h-6 w-6 bg-foreground flex-shrink-0", className)}>
+    {agent.avatarUrl && <AvatarImage src={agent.avatarUrl} alt={agent.name} />}
+    <AvatarFallback className="bg-foreground text-background text-[10px] font-semibold">
+      {initials(agent.name)}
+    </AvatarFallback>
+  </Avatar>
+);
@@ -0,0 +1,15 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+
+interface BotAvatarProps {
+  name: string;
+  imageUrl?: string;
+}
+
+export const BotAvatar = ({ name, imageUrl }: BotAvatarProps) => (
+  <Avatar className="h-6 w-6 bg-gradient-primary flex-shrink-0">
+    {imageUrl && <AvatarImage src={imageUrl} alt={name} />}
+    <AvatarFallback className="bg-gradient-primary text-primary-foreground text-xs">
+      {name.charAt(0).toUpperCase()}
+    </AvatarFallback>
+  </Avatar>
+);
@@ -0,0 +1,100 @@
+import { Button } from "@/components/ui/button";
+import { AlertCircle, CheckCircle2, Clock, Info } from "lucide-react";
+import { useTranslator } from "@/hooks/use-translator";
+import type { ChatAction, Message, MessageContent } from "@/lib/chat/types";
+import { formatTime } from "@/lib/i18n/format";
+import type { OrderService } from "@/lib/orders/service";
+import type { TelemetrySource } from "@/lib/telemetry/types";
+import type { WidgetConfig } from "@/lib/widget-config";
+import { AgentAvatar } from "./AgentAvatar";
+import { BotAvatar } from "./BotAvatar";
+import { MessageBody } from "./MessageBody";
+
+interface ChatMessageProps {
+  message: Message;
+  // Quick replies only make sense as answers to the latest message.
+  isLatest: boolean;
+  onAction: (action: ChatAction) => void;
+  onChange: (content: MessageContent) => void;
+  orderService: OrderService;
+  telemetrySource: TelemetrySource;
+  branding: WidgetConfig;
+}
+
+const noticeIcons = {
+  info: Info,
+  success: CheckCircle2,
+  warning: AlertCircle,
+};
+
+export const ChatMessage = ({ message, isLatest, onAction, onChange, orderService, telemetrySource, branding }: ChatMessageProps) => {
+  const t = useTranslator();
+
+  if (message.type === "notice") {
+    const Icon = noticeIcons[message.tone ?? "info"];
+    return (
+      <div className="flex justify-center animate-fade-in">
+        <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-[10px] ${
+          message.tone === 'warning' ? 'bg-destructive/10 text-destructive' : 'bg-muted/60 text-muted-foreground'
+        }`}>
+          <Icon className="h-3 w-3 flex-shrink-0" />
+          {message.text}
+        </div>
+      </div>
+    );
+  }
+
+  const isUser = message.sender === 'user';
+  const agent = message.sender === 'agent' ? message.agent : undefined;
+  const hasBubble = message.type !== "quick-replies" || !!message.text;
+
+  return (
+    <div className={`flex animate-fade-in ${isUser ? 'justify-end' : 'justify-start'}`}>
+      <div className={`flex gap-2 max-w-[85%] ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
+        {agent
+          ? <AgentAvatar agent={agent} />
+          : !isUser && <BotAvatar name={branding.title} imageUrl={branding.avatarUrl} />}
+
+        <div className={`space-y-1 ${isUser ? 'items-end' : 'items-start'} flex flex-col`}>
+          {agent && <span className="text-[10px] font-semibold text-muted-foreground">{t("chat.agentLabel", { agent: agent.name })}</span>}
+          {hasBubble && (
+            <div className={`p-2 rounded-lg text-xs ${
+              isUser
+                ? 'bg-gradient-primary text-primary-foreground'
+                : agent ? 'bg-card border text-foreground' : 'bg-muted text-foreground'
+            }`}>
+              <MessageBody
+                message={message}
+                onAction={onAction}
+                onChange={onChange}
+                orderService={orderService}
+                telemetrySource={telemetrySource}
+              />
+            </div>
+          )}
+
+          {message.type === "quick-replies" && isLatest && (
+            <div className="flex flex-wrap gap-1">
+              {message.replies.map((reply) => (
+                <Button
+                  key={reply}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onAction({ type: "reply", text: reply })}
+                  className="h-6 px-2 text-xs rounded-full hover:bg-primary hover:text-primary-foreground"
+                >
+                  {reply}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Clock className="h-2 w-2" />
+            {formatTime(message.timestamp, t.locale)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
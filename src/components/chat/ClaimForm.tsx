@@ -0,0 +1,243 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Camera, CheckCircle2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useOrder } from "@/hooks/use-order";
+import { useTranslator } from "@/hooks/use-translator";
+import { claimService as defaultClaimService } from "@/lib/claims/client";
+import { compressPhoto, PhotoError, type CompressedPhoto } from "@/lib/claims/photos";
+import {
+  claimProblems,
+  claimResolutions,
+  describeClaimRefusal,
+  describeInvalidClaim,
+  MAX_CLAIM_PHOTOS,
+  validateClaim,
+} from "@/lib/claims/policy";
+import { ClaimServiceError, type ClaimService } from "@/lib/claims/service";
+import type { ClaimProblem, ClaimResolution } from "@/lib/claims/types";
+import type { MessageContent } from "@/lib/chat/types";
+import type { Translator } from "@/lib/i18n/types";
+import type { OrderService } from "@/lib/orders/service";
+import type { Order } from "@/lib/orders/types";
+
+interface ClaimFormProps {
+  orderId: string;
+  // Set once the claim has been submitted.
+  claimId?: string;
+  orderService: OrderService;
+  claimService?: ClaimService;
+  onChange: (content: MessageContent) => void;
+}
+
+interface ItemSelection {
+  problem: ClaimProblem;
+  quantity: number;
+}
+
+const describePhotoError = (error: unknown, t: Translator) =>
+  error instanceof PhotoError ? t(`photo.error.${error.reason}`, error.params) : t("photo.error.compress-failed");
+
+const describeSubmitError = (error: unknown, order: Order, t: Translator) => {
+  const failure = error instanceof ClaimServiceError ? error.failure : null;
+  switch (failure?.error) {
+    case "refused":
+      return describeClaimRefusal(failure.refusal, order, t);
+    case "invalid":
+      return describeInvalidClaim(failure, t);
+    case "verification-required":
+      return t("claimForm.error.verify", { orderId: order.id });
+    default:
+      return t("claimForm.error.unavailable");
+  }
+};
+
+export const ClaimForm = ({ orderId, claimId, orderService, claimService = defaultClaimService, onChange }: ClaimFormProps) => {
+  const queryClient = useQueryClient();
+  const t = useTranslator();
+  const { data: order } = useOrder(orderService, orderId);
+  const [selections, setSelections] = useState<Record<string, ItemSelection>>({});
+  const [photos, setPhotos] = useState<CompressedPhoto[]>([]);
+  const [resolution, setResolution] = useState<ClaimResolution | "">("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Double submits and retries after a dropped response reuse the same claim.
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+
+  if (claimId) {
+    return (
+      <p className="flex items-start gap-1 text-green-700">
+        <CheckCircle2 className="h-3 w-3 mt-0.5 flex-shrink-0" />
+        {t("claimForm.submitted", { claimId, orderId })}
+      </p>
+    );
+  }
+  if (!order) return <p className="text-muted-foreground">{t("claimForm.loading", { orderId })}</p>;
+
+  const selectProblem = (sku: string, quantity: number, problem: string) => {
+    setSelections(({ [sku]: previous, ...rest }) =>
+      problem ? { ...rest, [sku]: { problem: problem as ClaimProblem, quantity: previous?.quantity ?? quantity } } : rest
+    );
+  };
+
+  const addPhotos = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setError(null);
+    const room = MAX_CLAIM_PHOTOS - photos.length;
+    if (files.length > room) setError(t("claimForm.photoLimit", { max: MAX_CLAIM_PHOTOS }));
+
+    setIsBusy(true);
+    try {
+      for (const file of [...files].slice(0, room)) {
+        const photo = await compressPhoto(file);
+        setPhotos(current => [...current, photo]);
+      }
+    } catch (err) {
+      setError(describePhotoError(err, t));
+    } finally {
+      setIsBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const request = {
+    orderId,
+    items: Object.entries(selections).map(([sku, selection]) => ({ sku, ...selection })),
+    resolution: resolution as ClaimResolution,
+    photos: photos.map(photo => photo.dataUrl),
+    note,
+  };
+  const problem = resolution ? validateClaim(order, request, t) : t("claim.invalid.resolution");
+
+  const submit = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const claim = await claimService.submitClaim({ ...request, idempotencyKey });
+      await queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+      onChange({ type: "claim-form", orderId, claimId: claim.id });
+    } catch (err) {
+      setError(describeSubmitError(err, order, t));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 min-w-[220px]">
+      <div className="space-y-2">
+        <p className="font-semibold">{t("claimForm.whatsWrong", { orderId })}</p>
+        {order.items.map(item => {
+          const selection = selections[item.sku];
+          return (
+            <div key={item.sku} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span>{item.quantity}× {item.name}</span>
+                {selection && item.quantity > 1 && (
+                  <Input
+                    type="number"
+                    min={1}
+                    max={item.quantity}
+                    value={selection.quantity}
+                    onChange={(e) => setSelections(current => ({
+                      ...current,
+                      [item.sku]: { ...selection, quantity: Math.min(item.quantity, Math.max(1, Number(e.target.value) || 1)) },
+                    }))}
+                    aria-label={t("claimForm.howMany", { name: item.name })}
+                    className="h-6 w-12 px-1 text-xs bg-background"
+                  />
+                )}
+              </div>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={selection?.problem ?? ""}
+                onValueChange={(value) => selectProblem(item.sku, item.quantity, value)}
+                className="justify-start"
+                aria-label={t("claimForm.problemWith", { name: item.name })}
+              >
+                {claimProblems.map(value => (
+                  <ToggleGroupItem key={value} value={value} className="h-6 px-2 text-[10px] bg-background">
+                    {t(`claimProblem.${value}`)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-1">
+        <p className="font-semibold">
+          {t(Object.values(selections).some(s => s.problem === "damaged") ? "claimForm.photos.required" : "claimForm.photos.optional")}
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {photos.map((photo, index) => (
+            <div key={photo.dataUrl.slice(-32)} className="relative">
+              <img src={photo.dataUrl} alt={t("claimForm.photo", { number: index + 1 })} className="h-12 w-12 rounded object-cover" />
+              <button
+                className="absolute -top-1 -right-1 rounded-full bg-foreground text-background"
+                onClick={() => setPhotos(current => current.filter(candidate => candidate !== photo))}
+                aria-label={t("claimForm.removePhoto", { number: index + 1 })}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {photos.length < MAX_CLAIM_PHOTOS && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-12 w-12 flex-col gap-0 p-0 text-[10px] bg-background"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBusy}
+            >
+              <Camera className="h-4 w-4" />
+              {photos.length}/{MAX_CLAIM_PHOTOS}
+            </Button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => addPhotos(e.target.files)}
+        />
+      </div>
+
+      <RadioGroup value={resolution} onValueChange={(value) => setResolution(value as ClaimResolution)} className="gap-1">
+        <p className="font-semibold">{t("claimForm.howToFix")}</p>
+        {claimResolutions.map(value => (
+          <div key={value} className="flex items-center gap-2">
+            <RadioGroupItem value={value} id={`claim-${orderId}-${value}`} className="h-3 w-3" />
+            <Label htmlFor={`claim-${orderId}-${value}`} className="text-xs font-normal">{t(`claimResolution.${value}`)}</Label>
+          </div>
+        ))}
+      </RadioGroup>
+
+      <Textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder={t("claimForm.note")}
+        maxLength={500}
+        className="min-h-[48px] text-xs bg-background"
+      />
+
+      {error && <p className="text-destructive">{error}</p>}
+      <Button size="sm" className="h-7 w-full text-xs" onClick={submit} disabled={!!problem || isBusy}>
+        {t(isBusy ? "claimForm.working" : "claimForm.submit")}
+      </Button>
+      {problem && request.items.length > 0 && <p className="text-muted-foreground">{problem}</p>}
+    </div>
+  );
+};
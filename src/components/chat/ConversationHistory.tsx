@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow, type Locale as DateLocale } from "date-fns";
+import { enUS, es, zhCN } from "date-fns/locale";
+import { Package, SquarePen } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useTranslator } from "@/hooks/use-translator";
+import { summarizeConversation } from "@/lib/conversations/summary";
+import type { Conversation, ConversationStore } from "@/lib/conversations/types";
+import type { Locale } from "@/lib/i18n/types";
+
+interface ConversationHistoryProps {
+  store: ConversationStore;
+  current: Conversation;
+  onSelect: (conversationId: string) => void;
+  onStartNew: () => void;
+}
+
+const dateLocales: Record<Locale, DateLocale> = { en: enUS, es, "zh-CN": zhCN };
+
+export const ConversationHistory = ({ store, current, onSelect, onStartNew }: ConversationHistoryProps) => {
+  const t = useTranslator();
+  const { data: stored = [], isPending, isError } = useQuery({
+    queryKey: ["conversations"],
+    queryFn: () => store.list(),
+  });
+
+  // The open conversation may have changes that haven't been written yet.
+  const hasCurrent = current.messages.some(message => message.sender === "user");
+  const threads = [...(hasCurrent ? [current] : []), ...stored.filter(conversation => conversation.id !== current.id)]
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    .map(conversation => summarizeConversation(conversation, t));
+
+  return (
+    <div className="flex flex-col h-full gap-3">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onStartNew}
+        className="h-8 text-xs justify-start gap-2"
+      >
+        <SquarePen className="h-3 w-3" />
+        {t("history.new")}
+      </Button>
+
+      {isPending && <p className="text-xs text-muted-foreground">{t("history.loading")}</p>}
+      {isError && <p className="text-xs text-destructive">{t("history.unavailable")}</p>}
+      {!isPending && threads.length === 0 && (
+        <p className="text-xs text-muted-foreground">{t("history.empty")}</p>
+      )}
+
+      <ScrollArea className="flex-1 min-h-0">
+        <ul className="space-y-1">
+          {threads.map(thread => (
+            <li key={thread.id}>
+              <button
+                onClick={() => onSelect(thread.id)}
+                className={`w-full text-left rounded-md p-2 text-xs space-y-1 transition-colors hover:bg-muted ${
+                  thread.id === current.id ? 'bg-muted' : ''
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold truncate">{thread.title}</span>
+                  <span className="text-[10px] text-muted-foreground flex-shrink-0">
+                    {formatDistanceToNow(thread.updatedAt, { addSuffix: true, locale: dateLocales[t.locale] })}
+                  </span>
+                </div>
+                <p className="text-muted-foreground truncate">{thread.lastMessage}</p>
+                {thread.orderId && (
+                  <Badge variant="secondary" className="gap-1 text-[10px] px-1.5 py-0">
+                    <Package className="h-2.5 w-2.5" />
+                    {thread.orderId}
+                  </Badge>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import { BROOKLYN, LANDMARKS, MANHATTAN, MAP_BOUNDS, STREETS } from "@/lib/basemap";
+import { HUB, SERVICE_ZONES } from "@/lib/service-area";
+import type { GeoPoint } from "@/lib/orders/types";
+
+interface DroneMapProps {
+  drone?: GeoPoint;
+  destination?: GeoPoint;
+}
+
+const WIDTH = 240;
+// Degrees of longitude are shorter than degrees of latitude this far north.
+const LNG_SCALE = Math.cos((40.72 * Math.PI) / 180);
+const HEIGHT = Math.round(
+  (WIDTH * (MAP_BOUNDS.north - MAP_BOUNDS.south)) / ((MAP_BOUNDS.east - MAP_BOUNDS.west) * LNG_SCALE)
+);
+
+const project = ({ lat, lng }: GeoPoint) => ({
+  x: ((lng - MAP_BOUNDS.west) / (MAP_BOUNDS.east - MAP_BOUNDS.west)) * WIDTH,
+  y: ((MAP_BOUNDS.north - lat) / (MAP_BOUNDS.north - MAP_BOUNDS.south)) * HEIGHT,
+});
+
+const toPoints = (path: GeoPoint[]) =>
+  path.map((point) => {
+    const { x, y } = project(point);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(" ");
+
+export const DroneMap = ({ drone, destination }: DroneMapProps) => {
+  const hub = project(HUB);
+  const target = destination && project(destination);
+  const aircraft = drone && project(drone);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full rounded-md bg-sky-100"
+      role="img"
+      aria-label="Map of Lower Manhattan showing the drone's position"
+    >
+      <polygon points={toPoints(MANHATTAN)} className="fill-amber-50 stroke-amber-200" />
+      <polygon points={toPoints(BROOKLYN)} className="fill-amber-50 stroke-amber-200" />
+      {SERVICE_ZONES.map((zone) => (
+        <polygon
+          key={zone.name}
+          points={toPoints(zone.polygon)}
+          className="fill-primary/25 stroke-primary"
+          strokeDasharray="4 2"
+        />
+      ))}
+
+      {STREETS.map((street) => (
+        <polyline
+          key={street.name}
+          points={toPoints(street.path)}
+          className="fill-none stroke-slate-300"
+          strokeWidth={1.5}
+        />
+      ))}
+
+      {LANDMARKS.map((landmark) => {
+        const { x, y } = project(landmark);
+        return (
+          <text key={landmark.name} x={x} y={y} className="fill-slate-500 text-[7px]" textAnchor="middle">
+            {landmark.name}
+          </text>
+        );
+      })}
+
+      {target && (
+        <line
+          x1={hub.x}
+          y1={hub.y}
+          x2={target.x}
+          y2={target.y}
+          className="stroke-foreground/50"
+          strokeDasharray="3 3"
+        />
+      )}
+
+      <g>
+        <rect x={hub.x - 4} y={hub.y - 4} width={8} height={8} rx={1} className="fill-foreground" />
+        <text x={hub.x + 6} y={hub.y + 3} className="fill-foreground text-[7px] font-semibold">Hub</text>
+      </g>
+
+      {target && (
+        <g>
+          <circle cx={target.x} cy={target.y} r={4} className="fill-destructive" />
+          <circle cx={target.x} cy={target.y} r={1.5} className="fill-white" />
+        </g>
+      )}
+
+      {aircraft && (
+        <g
+          className="transition-transform duration-1000 ease-linear"
+          style={{ transform: `translate(${aircraft.x}px, ${aircraft.y}px)` }}
+        >
+          <circle r={9} className="fill-primary/40 animate-pulse" />
+          <text textAnchor="middle" dominantBaseline="central" className="text-[11px]">🚁</text>
+        </g>
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,44 @@
+import { useOrder } from "@/hooks/use-order";
+import { useTelemetry } from "@/hooks/use-telemetry";
+import { useOrderVerified } from "@/hooks/use-order-verification";
+import { useTranslator } from "@/hooks/use-translator";
+import type { OrderService } from "@/lib/orders/service";
+import type { TelemetrySource } from "@/lib/telemetry/types";
+import { DroneMap } from "./DroneMap";
+import { VerifyOrderForm } from "./VerifyOrderForm";
+
+interface LiveMapMessageProps {
+  orderId: string;
+  orderService: OrderService;
+  source?: TelemetrySource;
+}
+
+export const LiveMapMessage = ({ orderId, orderService, source }: LiveMapMessageProps) => {
+  const { data: order } = useOrder(orderService, orderId);
+  const { frame, error } = useTelemetry(orderId, source);
+  const verified = useOrderVerified(orderId);
+  const t = useTranslator();
+
+  if (!verified) {
+    return (
+      <div className="mt-2">
+        <VerifyOrderForm orderId={orderId} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-1">
+      <DroneMap drone={frame?.position} destination={order?.destination} />
+      <div className="flex items-center gap-3 text-[10px] text-muted-foreground">
+        <span>{t("map.hub")}</span>
+        <span className="text-destructive">{t("map.you")}</span>
+        <span>{t("map.drone")}</span>
+      </div>
+      {error && <p className="text-destructive">{t("map.unavailable")}</p>}
+      {order?.destination && (
+        <p className="text-muted-foreground">{t("map.deliveringTo", { address: order.destination.address })}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import { Button } from "@/components/ui/button";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import type { ActionButton, ChatAction, Message, MessageContent } from "@/lib/chat/types";
+import type { OrderService } from "@/lib/orders/service";
+import type { TelemetrySource } from "@/lib/telemetry/types";
+import { ClaimForm } from "./ClaimForm";
+import { OrderComparison } from "./OrderComparison";
+import { OrderStatusCard } from "./OrderStatusCard";
+import { LiveMapMessage } from "./LiveMapMessage";
+import { OrderTimelineMessage } from "./OrderTimelineMessage";
+import { VerifyOrderForm } from "./VerifyOrderForm";
+
+interface MessageBodyProps {
+  message: Message;
+  onAction: (action: ChatAction) => void;
+  // Lets interactive messages record their outcome in the transcript.
+  onChange: (content: MessageContent) => void;
+  orderService: OrderService;
+  telemetrySource: TelemetrySource;
+}
+
+const ActionButtons = ({ buttons, onAction }: { buttons: ActionButton[]; onAction: MessageBodyProps["onAction"] }) => (
+  <div className="flex flex-col gap-1">
+    {buttons.map((button) => (
+      <Button
+        key={button.label}
+        variant={button.variant ?? "default"}
+        size="sm"
+        onClick={() => onAction(button.action)}
+        className="h-7 text-xs justify-start"
+      >
+        {button.label}
+      </Button>
+    ))}
+  </div>
+);
+
+export const MessageBody = ({ message, onAction, onChange, orderService, telemetrySource }: MessageBodyProps) => {
+  switch (message.type) {
+    case "text":
+      return <p className="leading-relaxed whitespace-pre-line">{message.text}</p>;
+
+    case "quick-replies":
+      return message.text ? <p className="leading-relaxed whitespace-pre-line">{message.text}</p> : null;
+
+    case "order-status":
+      return <OrderStatusCard orderId={message.orderId} orderService={orderService} source={telemetrySource} />;
+
+    case "map":
+      return <LiveMapMessage orderId={message.orderId} orderService={orderService} source={telemetrySource} />;
+
+    case "order-timeline":
+      return <OrderTimelineMessage orderId={message.orderId} orderService={orderService} source={telemetrySource} />;
+
+    case "order-comparison":
+      return <OrderComparison orderIds={message.orderIds} orderService={orderService} />;
+
+    case "verify-order":
+      return <VerifyOrderForm orderId={message.orderId} />;
+
+    case "claim-form":
+      return (
+        <ClaimForm orderId={message.orderId} claimId={message.claimId} orderService={orderService} onChange={onChange} />
+      );
+
+    case "buttons":
+      return (
+        <div className="space-y-2">
+          {message.text && <p className="leading-relaxed whitespace-pre-line">{message.text}</p>}
+          <ActionButtons buttons={message.buttons} onAction={onAction} />
+        </div>
+      );
+
+    case "image":
+      return (
+        <figure className="space-y-1">
+          <img src={message.url} alt={message.alt} className="rounded-md max-h-48 object-cover" />
+          {message.caption && <figcaption className="text-muted-foreground">{message.caption}</figcaption>}
+        </figure>
+      );
+
+    case "carousel":
+      return (
+        <Carousel className="w-52 mx-6" opts={{ align: "start" }}>
+          <CarouselContent>
+            {message.cards.map((card) => (
+              <CarouselItem key={card.title}>
+                <div className="rounded-md bg-background p-2 space-y-1 h-full">
+                  {card.imageUrl && (
+                    <img src={card.imageUrl} alt="" className="rounded h-20 w-full object-cover" />
+                  )}
+                  <p className="font-semibold">{card.title}</p>
+                  {card.subtitle && <p className="text-muted-foreground">{card.subtitle}</p>}
+                  {card.buttons && <ActionButtons buttons={card.buttons} onAction={onAction} />}
+                </div>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          <CarouselPrevious className="h-6 w-6 -left-7" />
+          <CarouselNext className="h-6 w-6 -right-7" />
+        </Carousel>
+      );
+
+    case "notice":
+      return <p>{message.text}</p>;
+  }
+};
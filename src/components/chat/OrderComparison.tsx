@@ -0,0 +1,54 @@
+import { useQueries } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { orderQueryOptions } from "@/hooks/use-order";
+import { useTranslator } from "@/hooks/use-translator";
+import { isEnRoute } from "@/lib/orders/lifecycle";
+import type { OrderService } from "@/lib/orders/service";
+
+interface OrderComparisonProps {
+  orderIds: string[];
+  orderService: OrderService;
+}
+
+export const OrderComparison = ({ orderIds, orderService }: OrderComparisonProps) => {
+  const results = useQueries({ queries: orderIds.map((orderId) => orderQueryOptions(orderService, orderId)) });
+  const t = useTranslator();
+
+  return (
+    <div className="rounded-md bg-background/60 p-2 min-w-[220px]">
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-7 px-1">{t("comparison.order")}</TableHead>
+            <TableHead className="h-7 px-1">{t("comparison.status")}</TableHead>
+            <TableHead className="h-7 px-1">{t("comparison.eta")}</TableHead>
+            <TableHead className="h-7 px-1">{t("comparison.merchant")}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {orderIds.map((orderId, index) => {
+            const { data: order, isPending, isError } = results[index];
+            return (
+              <TableRow key={orderId}>
+                <TableCell className="p-1 font-semibold">{orderId}</TableCell>
+                {order ? (
+                  <>
+                    <TableCell className="p-1">{t(`stage.${order.status}`)}</TableCell>
+                    <TableCell className="p-1">
+                      {isEnRoute(order.status) ? t("comparison.minutes", { minutes: order.etaMinutes }) : "—"}
+                    </TableCell>
+                    <TableCell className="p-1 text-muted-foreground">{order.merchant}</TableCell>
+                  </>
+                ) : (
+                  <TableCell colSpan={3} className="p-1 text-muted-foreground">
+                    {isPending ? t("comparison.loading") : isError ? t("status.unavailable") : t("comparison.notFound")}
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
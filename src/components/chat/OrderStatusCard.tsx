@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Lock } from "lucide-react";
+import { useDelivery } from "@/hooks/use-delivery";
+import { useOrderVerified } from "@/hooks/use-order-verification";
+import { useTranslator } from "@/hooks/use-translator";
+import { formatAltitude } from "@/lib/i18n/format";
+import type { Translator } from "@/lib/i18n/types";
+import { isFinalStage } from "@/lib/orders/lifecycle";
+import type { OrderService } from "@/lib/orders/service";
+import type { TelemetrySource } from "@/lib/telemetry/types";
+import { VerifyOrderForm } from "./VerifyOrderForm";
+
+interface OrderStatusCardProps {
+  orderId: string;
+  orderService: OrderService;
+  source?: TelemetrySource;
+}
+
+const formatEta = (seconds: number, t: Translator) => {
+  if (seconds <= 0) return t("status.arrived");
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+export const OrderStatusCard = ({ orderId, orderService, source }: OrderStatusCardProps) => {
+  const { data: order, frame, telemetryError: error } = useDelivery(orderService, orderId, source);
+  const verified = useOrderVerified(orderId);
+  const t = useTranslator();
+  const [isVerifying, setIsVerifying] = useState(false);
+  const isLive = frame && !isFinalStage(frame.status);
+
+  return (
+    <div className="rounded-md bg-background/60 p-2 space-y-1 min-w-[200px]">
+      <div className="flex items-center justify-between font-semibold">
+        <span>{t("order.label", { orderId })}</span>
+        {isLive && (
+          <span className="flex items-center gap-1 text-[10px] uppercase text-green-600">
+            <span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></span>
+            {t("status.live")}
+          </span>
+        )}
+      </div>
+
+      {order && (
+        <p className="text-muted-foreground">
+          {t("status.summary", {
+            merchant: order.merchant,
+            count: order.items.reduce((count, item) => count + item.quantity, 0),
+            area: order.area,
+          })}
+        </p>
+      )}
+
+      {error && <p className="text-destructive">{t("status.unavailable")}</p>}
+      {!error && !frame && <p className="text-muted-foreground">{t("status.connecting")}</p>}
+      {frame && (
+        <>
+          <p>📦 {t(`stage.${frame.status}`)}</p>
+          <p>⏰ {t("status.eta", { eta: formatEta(frame.etaSeconds, t) })}</p>
+          <p>⬆️ {formatAltitude(frame.altitudeFt, t.locale)}</p>
+          {frame.position && (
+            <p className="text-muted-foreground">
+              📍 {frame.position.lat.toFixed(4)}, {frame.position.lng.toFixed(4)}
+            </p>
+          )}
+        </>
+      )}
+
+      {!verified && !isVerifying && (
+        <button className="flex items-center gap-1 underline text-muted-foreground" onClick={() => setIsVerifying(true)}>
+          <Lock className="h-3 w-3" />
+          {t("status.verify")}
+        </button>
+      )}
+      {!verified && isVerifying && <VerifyOrderForm orderId={orderId} />}
+    </div>
+  );
+};
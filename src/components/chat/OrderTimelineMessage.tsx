@@ -0,0 +1,25 @@
+import { useDelivery } from "@/hooks/use-delivery";
+import { useTranslator } from "@/hooks/use-translator";
+import type { OrderService } from "@/lib/orders/service";
+import type { TelemetrySource } from "@/lib/telemetry/types";
+import { OrderTimeline } from "@/components/tracking/OrderTimeline";
+
+interface OrderTimelineMessageProps {
+  orderId: string;
+  orderService: OrderService;
+  source?: TelemetrySource;
+}
+
+export const OrderTimelineMessage = ({ orderId, orderService, source }: OrderTimelineMessageProps) => {
+  const { history, isPending, isError } = useDelivery(orderService, orderId, source);
+  const t = useTranslator();
+
+  return (
+    <div className="rounded-md bg-background/60 p-2 mt-1 min-w-[200px] space-y-1">
+      <p className="font-semibold">{t("order.label", { orderId })}</p>
+      {isPending && <p className="text-muted-foreground">{t("timeline.loading")}</p>}
+      {isError && <p className="text-destructive">{t("timeline.unavailable")}</p>}
+      {history.length > 0 && <OrderTimeline history={history} compact />}
+    </div>
+  );
+};
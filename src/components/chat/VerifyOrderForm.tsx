@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ShieldCheck } from "lucide-react";
+import { useOrderVerified } from "@/hooks/use-order-verification";
+import { useTranslator } from "@/hooks/use-translator";
+import { verificationService as defaultVerificationService } from "@/lib/verification/client";
+import type { MessageKey } from "@/lib/i18n/types";
+import { VerificationError, type VerificationChallenge, type VerificationService } from "@/lib/verification/service";
+import { verificationSession } from "@/lib/verification/session";
+
+interface VerifyOrderFormProps {
+  orderId: string;
+  verificationService?: VerificationService;
+}
+
+const CODE_LENGTH = 6;
+
+const errorKey = (error: unknown): MessageKey =>
+  error instanceof VerificationError ? `verify.error.${error.reason}` : "verify.error.unavailable";
+
+export const VerifyOrderForm = ({ orderId, verificationService = defaultVerificationService }: VerifyOrderFormProps) => {
+  const queryClient = useQueryClient();
+  const verified = useOrderVerified(orderId);
+  const t = useTranslator();
+  const [contact, setContact] = useState("");
+  const [code, setCode] = useState("");
+  const [challenge, setChallenge] = useState<VerificationChallenge | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (verified) {
+    return (
+      <p className="flex items-center gap-1 text-green-700">
+        <ShieldCheck className="h-3 w-3" />
+        {t("verify.done", { orderId })}
+      </p>
+    );
+  }
+
+  const sendCode = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setChallenge(await verificationService.start(orderId, contact));
+    } catch (err) {
+      setError(errorKey(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const confirmCode = async (value: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const grant = await verificationService.confirm(orderId, challenge!.verificationId, value);
+      verificationSession.save(orderId, grant);
+      await queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+    } catch (err) {
+      setError(errorKey(err));
+      setCode("");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 min-w-[200px]">
+      {!challenge ? (
+        <>
+          <p>{t("verify.contact", { orderId })}</p>
+          <div className="flex gap-1">
+            <Input
+              value={contact}
+              onChange={(e) => setContact(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && contact.trim() && sendCode()}
+              placeholder={t("verify.contact.placeholder")}
+              className="h-7 text-xs bg-background"
+              disabled={isBusy}
+            />
+            <Button size="sm" className="h-7 text-xs" onClick={sendCode} disabled={!contact.trim() || isBusy}>
+              {t("verify.send")}
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p>{t("verify.code", { length: CODE_LENGTH, sentTo: challenge.sentTo })}</p>
+          <InputOTP
+            maxLength={CODE_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={confirmCode}
+            disabled={isBusy}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} className="h-7 w-7 text-xs bg-background" />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          {challenge.devCode && <p className="text-muted-foreground">{t("verify.demoCode", { code: challenge.devCode })}</p>}
+          <button className="underline text-muted-foreground" onClick={() => setChallenge(null)}>
+            {t("verify.changeContact")}
+          </button>
+        </>
+      )}
+      {error && <p className="text-destructive">{t(error)}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import { AlertTriangle, Check } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { useTranslator } from "@/hooks/use-translator";
+import { formatTime } from "@/lib/i18n/format";
+import {
+  DELIVERY_PATH,
+  currentStage,
+  deliveryProgress,
+  stageTime,
+  type DeliveryStage,
+  type StageEvent,
+} from "@/lib/orders/lifecycle";
+
+interface OrderTimelineProps {
+  history: StageEvent[];
+  compact?: boolean;
+}
+
+const failureStages: DeliveryStage[] = ["Failed", "Returning", "Returned", "Cancelled"];
+
+export const OrderTimeline = ({ history, compact = false }: OrderTimelineProps) => {
+  const t = useTranslator();
+  const stage = currentStage(history);
+  const failed = failureStages.includes(stage);
+  // A failed or cancelled delivery shows what it got through, then where it stopped.
+  const steps = failed
+    ? [...DELIVERY_PATH.filter(step => stageTime(history, step)), ...failureStages.filter(step => stageTime(history, step))]
+    : DELIVERY_PATH;
+
+  return (
+    <div className={compact ? "space-y-2" : "space-y-4"}>
+      <Progress
+        value={deliveryProgress(stage)}
+        className={`${compact ? 'h-1.5' : 'h-2'} ${failed ? '[&>div]:bg-destructive' : ''}`}
+        aria-label={t("timeline.progress", { stage: t(`stage.${stage}`) })}
+      />
+      <ol className={compact ? "space-y-1" : "space-y-3"}>
+        {steps.map(step => {
+          const at = stageTime(history, step);
+          const isCurrent = step === stage;
+          const isProblem = failureStages.includes(step);
+          return (
+            <li key={step} className={`flex items-center gap-2 ${compact ? 'text-xs' : 'text-sm'}`}>
+              <span className={`flex flex-shrink-0 items-center justify-center rounded-full border-2 ${
+                compact ? 'h-4 w-4' : 'h-6 w-6'
+              } ${
+                isProblem
+                  ? 'border-destructive bg-destructive text-destructive-foreground'
+                  : at
+                    ? 'bg-primary border-primary text-primary-foreground'
+                    : 'border-muted'
+              } ${isCurrent && stage !== "Delivered" ? 'animate-pulse' : ''}`}>
+                {at && (isProblem ? <AlertTriangle className="h-2.5 w-2.5" /> : <Check className="h-2.5 w-2.5" />)}
+              </span>
+              <span className={at ? (isCurrent ? 'font-semibold' : 'font-medium') : 'text-muted-foreground'}>{t(`stage.${step}`)}</span>
+              {at && <span className="ml-auto text-muted-foreground">{formatTime(at, t.locale)}</span>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState, type SetStateAction } from "react";
+import { initialConversationState } from "@/lib/bot/engine";
+import type { ConversationState } from "@/lib/bot/types";
+import type { Message } from "@/lib/chat/types";
+import type { Conversation, ConversationStore, ConversationSync } from "@/lib/conversations/types";
+import { reportError } from "@/lib/diagnostics";
+import type { Locale } from "@/lib/i18n/types";
+
+// Streaming replies change the transcript every few milliseconds; writes are batched.
+const SAVE_INTERVAL_MS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface UseConversationOptions {
+  store: ConversationStore;
+  sync: ConversationSync;
+  retentionDays: number;
+  // The language a brand-new conversation starts in, until the customer's first message says otherwise.
+  locale: Locale;
+  // The opening messages of a brand-new conversation.
+  createMessages: (locale: Locale) => Message[];
+  // Scopes the chat to one order: its latest thread is restored, or a new one starts with it active.
+  orderId?: string;
+}
+
+type Language = Pick<ConversationState, "locale" | "localeSource">;
+
+const createConversation = (createMessages: (locale: Locale) => Message[], language: Language, orderId?: string): Conversation => {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    messages: createMessages(language.locale),
+    state: { ...initialConversationState, ...language, activeOrderId: orderId ?? null },
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Nothing worth keeping until the customer has said something.
+const hasCustomerMessages = (conversation: Conversation) =>
+  conversation.messages.some(message => message.sender === "user");
+
+export const useConversation = ({ store, sync, retentionDays, locale, createMessages, orderId }: UseConversationOptions) => {
+  const [conversation, setConversation] = useState(() =>
+    createConversation(createMessages, { locale, localeSource: "default" }, orderId)
+  );
+  const [isRestored, setIsRestored] = useState(false);
+  // Set when the current value came from storage or another tab, so it isn't written straight back.
+  const skipSaveRef = useRef(false);
+  const pendingSaveRef = useRef<Conversation | null>(null);
+  const saveTimerRef = useRef<number>();
+  const conversationRef = useRef(conversation);
+  conversationRef.current = conversation;
+
+  const flushSave = useCallback(() => {
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = undefined;
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+
+    store.put(pending).catch(error => reportError("Couldn't save conversation", error));
+    sync.publish(pending);
+  }, [store, sync]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      await store.deleteOlderThan(new Date(Date.now() - retentionDays * DAY_MS));
+      const conversations = await store.list();
+      const latest = orderId
+        ? conversations.find(conversation => conversation.state.activeOrderId === orderId)
+        : conversations[0];
+      if (cancelled || !latest) return;
+      setConversation(current => {
+        // The customer started typing before storage answered; keep what they wrote.
+        if (hasCustomerMessages(current)) return current;
+        skipSaveRef.current = true;
+        return latest;
+      });
+    };
+
+    restore()
+      .catch(error => reportError("Couldn't restore conversation", error))
+      .finally(() => {
+        if (!cancelled) setIsRestored(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [store, retentionDays, orderId]);
+
+  useEffect(() => {
+    return sync.subscribe(remote => {
+      setConversation(current => {
+        if (remote.id !== current.id || remote.updatedAt <= current.updatedAt) return current;
+        skipSaveRef.current = true;
+        return remote;
+      });
+    });
+  }, [sync]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    if (skipSaveRef.current) {
+      skipSaveRef.current = false;
+      return;
+    }
+    if (!hasCustomerMessages(conversation)) return;
+
+    pendingSaveRef.current = conversation;
+    saveTimerRef.current ??= window.setTimeout(flushSave, SAVE_INTERVAL_MS);
+  }, [conversation, isRestored, flushSave]);
+
+  // Don't lose the last batch when the page goes away mid-reply.
+  useEffect(() => {
+    window.addEventListener("pagehide", flushSave);
+    return () => {
+      window.removeEventListener("pagehide", flushSave);
+      flushSave();
+    };
+  }, [flushSave]);
+
+  const setMessages = useCallback((action: SetStateAction<Message[]>) => {
+    setConversation(current => {
+      const messages = typeof action === "function" ? action(current.messages) : action;
+      return messages === current.messages ? current : { ...current, messages, updatedAt: new Date() };
+    });
+  }, []);
+
+  // A turn's state belongs to the conversation it started in, even if the customer
+  // has since moved to another one; that one is updated in storage instead.
+  const setState = useCallback((state: ConversationState, conversationId = conversationRef.current.id) => {
+    if (conversationId !== conversationRef.current.id) {
+      store.get(conversationId)
+        .then(stored => stored && store.put({ ...stored, state, updatedAt: new Date() }))
+        .catch(error => reportError("Couldn't save conversation", error));
+      return;
+    }
+    setConversation(current => current.id === conversationId ? { ...current, state, updatedAt: new Date() } : current);
+  }, [store]);
+
+  // A new conversation carries on in the language the customer was using.
+  const startNew = useCallback(() => {
+    flushSave();
+    setConversation(current => createConversation(createMessages, {
+      locale: current.state.locale ?? locale,
+      localeSource: current.state.localeSource ?? "default",
+    }, orderId));
+  }, [flushSave, createMessages, locale, orderId]);
+
+  const openConversation = useCallback(async (conversationId: string) => {
+    flushSave();
+    const stored = await store.get(conversationId);
+    if (!stored) return;
+    skipSaveRef.current = true;
+    setConversation(stored);
+  }, [store, flushSave]);
+
+  return { conversation, isRestored, setMessages, setState, startNew, openConversation };
+};
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { OrderService } from "@/lib/orders/service";
+import type { TelemetrySource } from "@/lib/telemetry/types";
+import { useOrder } from "./use-order";
+import { useTelemetry } from "./use-telemetry";
+
+// An order together with its live telemetry. The order's stage history is the
+// source of truth, so it's refetched whenever the drone reports a new stage.
+export const useDelivery = (orderService: OrderService, orderId: string | null, source?: TelemetrySource) => {
+  const queryClient = useQueryClient();
+  const orderQuery = useOrder(orderService, orderId);
+  const { frame, error } = useTelemetry(orderQuery.data ? orderId : null, source);
+  const order = orderQuery.data;
+  const liveStage = frame?.status;
+  // Refetch once per new stage, even if the order API lags behind telemetry.
+  const refreshedForRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!orderId || !liveStage || !order || liveStage === order.status) return;
+    if (refreshedForRef.current === liveStage) return;
+    refreshedForRef.current = liveStage;
+    queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+  }, [queryClient, orderId, liveStage, order]);
+
+  return {
+    ...orderQuery,
+    stage: liveStage ?? order?.status ?? null,
+    history: order?.history ?? [],
+    frame,
+    telemetryError: error,
+  };
+};
@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { reportError } from "@/lib/diagnostics";
+import type { HandoffRelay, HandoffTicket } from "@/lib/handoff/types";
+
+// Every ticket on the relay, oldest first, kept current as customers and
+// other agents change them.
+export const useHandoffQueue = (relay: HandoffRelay) => {
+  const [tickets, setTickets] = useState<HandoffTicket[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () =>
+      relay
+        .list()
+        .then(next => {
+          if (!cancelled) setTickets(next);
+        })
+        .catch(error => reportError("Couldn't load the support queue", error));
+
+    refresh();
+    const unsubscribe = relay.subscribe(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [relay]);
+
+  return tickets;
+};
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Message } from "@/lib/chat/types";
+import { reportError } from "@/lib/diagnostics";
+import { isOpen, latestTicketFor, queuePosition, ticketUpdates } from "@/lib/handoff/queue";
+import type { HandoffRelay, HandoffTicket } from "@/lib/handoff/types";
+import type { Translator } from "@/lib/i18n/types";
+
+interface UseHandoffOptions {
+  relay: HandoffRelay;
+  conversationId: string;
+  // Receives every customer-visible update for the ticket, including ones
+  // already shown; callers skip ids they have.
+  onUpdates: (messages: Message[]) => void;
+  t: Translator;
+}
+
+// Follows the conversation's handoff ticket, if it has one, and relays what
+// the customer writes while it's open.
+export const useHandoff = ({ relay, conversationId, onUpdates, t }: UseHandoffOptions) => {
+  const [ticket, setTicket] = useState<HandoffTicket | null>(null);
+  const [position, setPosition] = useState(0);
+  const onUpdatesRef = useRef(onUpdates);
+  onUpdatesRef.current = onUpdates;
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  useEffect(() => {
+    let cancelled = false;
+    setTicket(null);
+    setPosition(0);
+
+    const refresh = async () => {
+      const tickets = await relay.list();
+      if (cancelled) return;
+      const latest = latestTicketFor(tickets, conversationId);
+      setTicket(latest);
+      setPosition(latest ? queuePosition(tickets, latest.id) : 0);
+      if (latest) onUpdatesRef.current(ticketUpdates(latest, tRef.current));
+    };
+
+    const report = (error: unknown) => reportError("Couldn't load the support chat", error);
+    refresh().catch(report);
+    // Any ticket changing can move this one up the queue.
+    const unsubscribe = relay.subscribe(() => refresh().catch(report));
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [relay, conversationId]);
+
+  const openTicket = ticket && isOpen(ticket) ? ticket : null;
+
+  const send = useCallback(
+    async (text: string) => {
+      if (!openTicket) return;
+      await relay.send(openTicket.id, { from: "customer", text });
+    },
+    [relay, openTicket],
+  );
+
+  const leave = useCallback(async () => {
+    if (!openTicket) return;
+    await relay.close(openTicket.id, "customer");
+  }, [relay, openTicket]);
+
+  return { ticket: openTicket, position, send, leave };
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { verificationSession, type VerificationSession } from "@/lib/verification/session";
+
+export const useOrderVerified = (orderId: string | null, session: VerificationSession = verificationSession) =>
+  useSyncExternalStore(session.subscribe, () => (orderId ? session.isVerified(orderId) : false));
@@ -0,0 +1,15 @@
+import { queryOptions, useQuery } from "@tanstack/react-query";
+import type { OrderService } from "@/lib/orders/service";
+
+export const orderQueryOptions = (service: OrderService, orderId: string) =>
+  queryOptions({
+    queryKey: ["order", orderId],
+    queryFn: ({ signal }) => service.getOrder(orderId, signal),
+    staleTime: 30_000,
+  });
+
+export const useOrder = (service: OrderService, orderId: string | null) =>
+  useQuery({
+    ...orderQueryOptions(service, orderId ?? ""),
+    enabled: !!orderId,
+  });
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import { telemetrySource as defaultSource } from "@/lib/telemetry/client";
+import type { TelemetryFrame, TelemetrySource } from "@/lib/telemetry/types";
+import { useOrderVerified } from "./use-order-verification";
+
+export const useTelemetry = (orderId: string | null, source: TelemetrySource = defaultSource) => {
+  const [frame, setFrame] = useState<TelemetryFrame | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  // Verifying unlocks precise positions, which needs a fresh subscription.
+  const verified = useOrderVerified(orderId);
+
+  useEffect(() => {
+    setFrame(null);
+    setError(null);
+    if (!orderId) return;
+    return source.subscribe(orderId, setFrame, setError);
+  }, [orderId, source, verified]);
+
+  return { frame, error };
+};
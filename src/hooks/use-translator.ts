@@ -0,0 +1,8 @@
+import { createContext, useContext } from "react";
+import { english } from "@/lib/i18n/translator";
+
+// Set by the chat window to the conversation's language, so message bodies and
+// cards deep in the tree follow the header's switcher.
+export const TranslatorContext = createContext(english);
+
+export const useTranslator = () => useContext(TranslatorContext);
@@ -0,0 +1,73 @@
+import type { GeoPoint } from "@/lib/orders/types";
+
+// A hand-simplified vector basemap of Lower Manhattan, so maps render offline
+// without a tile server. Accurate to roughly a block.
+
+export const MAP_BOUNDS = {
+  north: 40.745,
+  south: 40.698,
+  west: -74.022,
+  east: -73.968,
+};
+
+export const MANHATTAN: GeoPoint[] = [
+  { lat: 40.7003, lng: -74.0150 },
+  { lat: 40.7040, lng: -74.0185 },
+  { lat: 40.7100, lng: -74.0170 },
+  { lat: 40.7160, lng: -74.0135 },
+  { lat: 40.7230, lng: -74.0125 },
+  { lat: 40.7300, lng: -74.0110 },
+  { lat: 40.7370, lng: -74.0100 },
+  { lat: 40.7450, lng: -74.0095 },
+  { lat: 40.7450, lng: -73.9720 },
+  { lat: 40.7350, lng: -73.9720 },
+  { lat: 40.7250, lng: -73.9715 },
+  { lat: 40.7170, lng: -73.9745 },
+  { lat: 40.7115, lng: -73.9780 },
+  { lat: 40.7085, lng: -73.9900 },
+  { lat: 40.7060, lng: -74.0020 },
+  { lat: 40.7020, lng: -74.0090 },
+];
+
+export const BROOKLYN: GeoPoint[] = [
+  { lat: 40.6980, lng: -73.9970 },
+  { lat: 40.7030, lng: -73.9940 },
+  { lat: 40.7040, lng: -73.9870 },
+  { lat: 40.7030, lng: -73.9780 },
+  { lat: 40.7070, lng: -73.9700 },
+  { lat: 40.6980, lng: -73.9680 },
+];
+
+export interface Street {
+  name: string;
+  path: GeoPoint[];
+}
+
+export const STREETS: Street[] = [
+  {
+    name: "Broadway",
+    path: [
+      { lat: 40.7056, lng: -74.0134 },
+      { lat: 40.7128, lng: -74.0075 },
+      { lat: 40.7230, lng: -73.9995 },
+      { lat: 40.7310, lng: -73.9925 },
+      { lat: 40.7359, lng: -73.9911 },
+    ],
+  },
+  { name: "14th St", path: [{ lat: 40.7420, lng: -74.0085 }, { lat: 40.7295, lng: -73.9740 }] },
+  { name: "Houston St", path: [{ lat: 40.7282, lng: -74.0104 }, { lat: 40.7205, lng: -73.9798 }] },
+  { name: "Canal St", path: [{ lat: 40.7223, lng: -74.0105 }, { lat: 40.7146, lng: -73.9935 }] },
+  { name: "Bowery", path: [{ lat: 40.7140, lng: -73.9972 }, { lat: 40.7260, lng: -73.9910 }] },
+  { name: "West St", path: [{ lat: 40.7050, lng: -74.0160 }, { lat: 40.7410, lng: -74.0085 }] },
+];
+
+export interface Landmark extends GeoPoint {
+  name: string;
+}
+
+export const LANDMARKS: Landmark[] = [
+  { name: "Battery Park", lat: 40.7033, lng: -74.0170 },
+  { name: "City Hall", lat: 40.7128, lng: -74.0060 },
+  { name: "Washington Sq", lat: 40.7308, lng: -73.9973 },
+  { name: "Union Sq", lat: 40.7359, lng: -73.9906 },
+];
@@ -0,0 +1,23 @@
+import { createChatCompletionsResponder } from "@/lib/llm/chat-completions";
+import { createMockFetch } from "@/mocks/server";
+import { llmRoutes } from "@/mocks/llm";
+import { ruleBasedResponder, withFallback } from "./responder";
+
+// VITE_LLM_API_URL points the bot at a chat completions endpoint, with the
+// rule-based bot as fallback. "mock" uses the deterministic in-browser stub;
+// unset, the rule-based bot answers on its own.
+const llmUrl = import.meta.env.VITE_LLM_API_URL;
+const model = import.meta.env.VITE_LLM_MODEL ?? "nibbly-support";
+
+const MOCK_LLM_URL = "/llm";
+
+const createResponder = () => {
+  if (!llmUrl) return ruleBasedResponder;
+
+  const llm = llmUrl === "mock"
+    ? createChatCompletionsResponder({ baseUrl: MOCK_LLM_URL, model, fetch: createMockFetch(MOCK_LLM_URL, llmRoutes) })
+    : createChatCompletionsResponder({ baseUrl: llmUrl, model });
+  return withFallback(llm, ruleBasedResponder);
+};
+
+export const responder = createResponder();
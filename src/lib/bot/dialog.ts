@@ -0,0 +1,406 @@
+import { replyButton, text, type MessageContent } from "@/lib/chat/types";
+import { checkClaim, describeClaimRefusal } from "@/lib/claims/policy";
+import { geocode, nearestPlace } from "@/lib/gazetteer";
+import { vocabulary } from "@/lib/i18n/catalog";
+import { formatAmount, formatDistance } from "@/lib/i18n/format";
+import type { MessageKey, Translator } from "@/lib/i18n/types";
+import { checkCancellation, describeRefusal } from "@/lib/orders/cancellation";
+import type { Order } from "@/lib/orders/types";
+import {
+  checkRefund,
+  decodeItems,
+  describeLines,
+  describeRefundRefusal,
+  eligibleReasons,
+  encodeItems,
+  findReason,
+  orderRefundRefusal,
+  reasonLabel,
+  refundableItems,
+  refundLines,
+  refundTotal,
+} from "@/lib/refunds/policy";
+import { flightMinutes, isCovered, nearestCoveredPoint } from "@/lib/service-area";
+import { containsPhrase, contentTokens, tokenize } from "./tokenize";
+import type { BotEffect, DialogState, IntentInput } from "./types";
+
+type Values = Record<string, string>;
+
+export interface DialogSlot {
+  name: string;
+  prompt: MessageKey;
+  // Suggested answers offered alongside the prompt.
+  replies?: (values: Values, input: IntentInput) => string[];
+  // Returns the slot value, or null to re-prompt with `retry`.
+  parse: (input: IntentInput, values: Values) => string | null;
+  retry: MessageKey;
+  // Slots that only apply to some answers are skipped when this is false.
+  when?: (values: Values, input: IntentInput) => boolean;
+  // Lets the message that starts the flow fill the slot, e.g. "do you deliver to SoHo".
+  prefill?: boolean;
+}
+
+export interface DialogFlow {
+  id: string;
+  slots: DialogSlot[];
+  // Checked whenever the flow moves on; a message ends the flow with it.
+  refuse?: (values: Values, input: IntentInput) => string | MessageContent[] | null;
+  // Flows without a confirmation complete as soon as every slot is filled.
+  confirm?: (values: Values, input: IntentInput) => string;
+  // Button labels for yes and no; without them the customer gets Yes/No quick replies.
+  confirmButtons?: (values: Values, t: Translator) => [string, string];
+  complete: (values: Values, input: IntentInput) => string | MessageContent[];
+  // Backend work to do once the customer confirms; `requestId` is only set for
+  // flows with a confirmation.
+  effect?: (values: Values, requestId?: string) => BotEffect;
+  declined?: MessageKey;
+}
+
+export type DialogStep =
+  | { messages: MessageContent[]; state: DialogState; done: false }
+  | { messages: MessageContent[]; state: null; done: true; effects?: BotEffect[] };
+
+const EXIT_PHRASES = vocabulary("exit").map(tokenize);
+const YES_PHRASES = vocabulary("yes").map(tokenize);
+const NO_PHRASES = vocabulary("no").map(tokenize);
+const ALL_ITEMS = vocabulary("everything").map(tokenize);
+const CONFIRMATION_WORDS = new Set([...YES_PHRASES, ...NO_PHRASES].flat());
+
+const saysAny = (input: IntentInput, phrases: string[][]) =>
+  phrases.some((phrase) => containsPhrase(input.tokens, phrase));
+
+export const isExitRequest = (input: IntentInput) => saysAny(input, EXIT_PHRASES);
+
+export const parseConfirmation = (input: IntentInput) => {
+  if (saysAny(input, NO_PHRASES)) return false;
+  if (saysAny(input, YES_PHRASES)) return true;
+  return null;
+};
+
+// Orders named in the message that exist, e.g. both of "cancel N001 and N002".
+const namedOrders = ({ entities, orders }: IntentInput) => entities.orderIds.filter((orderId) => orders[orderId]);
+
+// Changing an order takes proof of owning it, not just its number.
+export const verificationRequired = (orderId: string, t: Translator): MessageContent[] => [
+  text(t("order.verifyFirst", { orderId })),
+  { type: "verify-order", orderId },
+];
+
+const orderSlot: DialogSlot = {
+  name: "orderId",
+  prompt: "dialog.order.prompt",
+  // Offers the orders just named when there was more than one to choose from.
+  replies: (_values, input) => {
+    const named = namedOrders(input);
+    return [...(named.length > 1 ? named : []), input.t("dialog.neverMind")];
+  },
+  parse: (input) => namedOrders(input)[0] ?? null,
+  retry: "dialog.order.retry",
+};
+
+// A bare "yes" or "no" answers a question the bot didn't ask, so it isn't taken
+// as the text.
+const freeTextSlot = (name: string, prompt: MessageKey, retry: MessageKey): DialogSlot => ({
+  name,
+  prompt,
+  parse: ({ text, tokens }) =>
+    tokens.length > 0 && tokens.every((token) => CONFIRMATION_WORDS.has(token)) ? null : text.trim() || null,
+  retry,
+});
+
+const placeSlot: DialogSlot = {
+  name: "place",
+  prompt: "dialog.place.prompt",
+  parse: ({ text }) => (geocode(text) ? text : null),
+  retry: "dialog.place.retry",
+  prefill: true,
+};
+
+// Ten to fifteen digits, allowing the usual separators.
+const PHONE_NUMBER = /\+?\(?\d[\d\s().-]{8,18}\d/;
+
+const phoneSlot: DialogSlot = {
+  name: "phone",
+  prompt: "dialog.phone.prompt",
+  parse: ({ text }) => {
+    const phone = text.match(PHONE_NUMBER)?.[0].trim();
+    const digits = phone?.replace(/\D/g, "").length ?? 0;
+    return phone && digits >= 10 && digits <= 15 ? phone : null;
+  },
+  retry: "dialog.phone.retry",
+  prefill: true,
+};
+
+const describeCoverage = (text: string, t: Translator) => {
+  const place = geocode(text)!;
+  if (isCovered(place.point)) {
+    return t("coverage.covered", { place: place.name, minutes: flightMinutes(place.point) });
+  }
+  const nearest = nearestCoveredPoint(place.point);
+  return t("coverage.outside", {
+    place: place.name,
+    nearest: nearestPlace(nearest.point, isCovered),
+    distance: formatDistance(nearest.distanceMeters, t.locale),
+    minutes: flightMinutes(nearest.point),
+  });
+};
+
+const slotOrder = (values: Values, { orders }: IntentInput): Order | null =>
+  values.orderId ? orders[values.orderId] ?? null : null;
+
+// Words that tell the reasons apart; "something" or "item" don't.
+const REASON_NOISE = new Set(["something", "was", "got", "item", "it"]);
+
+const refundReasonSlot: DialogSlot = {
+  name: "reason",
+  prompt: "dialog.reason.prompt",
+  replies: (values, input) => {
+    const order = slotOrder(values, input);
+    return [...(order ? eligibleReasons(order) : []).map((reason) => reasonLabel(reason, input.t)), input.t("dialog.neverMind")];
+  },
+  // Picks the eligible reason sharing the most distinctive words with the message.
+  parse: (input, values) => {
+    const order = slotOrder(values, input);
+    if (!order) return null;
+    const scored = eligibleReasons(order)
+      .map((reason) => ({
+        reason,
+        score: contentTokens(tokenize(reasonLabel(reason, input.t))).filter((word) => !REASON_NOISE.has(word) && input.tokens.includes(word)).length,
+      }))
+      .sort((a, b) => b.score - a.score);
+    if (!scored.length || scored[0].score === 0 || scored[0].score === scored[1]?.score) return null;
+    return scored[0].reason.id;
+  },
+  retry: "dialog.reason.retry",
+};
+
+// Words of an item name worth matching on: not quantities or units like "1 lb".
+const itemWords = (name: string) => tokenize(name).filter((word) => word.length > 2 && !/^\d+$/.test(word));
+
+const refundItemsSlot: DialogSlot = {
+  name: "items",
+  prompt: "dialog.items.prompt",
+  replies: (values, input) => {
+    const order = slotOrder(values, input);
+    const items = (order ? refundableItems(order) : []).map((item) => item.name);
+    return [...items, input.t("dialog.items.all"), input.t("dialog.neverMind")];
+  },
+  // "2 cheese slices and the soda" -> the matching SKUs, with a quantity when one is given.
+  parse: (input, values) => {
+    const order = slotOrder(values, input);
+    if (!order) return null;
+    const items = refundableItems(order);
+    if (saysAny(input, ALL_ITEMS)) return encodeItems(items);
+
+    const picked = items.flatMap((item) => {
+      const position = input.tokens.findIndex((token) => itemWords(item.name).some((word) => token.startsWith(word)));
+      if (position === -1) return [];
+      const count = Number(input.tokens[position - 1]);
+      return [{ sku: item.sku, quantity: Number.isInteger(count) && count > 0 ? count : item.quantity }];
+    });
+    return picked.length ? encodeItems(picked) : null;
+  },
+  retry: "dialog.items.retry",
+  when: ({ reason }) => findReason(reason)?.scope === "items",
+};
+
+// What the refund dialog would ask for, priced against the order as it is now.
+const refundQuote = (values: Values, input: IntentInput) => {
+  const order = slotOrder(values, input);
+  const reason = findReason(values.reason);
+  if (!order || !reason) return null;
+  const lines = refundLines(order, reason, decodeItems(values.items ?? ""));
+  return { order, reason, lines };
+};
+
+export const dialogFlows: Record<string, DialogFlow> = {
+  "coverage-check": {
+    id: "coverage-check",
+    slots: [placeSlot],
+    complete: ({ place }, { t }) => describeCoverage(place, t),
+  },
+  "wrong-order": {
+    id: "wrong-order",
+    slots: [orderSlot],
+    refuse: (values, input) => {
+      const order = slotOrder(values, input);
+      if (!order) return null;
+      const refusal = checkClaim(order);
+      if (refusal) return describeClaimRefusal(refusal, order, input.t);
+      return input.isVerified(order.id) ? null : verificationRequired(order.id, input.t);
+    },
+    // The claim itself is filled in and submitted through the form.
+    complete: ({ orderId }, { t }) => [
+      text(t("flow.claim.complete")),
+      { type: "claim-form", orderId },
+    ],
+  },
+  "refund": {
+    id: "refund",
+    slots: [orderSlot, refundReasonSlot, refundItemsSlot],
+    refuse: (values, input) => {
+      const order = slotOrder(values, input);
+      if (!order) return null;
+      if (!values.reason) {
+        const overall = orderRefundRefusal(order);
+        if (overall) return describeRefundRefusal(overall.refusal, order, overall.reason, input.t);
+        return input.isVerified(order.id) ? null : verificationRequired(order.id, input.t);
+      }
+      const reason = findReason(values.reason);
+      const refusal = checkRefund(order, reason);
+      if (refusal) return describeRefundRefusal(refusal, order, reason, input.t);
+      return values.items && !refundQuote(values, input)?.lines.length
+        ? describeRefundRefusal("no-items", order, null, input.t)
+        : null;
+    },
+    confirm: (values, input) => {
+      const { t } = input;
+      const { order, reason, lines } = refundQuote(values, input)!;
+      return t("flow.refund.confirm", {
+        amount: formatAmount(refundTotal(lines), t.locale),
+        items: describeLines(lines),
+        orderId: order.id,
+        reason: reasonLabel(reason, t),
+      });
+    },
+    confirmButtons: (_values, t) => [t("flow.refund.yes"), t("flow.refund.no")],
+    complete: ({ orderId }, { t }) => t("flow.refund.complete", { orderId }),
+    effect: ({ orderId, reason, items }, requestId) => ({
+      type: "request-refund",
+      orderId,
+      reason,
+      items: items ?? "",
+      requestId: requestId!,
+    }),
+    declined: "flow.refund.declined",
+  },
+  "agent-handoff": {
+    id: "agent-handoff",
+    slots: [],
+    complete: (_values, { t }) => t("flow.handoff.complete"),
+    effect: () => ({ type: "request-agent" }),
+  },
+  "order-list": {
+    id: "order-list",
+    slots: [],
+    complete: (_values, { t }) => t("flow.orderList.complete"),
+    effect: () => ({ type: "list-orders" }),
+  },
+  "callback": {
+    id: "callback",
+    slots: [phoneSlot],
+    complete: (_values, { t }) => t("flow.callback.complete"),
+    effect: ({ phone }) => ({ type: "request-callback", phone }),
+  },
+  "cancel-order": {
+    id: "cancel-order",
+    slots: [orderSlot, freeTextSlot("reason", "dialog.cancelReason.prompt", "dialog.cancelReason.retry")],
+    // Catches orders that are clearly too far along before asking anything else;
+    // the cancellation API has the final say.
+    refuse: ({ orderId }, { orders, isVerified, t }) => {
+      const order = orderId ? orders[orderId] : null;
+      if (!order) return null;
+      const refusal = checkCancellation(order);
+      if (refusal) return describeRefusal(refusal, order, t);
+      return isVerified(order.id) ? null : verificationRequired(order.id, t);
+    },
+    confirm: ({ orderId }, { t }) => t("flow.cancel.confirm", { orderId }),
+    confirmButtons: ({ orderId }, t) => [t("flow.cancel.yes", { orderId }), t("flow.cancel.no")],
+    complete: ({ orderId }, { t }) => t("flow.cancel.complete", { orderId }),
+    effect: ({ orderId, reason }) => ({ type: "cancel-order", orderId, reason }),
+    declined: "flow.cancel.declined",
+  },
+};
+
+const confirmation = (flow: DialogFlow, values: Record<string, string>, prompt: string, t: Translator): MessageContent => {
+  if (!flow.confirmButtons) return { type: "quick-replies", text: prompt, replies: [t("dialog.yes"), t("dialog.no")] };
+  const [yes, no] = flow.confirmButtons(values, t);
+  return {
+    type: "buttons",
+    text: prompt,
+    buttons: [replyButton(yes, yes, "destructive"), replyButton(no, no, "outline")],
+  };
+};
+
+const slotPrompt = (slot: DialogSlot, prompt: MessageKey, values: Values, input: IntentInput): MessageContent => ({
+  type: "quick-replies",
+  text: input.t(prompt),
+  replies: slot.replies?.(values, input) ?? [input.t("dialog.neverMind")],
+});
+
+const nextSlot = (flow: DialogFlow, values: Values, input: IntentInput) =>
+  flow.slots.find((candidate) => !(candidate.name in values) && (candidate.when?.(values, input) ?? true));
+
+const finish = (flow: DialogFlow, { values, requestId }: DialogState, input: IntentInput): DialogStep => {
+  const completed = flow.complete(values, input);
+  return {
+    messages: typeof completed === "string" ? [text(completed)] : completed,
+    state: null,
+    done: true,
+    effects: flow.effect ? [flow.effect(values, requestId)] : [],
+  };
+};
+
+// Asks for the next empty slot, or for confirmation once every slot is filled.
+const advance = (flow: DialogFlow, state: DialogState, input: IntentInput): DialogStep => {
+  const refusal = flow.refuse?.(state.values, input);
+  if (refusal) return { messages: typeof refusal === "string" ? [text(refusal)] : refusal, state: null, done: true };
+
+  const slot = nextSlot(flow, state.values, input);
+  if (!slot) {
+    if (!flow.confirm) return finish(flow, state, input);
+    const next = { ...state, awaitingConfirmation: true, requestId: crypto.randomUUID() };
+    const prompt = flow.confirm(next.values, input);
+    return { messages: [confirmation(flow, next.values, prompt, input.t)], state: next, done: false };
+  }
+  return { messages: [slotPrompt(slot, slot.prompt, state.values, input)], state, done: false };
+};
+
+// `preset` fills slots already known some other way, e.g. from a model's tool call.
+export const startDialog = (flowId: string, input: IntentInput, preset: Values = {}): DialogStep => {
+  const flow = dialogFlows[flowId];
+  const values: Values = { ...preset };
+
+  // An order named up front ("refund N002") or already in the chat ("cancel it")
+  // fills the order slot. Naming several leaves the customer to pick one.
+  const named = namedOrders(input);
+  const orderId = named.length > 1 ? null : named[0] ?? input.context.activeOrderId;
+  if (orderId && flow.slots.includes(orderSlot)) values.orderId ??= orderId;
+  for (const slot of flow.slots.filter((candidate) => candidate.prefill)) {
+    const value = slot.parse(input, values);
+    if (value !== null) values[slot.name] = value;
+  }
+
+  return advance(flow, { flowId, values, awaitingConfirmation: false }, input);
+};
+
+export const continueDialog = (state: DialogState, input: IntentInput): DialogStep => {
+  const flow = dialogFlows[state.flowId];
+
+  if (isExitRequest(input)) {
+    return { messages: [text(input.t("dialog.stopped"))], state: null, done: true };
+  }
+
+  // Naming a different order mid-flow ("actually it's N001") switches to it.
+  const namedOrder = orderSlot.parse(input, state.values);
+  if (namedOrder && flow.slots.includes(orderSlot) && state.values.orderId && namedOrder !== state.values.orderId) {
+    return advance(flow, { ...state, values: { ...state.values, orderId: namedOrder } }, input);
+  }
+
+  if (state.awaitingConfirmation) {
+    const confirmed = parseConfirmation(input);
+    if (confirmed === null) {
+      const retry = confirmation(flow, state.values, input.t("dialog.confirmRetry"), input.t);
+      return { messages: [retry], state, done: false };
+    }
+    if (!confirmed) return { messages: [text(input.t(flow.declined ?? "dialog.declined"))], state: null, done: true };
+    return finish(flow, state, input);
+  }
+
+  const slot = nextSlot(flow, state.values, input)!;
+  const value = slot.parse(input, state.values);
+  if (value === null) return { messages: [slotPrompt(slot, slot.retry, state.values, input)], state, done: false };
+
+  const next = { ...state, values: { ...state.values, [slot.name]: value } };
+  return advance(flow, next, input);
+};
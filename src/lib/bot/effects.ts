@@ -0,0 +1,156 @@
+import { replyButton, text, type MessageContent } from "@/lib/chat/types";
+import { describeRefusal } from "@/lib/orders/cancellation";
+import { describePosition } from "@/lib/handoff/queue";
+import type { RequestAgent } from "@/lib/handoff/types";
+import { formatDateTime } from "@/lib/i18n/format";
+import type { Translator } from "@/lib/i18n/types";
+import { isEnRoute } from "@/lib/orders/lifecycle";
+import { recentOrders } from "@/lib/orders/recent";
+import { OrderServiceError, type OrderService } from "@/lib/orders/service";
+import type { Order } from "@/lib/orders/types";
+import { decodeItems, describeRefund, describeRefundRefusal, findReason } from "@/lib/refunds/policy";
+import { RefundServiceError, type RefundService } from "@/lib/refunds/service";
+import { verificationRequired } from "./dialog";
+import type { BotEffect, OrderLookup } from "./types";
+
+export interface EffectContext {
+  loadOrders: (orderIds: string[], signal: AbortSignal) => Promise<OrderLookup>;
+  cancelOrder: OrderService["cancelOrder"];
+  requestRefund: RefundService["requestRefund"];
+  requestAgent: RequestAgent;
+  // Only there when the host page has said who the customer is.
+  listOrders?: (signal: AbortSignal) => Promise<Order[]>;
+  // Outcomes are told in the language of the reply that announced them.
+  t: Translator;
+  signal: AbortSignal;
+}
+
+const cancel = async (orderId: string, reason: string, { loadOrders, cancelOrder, t, signal }: EffectContext) => {
+  let result;
+  try {
+    result = await cancelOrder(orderId, reason, signal);
+  } catch (error) {
+    // The verification ran out since the flow checked it.
+    if (error instanceof OrderServiceError && error.status === 403) return verificationRequired(orderId, t);
+    throw error;
+  }
+  if (result.status === "cancelled") {
+    return [
+      { type: "notice", tone: "success", text: t("effect.cancel.done", { orderId, reference: result.reference }) },
+      text(t("effect.cancel.noCharge")),
+    ] satisfies MessageContent[];
+  }
+
+  // The order moved on since the customer asked; explain from where it is now.
+  const order = (await loadOrders([orderId], signal))[orderId];
+  const refusal = order ? describeRefusal(result.reason, order, t) : t("effect.cancel.refused", { orderId });
+  const messages: MessageContent[] = [
+    { type: "notice", tone: "warning", text: t("effect.cancel.notCancelled", { orderId }) },
+    text(refusal),
+  ];
+  if (result.reference) messages.push(text(t("effect.cancel.reference", { reference: result.reference })));
+  return messages;
+};
+
+const refund = async (
+  { orderId, reason, items, requestId }: Extract<BotEffect, { type: "request-refund" }>,
+  { loadOrders, requestRefund, t, signal }: EffectContext,
+) => {
+  // The same confirmation sent twice, e.g. from a second tab, returns the first refund.
+  let result;
+  try {
+    result = await requestRefund({ orderId, reason, items: decodeItems(items), idempotencyKey: requestId }, signal);
+  } catch (error) {
+    if (error instanceof RefundServiceError && error.status === 403) return verificationRequired(orderId, t);
+    throw error;
+  }
+  if (result.status === "submitted") {
+    const { refund } = result;
+    const approved = refund.status === "approved";
+    return [
+      {
+        type: "notice",
+        tone: approved ? "success" : "info",
+        text: t(approved ? "effect.refund.approved" : "effect.refund.requested", { refundId: refund.id }),
+      },
+      text(t("effect.refund.followUp", { refund: describeRefund(refund, t) })),
+    ] satisfies MessageContent[];
+  }
+
+  const order = (await loadOrders([orderId], signal))[orderId];
+  const refusal = order
+    ? describeRefundRefusal(result.reason, order, findReason(reason), t)
+    : t("effect.refund.refused", { orderId });
+  return [{ type: "notice", tone: "warning", text: t("effect.refund.notSubmitted") }, text(refusal)] satisfies MessageContent[];
+};
+
+const handOff = async ({ requestAgent, t, signal }: EffectContext): Promise<MessageContent[]> => {
+  const { ticket, position } = await requestAgent(signal);
+  if (ticket.agent) return [text(t("effect.handoff.already", { agent: ticket.agent.name }))];
+  return [{ type: "notice", tone: "info", text: t("effect.handoff.transferring") }, text(describePosition(position, t))];
+};
+
+const callBack = async (phone: string, { requestAgent, t, signal }: EffectContext): Promise<MessageContent[]> => {
+  const { position } = await requestAgent(signal, { callbackPhone: phone });
+  const ahead = position === 2
+    ? t("effect.callback.ahead.one")
+    : position > 2 ? t("effect.callback.ahead.other", { count: position - 1 }) : null;
+  return [
+    { type: "notice", tone: "success", text: t("effect.callback.requested") },
+    text([t("effect.callback.booked", { phone }), ahead].filter(Boolean).join(" ")),
+  ];
+};
+
+// A card per order, each with a button to track it.
+export const orderCards = (orders: Order[], t: Translator): MessageContent => ({
+  type: "carousel",
+  cards: orders.map((order) => ({
+    title: t("order.label", { orderId: order.id }),
+    subtitle: t("orders.card", {
+      stage: t(`stage.${order.status}`),
+      merchant: order.merchant,
+      time: isEnRoute(order.status)
+        ? t("orders.card.eta", { minutes: order.etaMinutes })
+        : formatDateTime(order.placedAt, t.locale),
+    }),
+    buttons: [replyButton(t("orders.track"), t("orders.track.reply", { orderId: order.id }))],
+  })),
+});
+
+const listOrders = async ({ listOrders: list, t, signal }: EffectContext): Promise<MessageContent[]> => {
+  if (!list) return [text(t("effect.orders.anonymous"))];
+  const orders = recentOrders(await list(signal));
+  if (!orders.length) return [text(t("effect.orders.none"))];
+  return [orderCards(orders, t)];
+};
+
+const failures: { [Type in BotEffect["type"]]: (effect: Extract<BotEffect, { type: Type }>, t: Translator) => string } = {
+  "cancel-order": ({ orderId }, t) => t("effect.failed.cancel", { orderId }),
+  "request-refund": ({ orderId }, t) => t("effect.failed.refund", { orderId }),
+  "request-agent": (_effect, t) => t("effect.failed.agent"),
+  "request-callback": (_effect, t) => t("effect.failed.callback"),
+  "list-orders": (_effect, t) => t("effect.failed.orders"),
+};
+
+// Carries out an effect and describes the outcome. Failures are reported to the
+// customer rather than thrown, since the rest of the reply has already been shown.
+export const runEffect = async (effect: BotEffect, context: EffectContext): Promise<MessageContent[]> => {
+  try {
+    switch (effect.type) {
+      case "cancel-order":
+        return await cancel(effect.orderId, effect.reason, context);
+      case "request-refund":
+        return await refund(effect, context);
+      case "request-agent":
+        return await handOff(context);
+      case "request-callback":
+        return await callBack(effect.phone, context);
+      case "list-orders":
+        return await listOrders(context);
+    }
+  } catch (error) {
+    if (context.signal.aborted) throw error;
+    const failure = failures[effect.type] as (effect: BotEffect, t: Translator) => string;
+    return [{ type: "notice", tone: "warning", text: failure(effect, context.t) }];
+  }
+};
@@ -0,0 +1,200 @@
+import { createIntentRegistry } from "./registry";
+import { defaultIntents, fallbackIntent } from "./intents";
+import { continueDialog, parseConfirmation, startDialog } from "./dialog";
+import { extractEntities, findOrderMentions, withOrderIds, type OrderMention } from "./entities";
+import { defaultFrustrationPolicy, scoreSentiment, updateFrustration, type FrustrationPolicy } from "./sentiment";
+import { tokenize } from "./tokenize";
+import { replyButton, text, type MessageContent } from "@/lib/chat/types";
+import { detectLocale } from "@/lib/i18n/detect";
+import { translator } from "@/lib/i18n/translator";
+import type { Translator } from "@/lib/i18n/types";
+import { formatOrderId } from "@/lib/orders/ids";
+import type { BotReply, ConversationState, DialogState, HandlerResult, IntentInput, OrderLookup } from "./types";
+
+export const intentRegistry = createIntentRegistry(fallbackIntent, defaultIntents);
+
+export const initialConversationState: ConversationState = {
+  dialog: null,
+  activeOrderId: null,
+  lastIntent: null,
+  lastEntities: { orderIds: [] },
+  frustration: 0,
+  fallbackStreak: 0,
+  locale: "en",
+  localeSource: "default",
+  orderIdGuess: null,
+};
+
+export interface BotTurn {
+  reply: BotReply;
+  state: ConversationState;
+}
+
+const toMessages = (result: HandlerResult): MessageContent[] => {
+  if (typeof result === "string") return [text(result)];
+  return Array.isArray(result) ? result : [result];
+};
+
+type Mood = Pick<ConversationState, "frustration" | "fallbackStreak">;
+type Language = Pick<ConversationState, "locale" | "localeSource">;
+
+const nextState = (
+  input: IntentInput,
+  intent: string,
+  dialog: DialogState | null,
+  mood: Mood,
+  language: Language,
+): ConversationState => {
+  const { context, entities, orders } = input;
+  const activeOrderId =
+    entities.orderIds.find((orderId) => orders[orderId]) ?? dialog?.values.orderId ?? context.activeOrderId;
+
+  return { dialog, activeOrderId, lastIntent: intent, lastEntities: entities, ...mood, ...language, orderIdGuess: null };
+};
+
+// Until the customer's messages give their language away, the bot answers in
+// the default; after that it sticks to what it detected or what they chose.
+export const languageFor = (userMessage: string, state: ConversationState): Language => {
+  const language = { locale: state.locale ?? "en", localeSource: state.localeSource ?? "default" };
+  if (language.localeSource !== "default") return language;
+  const detected = detectLocale(userMessage);
+  return detected ? { locale: detected, localeSource: "detected" } : language;
+};
+
+const escalationOffer = (t: Translator): MessageContent => ({
+  type: "buttons",
+  text: t("escalation.offer"),
+  buttons: [
+    replyButton(t("intent.help.person"), t("intent.help.person")),
+    replyButton(t("escalation.callBack"), t("escalation.callBack.reply"), "outline"),
+  ],
+});
+
+// Swaps the usual upbeat reply for an apology and a way out. A dialog that has
+// just started keeps going without its introduction, since asking for a person
+// works from inside it too.
+const escalate = (
+  messages: MessageContent[],
+  dialogPrompts: MessageContent[] | null,
+  isFallback: boolean,
+  t: Translator,
+): MessageContent[] => {
+  if (isFallback) return [text(t("escalation.fallback")), escalationOffer(t)];
+  if (dialogPrompts) return [text(t("escalation.dialog")), ...dialogPrompts];
+  return [text(t("escalation.apology")), ...messages, escalationOffer(t)];
+};
+
+// "N01" could be N001 or a mistyped N010, so the customer confirms before the
+// bot acts on it. Their other order numbers are kept for when they say yes.
+const askAboutOrderId = (
+  guess: OrderMention,
+  userMessage: string,
+  mentions: OrderMention[],
+  state: ConversationState,
+  language: Language,
+  t: Translator,
+): BotTurn => {
+  const { orderId } = guess;
+  const certain = mentions.filter((mention) => mention.certain);
+  return {
+    reply: {
+      messages: [{
+        type: "buttons",
+        text: t("order.guess", { orderId }),
+        buttons: [
+          replyButton(t("order.guess.yes", { orderId }), t("order.guess.yes", { orderId })),
+          replyButton(t("order.guess.no"), t("order.guess.no"), "outline"),
+        ],
+      }],
+      intent: "order.guess",
+      confidence: 1,
+    },
+    state: { ...state, ...language, orderIdGuess: { orderId, text: withOrderIds(userMessage, [...certain, guess]) } },
+  };
+};
+
+// Orders the engine may need for this message; fetch these into the lookup
+// passed to getBotResponse. Order numbers it isn't sure of are fetched too, so
+// it only asks about ones that exist.
+export const referencedOrderIds = (userMessage: string, state: ConversationState) => {
+  const mentioned = [userMessage, state.orderIdGuess?.text ?? ""]
+    .flatMap((text) => findOrderMentions(text))
+    .map((mention) => mention.orderId);
+  return [...new Set([...mentioned, ...(state.activeOrderId ? [state.activeOrderId] : [])])];
+};
+
+export const getBotResponse = (
+  userMessage: string,
+  state: ConversationState,
+  orders: OrderLookup,
+  isVerified: (orderId: string) => boolean,
+  policy: FrustrationPolicy = defaultFrustrationPolicy,
+): BotTurn => {
+  const language = languageFor(userMessage, state);
+  const mentions = findOrderMentions(userMessage);
+  // "no. 002" and "N002" should read the same to intents and dialogs.
+  const normalized = withOrderIds(userMessage, mentions.filter((mention) => mention.certain));
+  const input: IntentInput = {
+    text: normalized,
+    tokens: tokenize(normalized),
+    entities: extractEntities(normalized),
+    context: state,
+    orders,
+    isVerified,
+    t: translator(language.locale),
+  };
+
+  if (state.orderIdGuess) {
+    const confirmed = parseConfirmation(input);
+    const resumed = { ...state, ...language, orderIdGuess: null };
+    if (confirmed) return getBotResponse(state.orderIdGuess.text, resumed, orders, isVerified, policy);
+    if (confirmed === false) {
+      return {
+        reply: {
+          messages: [text(input.t("order.guess.declined", { example: formatOrderId(1) }))],
+          intent: "order.guess",
+          confidence: 1,
+        },
+        state: resumed,
+      };
+    }
+    // Anything else is a new request, and the guess is dropped.
+  }
+
+  const guess = mentions.find((mention) => !mention.certain && orders[mention.orderId]);
+  if (guess) return askAboutOrderId(guess, userMessage, mentions, state, language, input.t);
+
+  const sentiment = scoreSentiment(userMessage);
+  const { intent, confidence } = intentRegistry.match(input);
+
+  if (state.dialog && !(intent.escalates && confidence === 1)) {
+    const id = `dialog.${state.dialog.flowId}`;
+    const step = continueDialog(state.dialog, input);
+    const frustration = updateFrustration(state.frustration ?? 0, sentiment, 0, policy);
+    return {
+      reply: { messages: step.messages, intent: id, confidence: 1, effects: step.done ? step.effects : undefined },
+      state: nextState(input, id, step.state, { frustration, fallbackStreak: 0 }, language),
+    };
+  }
+
+  const isFallback = intent.id === fallbackIntent.id;
+  const fallbackStreak = isFallback ? (state.fallbackStreak ?? 0) + 1 : 0;
+  const frustration = updateFrustration(state.frustration ?? 0, sentiment, fallbackStreak, policy);
+  const shouldEscalate = frustration >= policy.threshold && !intent.escalates;
+  // Once the customer has been offered a person, start counting afresh.
+  const mood = { frustration: shouldEscalate ? 0 : frustration, fallbackStreak };
+
+  const step = intent.flow ? startDialog(intent.flow, input) : null;
+  const messages = [...toMessages(intent.handler(input)), ...(step?.messages ?? [])];
+
+  return {
+    reply: {
+      messages: shouldEscalate ? escalate(messages, step?.state ? step.messages : null, isFallback, input.t) : messages,
+      intent: intent.id,
+      confidence,
+      // Flows with nothing to ask finish straight away.
+      effects: step?.done ? step.effects : undefined,
+    },
+    state: nextState(input, intent.id, step?.state ?? null, mood, language),
+  };
+};
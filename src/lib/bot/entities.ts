@@ -0,0 +1,69 @@
+import { vocabulary } from "@/lib/i18n/catalog";
+import { defaultOrderIdFormat, formatOrderId, type OrderIdFormat } from "@/lib/orders/ids";
+import type { Entities } from "./types";
+
+// An order number as the customer wrote it, e.g. "N01", "no. 002" or "order n 3".
+export interface OrderMention {
+  // In the standard format, e.g. "N001".
+  orderId: string;
+  // Where the number is written, leaving out a leading "order" or "pedido".
+  index: number;
+  length: number;
+  // False when the customer may have meant another order: "N01" could be N001
+  // or a mistyped N010. Only a full set of digits is taken at its word.
+  certain: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const alternatives = (words: string[]) =>
+  [...new Set(words)].sort((a, b) => b.length - a.length).map(escapeRegExp).join("|");
+
+const ORDER_WORDS = alternatives(vocabulary("orderWords"));
+const NUMBER_SYMBOLS = ["#", "nº", "n°"];
+const NUMBER_SIGNS = alternatives([...vocabulary("numberSigns"), ...NUMBER_SYMBOLS]);
+
+// Chinese is written without spaces, so only Latin letters and digits count as
+// running into the number.
+const mentionPattern = ({ prefix }: OrderIdFormat) =>
+  new RegExp(
+    `(?<![\\p{Script=Latin}\\p{N}])((?:${ORDER_WORDS})\\s*)?(?:(${NUMBER_SIGNS})\\s*)?(${escapeRegExp(prefix)})?[\\s.:#-]*(\\d+)(?![\\p{Script=Latin}\\p{N}])`,
+    "giu",
+  );
+
+export const findOrderMentions = (text: string, format: OrderIdFormat = defaultOrderIdFormat): OrderMention[] =>
+  [...text.normalize("NFC").matchAll(mentionPattern(format))].flatMap((match) => {
+    const [whole, orderWord = "", numberSign, prefix, digits] = match;
+    const number = Number(digits);
+    // A bare number is a quantity, a time or an address, not an order.
+    if (!orderWord && !numberSign && !prefix) return [];
+    if (number === 0 || number >= 10 ** format.digits) return [];
+    // "order 2 pizzas" or "number 3" is a quantity too; only the prefix or a
+    // "#" makes a number with the wrong digit count read as an order.
+    const certain = digits.length === format.digits;
+    if (!certain && !prefix && !NUMBER_SYMBOLS.includes(numberSign?.toLowerCase() ?? "")) return [];
+    return [{
+      orderId: formatOrderId(number, format),
+      index: match.index + orderWord.length,
+      length: whole.length - orderWord.length,
+      certain,
+    }];
+  });
+
+// The message with the given order numbers written in the standard format, so
+// "where is no. 002" reads "where is N002".
+export const withOrderIds = (text: string, mentions: OrderMention[]) =>
+  [...mentions]
+    .sort((a, b) => b.index - a.index)
+    .reduce(
+      (rewritten, mention) =>
+        rewritten.slice(0, mention.index) + mention.orderId + rewritten.slice(mention.index + mention.length),
+      text.normalize("NFC"),
+    );
+
+export const extractEntities = (text: string, format: OrderIdFormat = defaultOrderIdFormat): Entities => {
+  const orderIds = findOrderMentions(text, format)
+    .filter((mention) => mention.certain)
+    .map((mention) => mention.orderId);
+  return { orderIds: [...new Set(orderIds)] };
+};
@@ -0,0 +1,369 @@
+import { hasPreciseLocation, type Order } from "@/lib/orders/types";
+import { describeStage, isAirborne, isEnRoute, stageTime } from "@/lib/orders/lifecycle";
+import { orderIdPattern } from "@/lib/orders/ids";
+import { replyButton, text, type MessageContent } from "@/lib/chat/types";
+import { describeClaim } from "@/lib/claims/policy";
+import { describeRefund } from "@/lib/refunds/policy";
+import { formatAltitude, formatTime } from "@/lib/i18n/format";
+import type { Translator } from "@/lib/i18n/types";
+import { CRUISE_ALTITUDE_FT } from "@/lib/service-area";
+import type { Intent, IntentInput } from "./types";
+
+const ORDER_NUMBER = orderIdPattern();
+const CLAIM_ID = /\bclm-n\d{3}-[a-z0-9]+\b/i;
+
+// The order a message is about: one named in it, else the one already in the chat.
+const referencedOrder = ({ entities, context, orders }: IntentInput): Order | null => {
+  const orderNum = entities.orderIds[0] ?? context.activeOrderId;
+  return orderNum ? orders[orderNum] ?? null : null;
+};
+
+const orderActions = (orderId: string, t: Translator): MessageContent => ({
+  type: "buttons",
+  buttons: [
+    replyButton(t("order.showOnMap"), t("order.showOnMap.reply", { orderId })),
+    replyButton(t("order.cancel"), t("order.cancel.reply", { orderId }), "outline"),
+    replyButton(t("order.reportProblem"), t("order.reportProblem.reply", { orderId }), "outline"),
+  ],
+});
+
+// "Order N001 is in the air on its way to you", from the order's current stage.
+const orderSummary = (order: Order, t: Translator) => {
+  const summary = t("order.summary", { orderId: order.id, stage: describeStage(order.status, order.merchant, t) });
+  const deliveredAt = stageTime(order.history, "Delivered");
+  if (deliveredAt) return t("order.summary.deliveredAt", { summary, time: formatTime(deliveredAt, t.locale) });
+  return isEnRoute(order.status)
+    ? t("order.summary.arriving", { summary, minutes: order.etaMinutes })
+    : t("order.summary.plain", { summary });
+};
+
+const describeOrder = (order: Order, t: Translator): MessageContent[] => [
+  {
+    type: "text",
+    text: isEnRoute(order.status)
+      ? t("order.enRoute", { summary: orderSummary(order, t), altitude: formatAltitude(CRUISE_ALTITUDE_FT, t.locale) })
+      : t("order.status", { summary: orderSummary(order, t) }),
+  },
+  { type: "order-status", orderId: order.id },
+  orderActions(order.id, t),
+];
+
+// "Track N001 and N003": the orders found side by side, and a word about any that weren't.
+const compareOrders = ({ entities, orders, t }: IntentInput): MessageContent[] => {
+  const found = entities.orderIds.filter((orderId) => orders[orderId]);
+  const missing = entities.orderIds.filter((orderId) => !orders[orderId]);
+  const messages: MessageContent[] =
+    found.length > 1
+      ? [text(t("orders.compare", { count: found.length })), { type: "order-comparison", orderIds: found }]
+      : found.flatMap((orderId) => describeOrder(orders[orderId]!, t));
+  if (missing.length === 1) messages.push(text(t("order.notFound", { orderId: missing[0] })));
+  if (missing.length > 1) messages.push(text(t("orders.notFound", { orderIds: missing.join(", ") })));
+  return messages;
+};
+
+export const fallbackIntent: Intent = {
+  id: "fallback",
+  examples: [],
+  handler: ({ t }) => t("intent.fallback"),
+};
+
+export const defaultIntents: Intent[] = [
+  {
+    id: "order.lookup",
+    examples: [],
+    patterns: [ORDER_NUMBER],
+    priority: 100,
+    handler: (input) => {
+      const { entities, orders, t } = input;
+      if (entities.orderIds.length > 1) return compareOrders(input);
+      const orderNum = entities.orderIds[0];
+      if (orders[orderNum]) return describeOrder(orders[orderNum], t);
+      return t("order.notFound", { orderId: orderNum });
+    },
+  },
+  {
+    id: "order.track",
+    examples: ["track my order", "track order", "track my delivery", "order status", "track it"],
+    priority: 10,
+    handler: (input) => {
+      if (input.entities.orderIds.length > 1) return compareOrders(input);
+      const order = referencedOrder(input);
+      return order ? describeOrder(order, input.t) : input.t("intent.track.ask");
+    },
+  },
+  {
+    id: "order.list",
+    examples: [
+      "my orders", "show my orders", "list my orders", "all my orders", "recent orders", "active orders",
+      "past orders", "what did i order",
+    ],
+    priority: 20,
+    unlessOrderNamed: true,
+    flow: "order-list",
+    handler: () => [],
+  },
+  {
+    id: "drone.locate",
+    examples: [
+      "where is my drone", "where is the drone", "drone location", "track my drone",
+      "where is it", "where is it now", "where exactly is it", "show me on a map", "map",
+    ],
+    patterns: [/\bdrone\b.*\bwhere\b/i],
+    priority: 10,
+    handler: (input) => {
+      const { t } = input;
+      const order = referencedOrder(input);
+      if (order && !isAirborne(order.status)) {
+        return [
+          { type: "text", text: t("intent.locate.grounded", { orderId: order.id, summary: orderSummary(order, t) }) },
+          { type: "order-timeline", orderId: order.id },
+        ];
+      }
+      if (order && !hasPreciseLocation(order)) {
+        return [
+          {
+            type: "text",
+            text: t("intent.locate.private", {
+              orderId: order.id,
+              stage: describeStage(order.status, order.merchant, t),
+              area: order.area,
+            }),
+          },
+          { type: "verify-order", orderId: order.id },
+        ];
+      }
+      if (order) {
+        return [
+          { type: "text", text: t("intent.locate.found", { orderId: order.id }) },
+          { type: "map", orderId: order.id },
+        ];
+      }
+      return t("intent.locate.ask");
+    },
+  },
+  {
+    id: "order.timeline",
+    examples: [
+      "timeline", "order timeline", "order history", "show the timeline", "what happened to my order",
+      "when was it picked up", "when did it take off", "delivery progress",
+    ],
+    priority: 10,
+    handler: (input) => {
+      const order = referencedOrder(input);
+      if (order) {
+        return [
+          { type: "text", text: orderSummary(order, input.t) },
+          { type: "order-timeline", orderId: order.id },
+        ];
+      }
+      return input.t("intent.timeline.ask");
+    },
+  },
+  {
+    id: "order.wrong",
+    examples: ["wrong order", "incorrect order", "wrong item", "missing item"],
+    priority: 20,
+    flow: "wrong-order",
+    handler: ({ t }) => t("intent.wrongOrder"),
+  },
+  {
+    id: "claim.status",
+    examples: ["claim status", "status of my claim", "where is my claim", "my claim", "claim update"],
+    patterns: [CLAIM_ID],
+    // Claim ids contain an order number, so a bare id would otherwise be an order lookup.
+    priority: 110,
+    handler: (input) => {
+      const { t } = input;
+      const order = referencedOrder(input);
+      if (!order) return t("intent.claimStatus.ask");
+      const claimId = input.text.match(CLAIM_ID)?.[0].toUpperCase();
+      const claims = (order.claims ?? []).filter((claim) => !claimId || claim.id === claimId);
+      if (!claims.length) {
+        return {
+          type: "buttons",
+          text: claimId ? t("intent.claimStatus.notFound", { claimId }) : t("intent.claimStatus.none", { orderId: order.id }),
+          buttons: [replyButton(t("order.reportProblem"), t("order.reportProblem.reply", { orderId: order.id }), "outline")],
+        };
+      }
+      return claims.map((claim) => ({ type: "text", text: describeClaim(claim, t) }));
+    },
+  },
+  {
+    id: "order.refund",
+    examples: ["refund", "money back"],
+    priority: 20,
+    flow: "refund",
+    handler: ({ t }) => t("intent.refund"),
+  },
+  {
+    id: "refund.status",
+    examples: ["refund status", "status of my refund", "where is my refund", "did i get my refund", "refund update"],
+    priority: 30,
+    handler: (input) => {
+      const { t } = input;
+      const order = referencedOrder(input);
+      if (!order) return t("intent.refundStatus.ask");
+      const refunds = order.refunds ?? [];
+      if (!refunds.length) {
+        return {
+          type: "buttons",
+          text: t("intent.refundStatus.none", { orderId: order.id }),
+          buttons: [
+            replyButton(t("intent.refundStatus.request"), t("intent.refundStatus.request.reply", { orderId: order.id }), "outline"),
+          ],
+        };
+      }
+      return refunds.map((refund) => ({ type: "text", text: describeRefund(refund, t) }));
+    },
+  },
+  {
+    id: "order.cancel",
+    examples: ["cancel order", "cancel my order", "cancel it", "cancel"],
+    priority: 20,
+    flow: "cancel-order",
+    handler: ({ t }) => t("intent.cancel"),
+  },
+  {
+    id: "help",
+    examples: ["i need help", "help", "support"],
+    handler: ({ t }) => ({
+      type: "quick-replies",
+      text: t("intent.help"),
+      replies: [
+        t("intent.help.track"),
+        t("intent.help.wrongOrder"),
+        t("intent.help.refund"),
+        t("intent.help.cancel"),
+        t("intent.help.how"),
+        t("intent.help.person"),
+      ],
+    }),
+  },
+  {
+    id: "agent.request",
+    examples: [
+      "talk to a person",
+      "talk to a human",
+      "speak to a human",
+      "speak to someone",
+      "real person",
+      "human agent",
+      "live agent",
+      "customer service",
+      "representative",
+    ],
+    priority: 20,
+    flow: "agent-handoff",
+    escalates: true,
+    handler: () => [],
+  },
+  {
+    id: "agent.callback",
+    examples: ["call me back", "call me", "request a callback", "callback", "phone me", "can someone call me"],
+    priority: 20,
+    flow: "callback",
+    escalates: true,
+    handler: () => [],
+  },
+  {
+    id: "greeting.hello",
+    examples: ["hello", "hey", "good morning", "good afternoon"],
+    handler: ({ t }) => t("intent.hello"),
+  },
+  {
+    id: "greeting.hi",
+    examples: ["hi", "hiya"],
+    handler: ({ t }) => t("intent.hi"),
+  },
+  {
+    id: "delivery.time",
+    examples: ["delivery time", "how long does delivery take", "how fast"],
+    priority: 5,
+    handler: ({ t }) => t("intent.deliveryTime"),
+  },
+  {
+    id: "delivery.eta",
+    examples: ["when will it arrive", "eta"],
+    patterns: [/\b(eta|when|arrive|arriving)\b/i],
+    handler: (input) => {
+      const { t } = input;
+      const order = referencedOrder(input);
+      if (order && isEnRoute(order.status)) {
+        return t("intent.eta.arriving", { orderId: order.id, minutes: order.etaMinutes });
+      }
+      if (order) return orderSummary(order, t);
+      return t("intent.eta.ask");
+    },
+  },
+  {
+    id: "order.late",
+    examples: ["is it late", "running late", "delayed", "taking too long", "late"],
+    priority: 5,
+    handler: (input) => {
+      const { t } = input;
+      const order = referencedOrder(input);
+      const stage = order && describeStage(order.status, order.merchant, t);
+      if (order && isEnRoute(order.status)) {
+        return t("intent.late.onSchedule", { orderId: order.id, stage, minutes: order.etaMinutes });
+      }
+      if (order?.status === "Delivered") return orderSummary(order, t);
+      if (order) return t("intent.late.undeliverable", { orderId: order.id, stage });
+      return t("intent.late.ask");
+    },
+  },
+  {
+    id: "service.area",
+    examples: ["location", "where do you deliver", "service area", "delivery area"],
+    handler: ({ t }) => ({
+      type: "buttons",
+      text: t("intent.area"),
+      buttons: [replyButton(t("intent.area.check"), t("intent.area.check.reply"), "outline")],
+    }),
+  },
+  {
+    id: "service.coverage",
+    examples: [
+      "do you deliver to",
+      "can you deliver to",
+      "deliver to my address",
+      "is my address covered",
+      "do you cover",
+      "do you fly to",
+      "is my area covered",
+      "check my address",
+    ],
+    flow: "coverage-check",
+    handler: () => [],
+  },
+  {
+    id: "service.how",
+    examples: ["how it works", "how does it work", "how does nibbly work"],
+    handler: ({ t }) => [
+      { type: "text", text: t("intent.how") },
+      {
+        type: "carousel",
+        cards: [
+          { title: t("intent.how.order"), subtitle: t("intent.how.order.detail"), imageUrl: "/placeholder.svg" },
+          { title: t("intent.how.pickUp"), subtitle: t("intent.how.pickUp.detail"), imageUrl: "/placeholder.svg" },
+          {
+            title: t("intent.how.fly"),
+            subtitle: t("intent.how.fly.detail", { altitude: formatAltitude(CRUISE_ALTITUDE_FT, t.locale) }),
+            imageUrl: "/placeholder.svg",
+            buttons: [replyButton(t("intent.help.track"), t("intent.help.track"))],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "thanks",
+    examples: ["thank you", "thanks"],
+    patterns: [/\bthank/i],
+    handler: ({ t }) => t("intent.thanks"),
+  },
+  {
+    id: "goodbye",
+    examples: ["bye", "goodbye", "see you"],
+    handler: ({ t }) => t("intent.goodbye"),
+  },
+];
@@ -0,0 +1,110 @@
+import { intentPhrases, vocabulary } from "@/lib/i18n/catalog";
+import { createSpellingCorrector } from "./spelling";
+import { containsPhrase, contentTokens, tokenize } from "./tokenize";
+import type { Intent, IntentInput, IntentMatch } from "./types";
+
+// Below this an intent is not considered a match and the fallback answers.
+export const MIN_CONFIDENCE = 0.5;
+
+const PATTERN_SCORE = 0.9;
+const PARTIAL_WEIGHT = 0.8;
+// A match that needed spelling corrections is a little less certain.
+const CORRECTED_WEIGHT = 0.9;
+
+// Words the bot knows besides its intent phrases, so they aren't "corrected" into one.
+const OTHER_WORDS = (["yes", "no", "exit", "everything", "stopWords", "markers"] as const).flatMap(vocabulary);
+
+interface Scored {
+  intent: Intent;
+  score: number;
+  specificity: number;
+}
+
+const scoreExample = (tokens: string[], example: string) => {
+  const phrase = tokenize(example);
+  if (containsPhrase(tokens, phrase)) {
+    return { score: 1, specificity: phrase.length };
+  }
+
+  // Partial credit: how many of the phrase's content words the message uses.
+  const words = contentTokens(phrase);
+  if (words.length < 2) return { score: 0, specificity: 0 };
+  const matched = words.filter((word) => tokens.includes(word)).length;
+  return { score: (matched / words.length) * PARTIAL_WEIGHT, specificity: matched };
+};
+
+// English examples live on the intent; other languages come from the locale catalogs.
+const phrasesOf = (intent: Intent) => [...intent.examples, ...intentPhrases(intent.id)];
+
+const scoreIntent = (intent: Intent, input: IntentInput): Scored => {
+  let best: Scored = { intent, score: 0, specificity: 0 };
+
+  for (const example of phrasesOf(intent)) {
+    const { score, specificity } = scoreExample(input.tokens, example);
+    if (score > best.score || (score === best.score && specificity > best.specificity)) {
+      best = { intent, score, specificity };
+    }
+  }
+
+  if (best.score < PATTERN_SCORE && intent.patterns?.some((pattern) => pattern.test(input.text))) {
+    best = { intent, score: PATTERN_SCORE, specificity: 1 };
+  }
+
+  return best;
+};
+
+const compare = (a: Scored, b: Scored) =>
+  b.score - a.score ||
+  b.specificity - a.specificity ||
+  (b.intent.priority ?? 0) - (a.intent.priority ?? 0);
+
+export const createIntentRegistry = (fallback: Intent, initial: Intent[] = []) => {
+  const intents = new Map<string, Intent>();
+  // Built on first use, since every registered intent adds to the vocabulary.
+  let correctSpelling: ((tokens: string[]) => string[]) | null = null;
+
+  const register = (intent: Intent) => {
+    if (intents.has(intent.id) || intent.id === fallback.id) {
+      throw new Error(`Intent "${intent.id}" is already registered`);
+    }
+    intents.set(intent.id, intent);
+    correctSpelling = null;
+  };
+
+  const spellingCorrector = () =>
+    (correctSpelling ??= createSpellingCorrector([
+      ...[...intents.values()].flatMap(phrasesOf).flatMap(tokenize),
+      ...OTHER_WORDS.flatMap(tokenize),
+    ]));
+
+  const match = (input: IntentInput): IntentMatch => {
+    // "trak my ordr" is scored both as written and as "track my order".
+    const corrected = spellingCorrector()(input.tokens);
+    const respelled = corrected.some((token, i) => token !== input.tokens[i]) ? { ...input, tokens: corrected } : null;
+
+    const ranked = [...intents.values()]
+      .filter((intent) => !(intent.unlessOrderNamed && input.entities.orderIds.length))
+      .map((intent) => {
+        const scored = scoreIntent(intent, input);
+        if (!respelled) return scored;
+        const fixed = scoreIntent(intent, respelled);
+        const score = fixed.score * CORRECTED_WEIGHT;
+        return score > scored.score ? { ...fixed, score } : scored;
+      })
+      .filter((scored) => scored.score >= MIN_CONFIDENCE)
+      .sort(compare);
+
+    if (ranked.length === 0) return { intent: fallback, confidence: 0 };
+    return { intent: ranked[0].intent, confidence: ranked[0].score };
+  };
+
+  initial.forEach(register);
+
+  return {
+    register,
+    match,
+    list: () => [...intents.values()],
+  };
+};
+
+export type IntentRegistry = ReturnType<typeof createIntentRegistry>;
@@ -0,0 +1,66 @@
+import type { RequestAgent } from "@/lib/handoff/types";
+import type { OrderService } from "@/lib/orders/service";
+import type { Order } from "@/lib/orders/types";
+import type { RefundService } from "@/lib/refunds/service";
+import { streamBotResponse, type ResponseEvent } from "./stream";
+import type { FrustrationPolicy } from "./sentiment";
+import type { ConversationState, OrderLookup } from "./types";
+
+export interface ChatHistoryEntry {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ResponderInput {
+  text: string;
+  state: ConversationState;
+  // Earlier turns, oldest first, not including `text`.
+  history: ChatHistoryEntry[];
+  loadOrders: (orderIds: string[], signal: AbortSignal) => Promise<OrderLookup>;
+  cancelOrder: OrderService["cancelOrder"];
+  requestRefund: RefundService["requestRefund"];
+  requestAgent: RequestAgent;
+  // Whether the customer has verified the order; see `IntentInput.isVerified`.
+  isVerified: (orderId: string) => boolean;
+  // The customer's orders; left out until the host page says who they are.
+  listOrders?: (signal: AbortSignal) => Promise<Order[]>;
+  // When to apologize and offer a person; the defaults if left out.
+  frustrationPolicy?: FrustrationPolicy;
+  signal: AbortSignal;
+}
+
+export interface Responder {
+  id: string;
+  respond: (input: ResponderInput) => AsyncGenerator<ResponseEvent>;
+}
+
+export const ruleBasedResponder: Responder = {
+  id: "rules",
+  respond: ({ text, state, ...options }) => streamBotResponse(text, state, options),
+};
+
+// Answers with `primary`, switching to `fallback` when it fails before saying
+// anything (unavailable, low confidence). Guided dialogs always stay on the
+// fallback, which owns their state.
+export const withFallback = (primary: Responder, fallback: Responder): Responder => ({
+  id: `${primary.id}+${fallback.id}`,
+  respond: async function* (input) {
+    if (input.state.dialog) {
+      yield* fallback.respond(input);
+      return;
+    }
+
+    let started = false;
+    try {
+      for await (const event of primary.respond(input)) {
+        started = true;
+        yield event;
+      }
+      return;
+    } catch (error) {
+      if (started || input.signal.aborted) throw error;
+    }
+
+    yield* fallback.respond(input);
+  },
+});
@@ -0,0 +1,151 @@
+import { tokenize } from "./tokenize";
+
+// How strongly a word says the customer is unhappy (below 0) or happy (above 0).
+const LEXICON: Record<string, number> = {
+  ridiculous: -2,
+  unacceptable: -2,
+  terrible: -2,
+  awful: -2,
+  horrible: -2,
+  worst: -2,
+  useless: -2,
+  pathetic: -2,
+  disgusting: -2,
+  joke: -1.5,
+  scam: -2.5,
+  furious: -2.5,
+  angry: -2,
+  frustrated: -2,
+  frustrating: -2,
+  annoyed: -1.5,
+  annoying: -1.5,
+  upset: -1.5,
+  disappointed: -1.5,
+  disappointing: -1.5,
+  fed: -1,
+  sick: -1,
+  hate: -2,
+  bad: -1,
+  poor: -1,
+  slow: -1,
+  broken: -1,
+  lost: -1,
+  wrong: -0.5,
+  late: -0.5,
+  missing: -0.5,
+  cold: -0.5,
+  damaged: -0.5,
+  waiting: -0.3,
+  thanks: 1,
+  thank: 1,
+  good: 1,
+  nice: 1,
+  fast: 1,
+  helpful: 1.5,
+  great: 1.5,
+  appreciate: 1.5,
+  awesome: 2,
+  amazing: 2,
+  perfect: 2,
+  love: 2,
+};
+
+const NEGATIONS = new Set(["not", "no", "never", "hardly"]);
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5,
+  so: 1.5,
+  really: 1.5,
+  totally: 1.5,
+  absolutely: 1.5,
+  extremely: 2,
+};
+
+// Kept short and lowercase; masked words like "f***" are caught separately.
+const PROFANITY = new Set(["damn", "crap", "shit", "shitty", "fuck", "fucking", "fucked", "wtf", "bullshit", "bs", "stfu"]);
+const MASKED_PROFANITY = /\b[a-z]\*{2,}/i;
+
+// Signs the customer has been through this before.
+const REPETITION = [["again"], ["still"], ["second", "time"], ["third", "time"], ["every", "time"], ["how", "many", "times"]];
+
+export type FrustrationSignal = "negative" | "profanity" | "all-caps" | "repetition" | "exclamation";
+
+export interface SentimentScore {
+  // The summed word weights; below 0 is negative.
+  score: number;
+  signals: FrustrationSignal[];
+}
+
+export interface FrustrationPolicy {
+  // Frustration at which the bot apologizes and offers a person or a callback.
+  threshold: number;
+  // Share of the frustration so far that carries over to the next message.
+  decay: number;
+  // Added per fallback in a row after the first.
+  fallbackWeight: number;
+  profanityWeight: number;
+  allCapsWeight: number;
+  repetitionWeight: number;
+  exclamationWeight: number;
+}
+
+export const defaultFrustrationPolicy: FrustrationPolicy = {
+  threshold: 3,
+  decay: 0.7,
+  fallbackWeight: 1.5,
+  profanityWeight: 2,
+  allCapsWeight: 1.5,
+  repetitionWeight: 1,
+  exclamationWeight: 0.5,
+};
+
+// "WHERE IS MY ORDER" but not "N001" or "OK".
+const isShouting = (text: string) => {
+  const letters = text.replace(/[^\p{L}]/gu, "");
+  return letters.length >= 8 && letters === letters.toUpperCase() && letters !== letters.toLowerCase();
+};
+
+const containsRun = (tokens: string[], run: string[]) =>
+  tokens.some((_, index) => run.every((word, offset) => tokens[index + offset] === word));
+
+export const scoreSentiment = (text: string): SentimentScore => {
+  // "don't" tokenizes as "don" "t"; spell negations out first.
+  const tokens = tokenize(text.replace(/n['’]t\b/gi, " not"));
+  let score = 0;
+  for (const [index, token] of tokens.entries()) {
+    const weight = LEXICON[token];
+    if (!weight) continue;
+    const before = tokens.slice(Math.max(0, index - 2), index);
+    const boost = before.reduce((product, word) => product * (INTENSIFIERS[word] ?? 1), 1);
+    // "not good" is negative; "not bad" only mildly positive.
+    const negated = before.some((word) => NEGATIONS.has(word));
+    score += (negated ? -weight / 2 : weight) * boost;
+  }
+
+  const signals: FrustrationSignal[] = [];
+  if (score < 0) signals.push("negative");
+  if (tokens.some((token) => PROFANITY.has(token)) || MASKED_PROFANITY.test(text)) signals.push("profanity");
+  if (isShouting(text)) signals.push("all-caps");
+  if (REPETITION.some((run) => containsRun(tokens, run))) signals.push("repetition");
+  if (/!{2,}|\?{3,}|\?!|!\?/.test(text)) signals.push("exclamation");
+  return { score, signals };
+};
+
+// Frustration after one more message. It builds up over the conversation and
+// fades as the customer calms down; `fallbackStreak` counts fallbacks in a row,
+// including this message's.
+export const updateFrustration = (
+  previous: number,
+  { score, signals }: SentimentScore,
+  fallbackStreak: number,
+  policy = defaultFrustrationPolicy,
+) => {
+  const weights: Record<Exclude<FrustrationSignal, "negative">, number> = {
+    profanity: policy.profanityWeight,
+    "all-caps": policy.allCapsWeight,
+    repetition: policy.repetitionWeight,
+    exclamation: policy.exclamationWeight,
+  };
+  const raised = signals.reduce((total, signal) => total + (signal === "negative" ? 0 : weights[signal]), 0);
+  const fallbacks = Math.max(0, fallbackStreak - 1) * policy.fallbackWeight;
+  return Math.max(0, previous * policy.decay - score + raised + fallbacks);
+};
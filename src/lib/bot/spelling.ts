@@ -0,0 +1,63 @@
+// Typos allowed before a word stops being recognised. Short words are left
+// alone: "tack" is one letter away from "track" and from "tick" alike.
+const allowedEdits = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+// Insertions, deletions, substitutions and swaps of neighbouring letters each
+// count as one edit, so "ordr", "oder" and "odrer" are all one away from "order".
+export const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+const sharedPrefix = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && a[length] === b[length]) length++;
+  return length;
+};
+
+// Replaces tokens that aren't in `words` with the word they're closest to, e.g.
+// "trak" with "track". Typos tend to come late in a word, so "wher" is "where"
+// rather than "when"; a tie beyond that leaves the token as it is.
+export const createSpellingCorrector = (words: Iterable<string>) => {
+  const known = new Set(words);
+  const candidates = [...known].filter((word) => word.length >= 4);
+
+  const correct = (token: string) => {
+    const limit = allowedEdits(token.length);
+    // Numbers and Chinese characters have nothing to correct.
+    if (known.has(token) || limit === 0 || /[\d\p{Script=Han}]/u.test(token)) return token;
+
+    let best: string | null = null;
+    let bestDistance = limit + 1;
+    let bestPrefix = 0;
+    let isTied = false;
+    for (const word of candidates) {
+      if (Math.abs(word.length - token.length) > limit) continue;
+      const distance = editDistance(token, word);
+      if (distance > limit || distance > bestDistance) continue;
+      const prefix = sharedPrefix(token, word);
+      if (distance < bestDistance || prefix > bestPrefix) {
+        best = word;
+        bestDistance = distance;
+        bestPrefix = prefix;
+        isTied = false;
+      } else if (prefix === bestPrefix) {
+        isTied = true;
+      }
+    }
+    return best && !isTied ? best : token;
+  };
+
+  return (tokens: string[]) => tokens.map(correct);
+};
@@ -0,0 +1,104 @@
+import type { MessageContent } from "@/lib/chat/types";
+import type { RequestAgent } from "@/lib/handoff/types";
+import { translator } from "@/lib/i18n/translator";
+import type { OrderService } from "@/lib/orders/service";
+import type { Order } from "@/lib/orders/types";
+import type { RefundService } from "@/lib/refunds/service";
+import { runEffect, type EffectContext } from "./effects";
+import { getBotResponse, referencedOrderIds } from "./engine";
+import type { FrustrationPolicy } from "./sentiment";
+import type { BotEffect, ConversationState, OrderLookup } from "./types";
+
+export type ResponseEvent =
+  // A new message; text messages start empty and grow through text-delta events.
+  | { type: "message"; index: number; content: MessageContent }
+  | { type: "text-delta"; index: number; delta: string }
+  // Where the conversation goes next, sent before the reply is shown so that
+  // cutting the reply short doesn't lose it.
+  | { type: "state"; state: ConversationState }
+  | { type: "done"; intent: string; confidence: number; state: ConversationState };
+
+export interface StreamOptions {
+  loadOrders: (orderIds: string[], signal: AbortSignal) => Promise<OrderLookup>;
+  cancelOrder: OrderService["cancelOrder"];
+  requestRefund: RefundService["requestRefund"];
+  requestAgent: RequestAgent;
+  // Whether the customer has verified the order; see `IntentInput.isVerified`.
+  isVerified: (orderId: string) => boolean;
+  // The customer's orders; left out until the host page says who they are.
+  listOrders?: (signal: AbortSignal) => Promise<Order[]>;
+  // When to apologize and offer a person; the defaults if left out.
+  frustrationPolicy?: FrustrationPolicy;
+  signal: AbortSignal;
+}
+
+// Pace for revealing rule-based text, so long answers read like they are typed.
+const WORD_DELAY_MS = 25;
+
+export const pause = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+export async function* streamText(index: number, text: string, signal: AbortSignal): AsyncGenerator<ResponseEvent> {
+  for (const word of text.match(/\S+\s*/g) ?? []) {
+    await pause(WORD_DELAY_MS, signal);
+    yield { type: "text-delta", index, delta: word };
+  }
+}
+
+async function* streamMessage(index: number, content: MessageContent, signal: AbortSignal): AsyncGenerator<ResponseEvent> {
+  if (content.type === "text") {
+    yield { type: "message", index, content: { type: "text", text: "" } };
+    yield* streamText(index, content.text, signal);
+  } else {
+    yield { type: "message", index, content };
+  }
+}
+
+const runEffects = async (effects: BotEffect[], context: EffectContext) => {
+  const outcomes: MessageContent[] = [];
+  for (const effect of effects) outcomes.push(...(await runEffect(effect, context)));
+  return outcomes;
+};
+
+export async function* streamBotResponse(
+  userMessage: string,
+  state: ConversationState,
+  options: StreamOptions,
+): AsyncGenerator<ResponseEvent> {
+  const { loadOrders, signal } = options;
+  const orders = await loadOrders(referencedOrderIds(userMessage, state), signal);
+  signal.throwIfAborted();
+
+  const { reply, state: next } = getBotResponse(userMessage, state, orders, options.isVerified, options.frustrationPolicy);
+  yield { type: "state", state: next };
+
+  // The reply has told the customer the effects are happening, so they start now
+  // and carry on even if the reply is cut short; only their outcome goes unshown.
+  const outcomes = runEffects(reply.effects ?? [], {
+    ...options,
+    t: translator(next.locale),
+    signal: new AbortController().signal,
+  });
+
+  for (const [index, content] of reply.messages.entries()) {
+    yield* streamMessage(index, content, signal);
+  }
+
+  let index = reply.messages.length;
+  for (const content of await outcomes) {
+    yield* streamMessage(index++, content, signal);
+  }
+
+  yield { type: "done", intent: reply.intent, confidence: reply.confidence, state: next };
+}
@@ -0,0 +1,25 @@
+import { vocabulary } from "@/lib/i18n/catalog";
+
+const STOP_WORDS = new Set(vocabulary("stopWords"));
+
+// Each Chinese character is a token of its own, since Chinese isn't written
+// with spaces; any other run of letters and digits is one word. Accents are
+// dropped so "dónde" and "donde" match.
+const TOKEN = /\p{Script=Han}|(?:(?!\p{Script=Han})[\p{L}\p{N}])+/gu;
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().normalize("NFD").replace(/\p{M}/gu, "").match(TOKEN) ?? [];
+
+export const isStopWord = (token: string) => STOP_WORDS.has(token);
+
+export const contentTokens = (tokens: string[]) =>
+  tokens.filter((token) => !isStopWord(token));
+
+// True when `phrase` appears in `tokens` as a contiguous run of whole words.
+export const containsPhrase = (tokens: string[], phrase: string[]) => {
+  if (phrase.length === 0 || phrase.length > tokens.length) return false;
+  for (let i = 0; i <= tokens.length - phrase.length; i++) {
+    if (phrase.every((word, j) => tokens[i + j] === word)) return true;
+  }
+  return false;
+};
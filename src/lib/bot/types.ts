@@ -0,0 +1,96 @@
+import type { MessageContent } from "@/lib/chat/types";
+import type { Locale, LocaleSource, Translator } from "@/lib/i18n/types";
+import type { Order } from "@/lib/orders/types";
+
+export interface Entities {
+  orderIds: string[];
+}
+
+// Orders fetched before the engine runs, keyed by id; null means not found.
+export type OrderLookup = Record<string, Order | null>;
+
+export interface IntentInput {
+  text: string;
+  tokens: string[];
+  entities: Entities;
+  context: ConversationState;
+  orders: OrderLookup;
+  // Whether the customer has proven they own the order, which changing it takes.
+  isVerified: (orderId: string) => boolean;
+  // Answers in the conversation's language.
+  t: Translator;
+}
+
+export interface Intent {
+  id: string;
+  examples: string[];
+  patterns?: RegExp[];
+  // Breaks ties between intents that score the same; higher wins.
+  priority?: number;
+  // Id of a dialog flow to start; the handler's messages introduce it.
+  flow?: string;
+  // Hands the customer to a person. Works even in the middle of a dialog, and
+  // is never answered with another offer to escalate.
+  escalates?: boolean;
+  // Not matched when the message names an order: "我的订单" asks for every order,
+  // but "我的订单N001在哪里" is about one.
+  unlessOrderNamed?: boolean;
+  handler: (input: IntentInput) => HandlerResult;
+}
+
+export interface IntentMatch {
+  intent: Intent;
+  confidence: number;
+}
+
+// Plain strings are shorthand for a single text message.
+export type HandlerResult = string | MessageContent | MessageContent[];
+
+// Work a reply asks for that needs the backend; the stream carries it out and
+// appends the outcome.
+export type BotEffect =
+  | { type: "cancel-order"; orderId: string; reason: string }
+  // `items` as encoded by `encodeItems`; empty for reasons that cover the whole order.
+  | { type: "request-refund"; orderId: string; reason: string; items: string; requestId: string }
+  | { type: "request-agent" }
+  | { type: "request-callback"; phone: string }
+  | { type: "list-orders" };
+
+export interface BotReply {
+  messages: MessageContent[];
+  intent: string;
+  confidence: number;
+  effects?: BotEffect[];
+}
+
+export interface DialogState {
+  flowId: string;
+  values: Record<string, string>;
+  awaitingConfirmation: boolean;
+  // Made each time the confirmation is asked. A "yes" sent twice carries out one
+  // request, but asking again later is a new one.
+  requestId?: string;
+}
+
+// An order number the customer may have mistyped, waiting on "Did you mean N001?".
+export interface OrderIdGuess {
+  orderId: string;
+  // Their message with the guess written out in full, answered if they say yes.
+  text: string;
+}
+
+export interface ConversationState {
+  dialog: DialogState | null;
+  // The order follow-ups like "where is it now" refer to.
+  activeOrderId: string | null;
+  lastIntent: string | null;
+  lastEntities: Entities;
+  // How upset the customer seems so far; see `updateFrustration`.
+  frustration: number;
+  // Fallback answers in a row.
+  fallbackStreak: number;
+  // The language the bot answers in.
+  locale: Locale;
+  localeSource: LocaleSource;
+  orderIdGuess: OrderIdGuess | null;
+}
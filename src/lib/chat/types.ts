@@ -0,0 +1,66 @@
+import type { AgentProfile } from "@/lib/handoff/types";
+
+export type ChatAction =
+  // Sends `text` as if the customer had typed it.
+  | { type: "reply"; text: string }
+  | { type: "link"; href: string };
+
+export interface ActionButton {
+  label: string;
+  action: ChatAction;
+  variant?: "default" | "outline" | "destructive";
+}
+
+export interface CarouselCard {
+  title: string;
+  subtitle?: string;
+  imageUrl?: string;
+  buttons?: ActionButton[];
+}
+
+export type MessageContent =
+  | { type: "text"; text: string }
+  | { type: "order-status"; orderId: string }
+  | { type: "map"; orderId: string }
+  | { type: "order-timeline"; orderId: string }
+  // Several orders side by side, one row each.
+  | { type: "order-comparison"; orderIds: string[] }
+  | { type: "verify-order"; orderId: string }
+  // A problem report for a delivered order; `claimId` is filled in once it's submitted.
+  | { type: "claim-form"; orderId: string; claimId?: string }
+  | { type: "quick-replies"; text?: string; replies: string[] }
+  | { type: "buttons"; text?: string; buttons: ActionButton[] }
+  | { type: "image"; url: string; alt: string; caption?: string }
+  | { type: "carousel"; cards: CarouselCard[] }
+  | { type: "notice"; text: string; tone?: "info" | "success" | "warning" };
+
+export type MessageSender = "user" | "bot" | "agent";
+
+export type Message = MessageContent & {
+  id: string;
+  sender: MessageSender;
+  timestamp: Date;
+  // Which intent produced a bot message, and how sure the matcher was.
+  intent?: string;
+  confidence?: number;
+  // Who wrote an agent message.
+  agent?: AgentProfile;
+};
+
+// Who the host page says the customer is, via `window.Nibbly.identify`.
+export interface CustomerIdentity {
+  id?: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  // Signed by the host's backend for this customer; needed to list their orders.
+  token?: string;
+}
+
+export const text = (value: string): MessageContent => ({ type: "text", text: value });
+
+export const replyButton = (label: string, reply: string, variant?: ActionButton["variant"]): ActionButton => ({
+  label,
+  action: { type: "reply", text: reply },
+  variant,
+});
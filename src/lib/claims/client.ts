@@ -0,0 +1,11 @@
+import { MOCK_API_URL, mockApiFetch } from "@/mocks/api";
+import { verificationSession } from "@/lib/verification/session";
+import { createFetchClaimService } from "./service";
+
+const apiUrl = import.meta.env.VITE_ORDER_API_URL;
+
+export const claimService = createFetchClaimService({
+  baseUrl: apiUrl ?? MOCK_API_URL,
+  fetch: apiUrl ? undefined : mockApiFetch,
+  getToken: verificationSession.getToken,
+});
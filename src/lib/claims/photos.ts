@@ -0,0 +1,74 @@
+import type { MessageParams } from "@/lib/i18n/types";
+
+// Photos bigger than this are refused before we try to decode them.
+export const MAX_PHOTO_INPUT_BYTES = 15 * 1024 * 1024;
+// What each photo is squeezed down to before upload.
+export const MAX_PHOTO_UPLOAD_BYTES = 500 * 1024;
+const MAX_DIMENSION = 1600;
+const QUALITIES = [0.85, 0.7, 0.55, 0.4];
+
+// Why a photo was turned away; the form words it with `photo.error.<reason>`.
+export type PhotoFailure = "not-image" | "too-large" | "unreadable" | "too-detailed" | "compress-failed";
+
+export class PhotoError extends Error {
+  constructor(message: string, readonly reason: PhotoFailure, readonly params: MessageParams = {}) {
+    super(message);
+    this.name = "PhotoError";
+  }
+}
+
+export interface CompressedPhoto {
+  dataUrl: string;
+  bytes: number;
+  width: number;
+  height: number;
+}
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toJpeg = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new PhotoError("Couldn't compress that photo.", "compress-failed"))), "image/jpeg", quality),
+  );
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / 1024 / 1024)} MB`;
+
+// Scales a photo down and re-encodes it as JPEG, lowering the quality until it
+// fits the upload limit. Phone photos of a few MB usually end up around 200 KB.
+export const compressPhoto = async (file: File): Promise<CompressedPhoto> => {
+  const { name } = file;
+  if (!file.type.startsWith("image/")) throw new PhotoError(`${name} isn't an image.`, "not-image", { name });
+  if (file.size > MAX_PHOTO_INPUT_BYTES) {
+    const size = formatMegabytes(MAX_PHOTO_INPUT_BYTES);
+    throw new PhotoError(`${name} is larger than ${size}.`, "too-large", { name, size });
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new PhotoError(`${name} couldn't be read as a photo.`, "unreadable", { name });
+  }
+
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  for (const quality of QUALITIES) {
+    const blob = await toJpeg(canvas, quality);
+    if (blob.size <= MAX_PHOTO_UPLOAD_BYTES) {
+      return { dataUrl: await readAsDataUrl(blob), bytes: blob.size, width: canvas.width, height: canvas.height };
+    }
+  }
+  const size = `${Math.round(MAX_PHOTO_UPLOAD_BYTES / 1024)} KB`;
+  throw new PhotoError(`${name} is too detailed to shrink below ${size}.`, "too-detailed", { name, size });
+};
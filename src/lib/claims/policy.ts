@@ -0,0 +1,103 @@
+import { currentStage, stageTime } from "@/lib/orders/lifecycle";
+import { english } from "@/lib/i18n/translator";
+import type { MessageKey, MessageParams, Translator } from "@/lib/i18n/types";
+import type { Order } from "@/lib/orders/types";
+import type { Claim, ClaimProblem, ClaimRequest, ClaimResolution } from "./types";
+
+// Problems have to be reported within this long of delivery.
+export const CLAIM_WINDOW_HOURS = 24;
+
+export const MAX_CLAIM_PHOTOS = 3;
+
+// In the order the claim form offers them; labels are in the message catalog.
+export const claimProblems: ClaimProblem[] = ["missing", "wrong", "damaged"];
+
+export const claimResolutions: ClaimResolution[] = ["replacement", "refund", "credit"];
+
+export type ClaimRefusal = "not-delivered-yet" | "cancelled" | "expired";
+
+// Why a claim can't be made for `order`, or null if it can.
+export const checkClaim = (order: Order, now = Date.now()): ClaimRefusal | null => {
+  const stage = currentStage(order.history);
+  if (stage === "Cancelled") return "cancelled";
+  if (stage !== "Delivered") return "not-delivered-yet";
+  const deliveredAt = stageTime(order.history, "Delivered");
+  return deliveredAt && now - Date.parse(deliveredAt) > CLAIM_WINDOW_HOURS * 3_600_000 ? "expired" : null;
+};
+
+export const describeClaimRefusal = (refusal: ClaimRefusal, order: Order, t: Translator = english) => {
+  switch (refusal) {
+    case "not-delivered-yet":
+      return t("claim.refusal.notDeliveredYet", { orderId: order.id });
+    case "cancelled":
+      return t("claim.refusal.cancelled", { orderId: order.id });
+    case "expired":
+      return t("claim.refusal.expired", { orderId: order.id, hours: CLAIM_WINDOW_HOURS });
+  }
+};
+
+// What is missing or wrong in a claim, with what the message needs to say so.
+export interface InvalidClaim {
+  reason: "no-items" | "unknown-item" | "quantity" | "resolution" | "too-many-photos" | "photo-needed" | "photo-too-large";
+  params?: MessageParams;
+}
+
+const invalidClaimKeys: Record<InvalidClaim["reason"], MessageKey> = {
+  "no-items": "claim.invalid.noItems",
+  "unknown-item": "claim.invalid.unknownItem",
+  "quantity": "claim.invalid.quantity",
+  "resolution": "claim.invalid.resolution",
+  "too-many-photos": "claim.invalid.tooManyPhotos",
+  "photo-needed": "claim.invalid.photoNeeded",
+  "photo-too-large": "claim.invalid.photoTooLarge",
+};
+
+// Why the claims team would turn a request away, or null if it is complete.
+export const checkClaimRequest = (order: Order, request: Omit<ClaimRequest, "idempotencyKey">): InvalidClaim | null => {
+  if (!request.items.length) return { reason: "no-items" };
+  for (const item of request.items) {
+    const ordered = order.items.find((candidate) => candidate.sku === item.sku);
+    if (!ordered) return { reason: "unknown-item", params: { sku: item.sku, orderId: order.id } };
+    if (item.quantity < 1 || item.quantity > ordered.quantity) {
+      return { reason: "quantity", params: { orderId: order.id, quantity: ordered.quantity, name: ordered.name } };
+    }
+  }
+  if (!claimResolutions.includes(request.resolution)) return { reason: "resolution" };
+  if (request.photos.length > MAX_CLAIM_PHOTOS) return { reason: "too-many-photos", params: { max: MAX_CLAIM_PHOTOS } };
+  if (request.items.some((item) => item.problem === "damaged") && !request.photos.length) {
+    return { reason: "photo-needed" };
+  }
+  return null;
+};
+
+export const describeInvalidClaim = ({ reason, params }: InvalidClaim, t: Translator = english) =>
+  t(invalidClaimKeys[reason], params);
+
+export const validateClaim = (
+  order: Order,
+  request: Omit<ClaimRequest, "idempotencyKey">,
+  t: Translator = english,
+): string | null => {
+  const invalid = checkClaimRequest(order, request);
+  return invalid && describeInvalidClaim(invalid, t);
+};
+
+// Where a claim stands, e.g. "Claim CLM-… for order N004 (1× Horchata missing) is being reviewed…".
+export const describeClaim = (claim: Claim, t: Translator = english) => {
+  const items = claim.items
+    .map((item) => t("claim.item", {
+      quantity: item.quantity,
+      name: item.name,
+      problem: t(`claimProblem.${item.problem}`).toLocaleLowerCase(t.locale),
+    }))
+    .join(", ");
+  const summary = t("claim.summary", { claimId: claim.id, orderId: claim.orderId, items });
+  switch (claim.status) {
+    case "in-review":
+      return t("claim.inReview", { summary, promise: t(`claim.promised.${claim.resolution}`) });
+    case "resolved":
+      return t("claim.resolved", { summary, outcome: t(`claim.delivered.${claim.resolution}`) });
+    case "rejected":
+      return t("claim.rejected", { summary });
+  }
+};
@@ -0,0 +1,66 @@
+import type { ClaimRefusal, InvalidClaim } from "./policy";
+import type { Claim, ClaimRequest } from "./types";
+
+export interface ClaimService {
+  // Needs the order's verification token; without it the request fails with 403.
+  submitClaim: (request: ClaimRequest) => Promise<Claim>;
+}
+
+// What the claims API turned the claim down for, for the form to word in the
+// customer's language. Anything else is reported as unavailable.
+export type ClaimFailure =
+  | { error: "refused"; refusal: ClaimRefusal }
+  | ({ error: "invalid" } & InvalidClaim)
+  | { error: "verification-required" }
+  | { error: "unavailable" };
+
+export class ClaimServiceError extends Error {
+  constructor(message: string, readonly failure: ClaimFailure, readonly status?: number) {
+    super(message);
+    this.name = "ClaimServiceError";
+  }
+}
+
+interface FetchClaimServiceOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+  // Proof the customer owns the order the claim is about.
+  getToken?: (orderId: string) => string | null;
+}
+
+export const createFetchClaimService = ({
+  baseUrl,
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+  getToken = () => null,
+}: FetchClaimServiceOptions): ClaimService => ({
+  submitClaim: async ({ idempotencyKey, ...body }) => {
+    const token = getToken(body.orderId);
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl}/orders/${encodeURIComponent(body.orderId)}/claims`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          "Idempotency-Key": idempotencyKey,
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new ClaimServiceError(`Could not reach the claims service: ${(error as Error).message}`, {
+        error: "unavailable",
+      });
+    }
+
+    if (!response.ok) {
+      const failure = (await response.json().catch(() => null)) as ClaimFailure | null;
+      throw new ClaimServiceError(
+        `Claim failed with status ${response.status}`,
+        failure?.error ? failure : { error: "unavailable" },
+        response.status,
+      );
+    }
+    return (await response.json()) as Claim;
+  },
+});
@@ -0,0 +1,36 @@
+export type ClaimProblem = "missing" | "wrong" | "damaged";
+
+export type ClaimResolution = "replacement" | "refund" | "credit";
+
+export type ClaimStatus = "in-review" | "resolved" | "rejected";
+
+export interface ClaimItem {
+  sku: string;
+  name: string;
+  quantity: number;
+  problem: ClaimProblem;
+}
+
+export interface Claim {
+  id: string;
+  orderId: string;
+  items: ClaimItem[];
+  resolution: ClaimResolution;
+  // The photos themselves go to the claims team; customers just see how many were sent.
+  photoCount: number;
+  note?: string;
+  status: ClaimStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClaimRequest {
+  orderId: string;
+  items: { sku: string; quantity: number; problem: ClaimProblem }[];
+  resolution: ClaimResolution;
+  // Compressed JPEGs as data URLs.
+  photos: string[];
+  note?: string;
+  // Repeating a request with the same key returns the claim it created instead of a second one.
+  idempotencyKey: string;
+}
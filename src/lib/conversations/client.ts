@@ -0,0 +1,7 @@
+import { createIndexedDbConversationStore, createMemoryConversationStore } from "./store";
+import { createBroadcastConversationSync } from "./sync";
+
+export const conversationStore =
+  typeof indexedDB === "undefined" ? createMemoryConversationStore() : createIndexedDbConversationStore();
+
+export const conversationSync = createBroadcastConversationSync();
@@ -0,0 +1,72 @@
+import type { Conversation, ConversationStore } from "./types";
+
+const newestFirst = (a: Conversation, b: Conversation) => b.updatedAt.getTime() - a.updatedAt.getTime();
+
+// Used where IndexedDB is unavailable (private browsing in some browsers, tests):
+// conversations last as long as the page does.
+export const createMemoryConversationStore = (): ConversationStore => {
+  const conversations = new Map<string, Conversation>();
+
+  return {
+    list: async () => [...conversations.values()].sort(newestFirst),
+    get: async (id) => conversations.get(id) ?? null,
+    put: async (conversation) => {
+      conversations.set(conversation.id, conversation);
+    },
+    delete: async (id) => {
+      conversations.delete(id);
+    },
+    deleteOlderThan: async (cutoff) => {
+      for (const [id, conversation] of conversations) {
+        if (conversation.updatedAt < cutoff) conversations.delete(id);
+      }
+    },
+  };
+};
+
+const STORE_NAME = "conversations";
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (name: string) => {
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    store.createIndex("updatedAt", "updatedAt");
+  };
+  return promisify(request);
+};
+
+export const createIndexedDbConversationStore = (databaseName = "nibbly-chat"): ConversationStore => {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const transaction = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    database ??= openDatabase(databaseName);
+    const store = (await database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return promisify(run(store));
+  };
+
+  return {
+    list: async () => {
+      const conversations = await transaction("readonly", store => store.index("updatedAt").getAll());
+      return conversations.reverse();
+    },
+    get: async (id) => (await transaction("readonly", store => store.get(id))) ?? null,
+    put: async (conversation) => {
+      await transaction("readwrite", store => store.put(conversation));
+    },
+    delete: async (id) => {
+      await transaction("readwrite", store => store.delete(id));
+    },
+    deleteOlderThan: async (cutoff) => {
+      const expired = await transaction("readonly", store =>
+        store.index("updatedAt").getAllKeys(IDBKeyRange.upperBound(cutoff, true))
+      );
+      await Promise.all(expired.map(id => transaction("readwrite", store => store.delete(id))));
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import type { Message } from "@/lib/chat/types";
+import { english } from "@/lib/i18n/translator";
+import type { Translator } from "@/lib/i18n/types";
+import type { Conversation } from "./types";
+
+const TITLE_LENGTH = 40;
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  orderId: string | null;
+  lastMessage: string;
+  updatedAt: Date;
+}
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, length - 1).trimEnd()}…` : value;
+
+// One line standing in for a message in the thread list.
+export const messagePreview = (message: Message, t: Translator = english): string => {
+  switch (message.type) {
+    case "text":
+    case "notice":
+      return message.text;
+    case "quick-replies":
+    case "buttons":
+      return message.text ?? t("history.preview.replies");
+    case "order-status":
+      return t("history.preview.status", { orderId: message.orderId });
+    case "map":
+      return t("history.preview.map", { orderId: message.orderId });
+    case "order-timeline":
+      return t("history.preview.timeline", { orderId: message.orderId });
+    case "order-comparison":
+      return t("history.preview.comparison", { orderIds: message.orderIds.join(", ") });
+    case "verify-order":
+      return t("history.preview.verify", { orderId: message.orderId });
+    case "claim-form":
+      return message.claimId
+        ? t("history.preview.claim", { claimId: message.claimId })
+        : t("history.preview.claimForm", { orderId: message.orderId });
+    case "image":
+      return message.caption ?? message.alt;
+    case "carousel":
+      return message.cards[0]?.title ?? t("history.preview.cards");
+  }
+};
+
+export const summarizeConversation = (conversation: Conversation, t: Translator = english): ConversationSummary => {
+  const firstQuestion = conversation.messages.find(message => message.sender === "user");
+  const lastMessage = conversation.messages[conversation.messages.length - 1];
+
+  return {
+    id: conversation.id,
+    title: firstQuestion ? truncate(messagePreview(firstQuestion, t), TITLE_LENGTH) : t("history.new"),
+    orderId: conversation.state.activeOrderId,
+    lastMessage: lastMessage ? messagePreview(lastMessage, t) : "",
+    updatedAt: conversation.updatedAt,
+  };
+};
@@ -0,0 +1,18 @@
+import type { Conversation, ConversationSync } from "./types";
+
+export const createBroadcastConversationSync = (channelName = "nibbly-chat"): ConversationSync => {
+  if (typeof BroadcastChannel === "undefined") {
+    return { publish: () => {}, subscribe: () => () => {} };
+  }
+
+  const channel = new BroadcastChannel(channelName);
+
+  return {
+    publish: (conversation) => channel.postMessage(conversation),
+    subscribe: (listener) => {
+      const handleMessage = (event: MessageEvent<Conversation>) => listener(event.data);
+      channel.addEventListener("message", handleMessage);
+      return () => channel.removeEventListener("message", handleMessage);
+    },
+  };
+};
@@ -0,0 +1,27 @@
+import type { ConversationState } from "@/lib/bot/types";
+import type { Message } from "@/lib/chat/types";
+
+export interface Conversation {
+  id: string;
+  messages: Message[];
+  // Dialog context and active order, so a half-finished refund survives a reload.
+  state: ConversationState;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Where conversations are kept between visits. Implementations must return
+// `list()` most recently updated first.
+export interface ConversationStore {
+  list: () => Promise<Conversation[]>;
+  get: (id: string) => Promise<Conversation | null>;
+  put: (conversation: Conversation) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  deleteOlderThan: (cutoff: Date) => Promise<void>;
+}
+
+// Tells other tabs showing the widget that a conversation changed.
+export interface ConversationSync {
+  publish: (conversation: Conversation) => void;
+  subscribe: (listener: (conversation: Conversation) => void) => () => void;
+}
@@ -0,0 +1,6 @@
+// Where failures the customer isn't told about end up, e.g. a conversation that
+// couldn't be saved or a host page listener that threw. Errors the chat already
+// shows are not reported again. Point this at an error tracker in production.
+export const reportError = (context: string, error: unknown) => {
+  console.error(`Nibbly: ${context}`, error);
+};
@@ -0,0 +1,319 @@
+import { distanceMeters, interpolate } from "@/lib/geo";
+import type { GeoPoint } from "@/lib/orders/types";
+
+// A small offline gazetteer of Lower Manhattan and its edges, so the chat can
+// answer "do you deliver to …" without calling a geocoding API. Accurate to
+// roughly a block, like the basemap.
+
+export type PlaceKind = "landmark" | "neighbourhood" | "zip" | "street" | "address";
+
+interface NamedPoint extends GeoPoint {
+  names: string[];
+}
+
+interface NumberedStreet {
+  names: string[];
+  // House numbers at known points along the street, lowest first. Numbers in
+  // between are interpolated.
+  numbers: { number: number; point: GeoPoint }[];
+}
+
+export interface GeocodeResult {
+  name: string;
+  point: GeoPoint;
+  kind: PlaceKind;
+}
+
+const landmarks: NamedPoint[] = [
+  { names: ["Battery Park"], lat: 40.7033, lng: -74.0170 },
+  { names: ["Staten Island Ferry", "Whitehall Terminal"], lat: 40.7014, lng: -74.0132 },
+  { names: ["Wall Street", "Wall St", "Stock Exchange", "NYSE"], lat: 40.7069, lng: -74.0113 },
+  { names: ["Charging Bull"], lat: 40.7056, lng: -74.0134 },
+  { names: ["World Trade Center", "WTC", "One World Trade Center", "Oculus", "9/11 Memorial"], lat: 40.7116, lng: -74.0123 },
+  { names: ["Brookfield Place"], lat: 40.7133, lng: -74.0158 },
+  { names: ["South Street Seaport", "Seaport", "Pier 17"], lat: 40.7061, lng: -74.0037 },
+  { names: ["City Hall"], lat: 40.7128, lng: -74.0060 },
+  { names: ["Brooklyn Bridge"], lat: 40.7106, lng: -74.0005 },
+  { names: ["Manhattan Bridge"], lat: 40.7075, lng: -73.9908 },
+  { names: ["Williamsburg Bridge"], lat: 40.7134, lng: -73.9724 },
+  { names: ["Columbus Park"], lat: 40.7156, lng: -73.9999 },
+  { names: ["Washington Square Park", "Washington Square", "Washington Sq"], lat: 40.7308, lng: -73.9973 },
+  { names: ["Union Square", "Union Sq"], lat: 40.7359, lng: -73.9906 },
+  { names: ["Tompkins Square Park", "Tompkins Square"], lat: 40.7265, lng: -73.9817 },
+  { names: ["Stuyvesant Town", "Stuy Town"], lat: 40.7316, lng: -73.9780 },
+  { names: ["NYU", "New York University"], lat: 40.7295, lng: -73.9965 },
+  { names: ["Cooper Union"], lat: 40.7291, lng: -73.9907 },
+  { names: ["Hudson River Park"], lat: 40.7270, lng: -74.0115 },
+  { names: ["Chelsea Market"], lat: 40.7424, lng: -74.0061 },
+  { names: ["Empire State Building"], lat: 40.7484, lng: -73.9857 },
+  { names: ["Times Square"], lat: 40.7580, lng: -73.9855 },
+  { names: ["Grand Central"], lat: 40.7527, lng: -73.9772 },
+  { names: ["Central Park"], lat: 40.7829, lng: -73.9654 },
+  { names: ["Statue of Liberty"], lat: 40.6892, lng: -74.0445 },
+  { names: ["Governors Island"], lat: 40.6895, lng: -74.0168 },
+  { names: ["DUMBO"], lat: 40.7033, lng: -73.9881 },
+  { names: ["Brooklyn Heights"], lat: 40.6959, lng: -73.9956 },
+  { names: ["Jersey City"], lat: 40.7178, lng: -74.0431 },
+  { names: ["Hoboken"], lat: 40.7440, lng: -74.0324 },
+];
+
+const neighbourhoods: NamedPoint[] = [
+  { names: ["Financial District", "FiDi"], lat: 40.7075, lng: -74.0090 },
+  { names: ["Battery Park City"], lat: 40.7115, lng: -74.0160 },
+  { names: ["Tribeca"], lat: 40.7163, lng: -74.0086 },
+  { names: ["Civic Center"], lat: 40.7140, lng: -74.0030 },
+  { names: ["Chinatown"], lat: 40.7158, lng: -73.9970 },
+  { names: ["Little Italy"], lat: 40.7191, lng: -73.9973 },
+  { names: ["Two Bridges"], lat: 40.7115, lng: -73.9920 },
+  { names: ["Lower East Side", "LES"], lat: 40.7150, lng: -73.9843 },
+  { names: ["SoHo"], lat: 40.7233, lng: -74.0030 },
+  { names: ["NoHo"], lat: 40.7268, lng: -73.9930 },
+  { names: ["Nolita"], lat: 40.7230, lng: -73.9955 },
+  { names: ["Hudson Square"], lat: 40.7265, lng: -74.0075 },
+  { names: ["Greenwich Village", "the Village"], lat: 40.7336, lng: -74.0027 },
+  { names: ["West Village"], lat: 40.7358, lng: -74.0036 },
+  { names: ["East Village"], lat: 40.7265, lng: -73.9840 },
+  { names: ["Alphabet City"], lat: 40.7250, lng: -73.9790 },
+  { names: ["Meatpacking District", "Meatpacking"], lat: 40.7400, lng: -74.0070 },
+  { names: ["Chelsea"], lat: 40.7465, lng: -74.0014 },
+  { names: ["Flatiron"], lat: 40.7410, lng: -73.9897 },
+  { names: ["Gramercy"], lat: 40.7368, lng: -73.9845 },
+  { names: ["Midtown"], lat: 40.7549, lng: -73.9840 },
+];
+
+// Rough centroids of the ZIP codes in and around the service area.
+const zips: NamedPoint[] = [
+  { names: ["10004"], lat: 40.7038, lng: -74.0139 },
+  { names: ["10005"], lat: 40.7060, lng: -74.0087 },
+  { names: ["10006"], lat: 40.7095, lng: -74.0131 },
+  { names: ["10007"], lat: 40.7138, lng: -74.0077 },
+  { names: ["10038"], lat: 40.7093, lng: -74.0023 },
+  { names: ["10280"], lat: 40.7097, lng: -74.0168 },
+  { names: ["10282"], lat: 40.7168, lng: -74.0148 },
+  { names: ["10013"], lat: 40.7200, lng: -74.0048 },
+  { names: ["10002"], lat: 40.7157, lng: -73.9863 },
+  { names: ["10012"], lat: 40.7256, lng: -73.9982 },
+  { names: ["10014"], lat: 40.7340, lng: -74.0054 },
+  { names: ["10003"], lat: 40.7318, lng: -73.9891 },
+  { names: ["10009"], lat: 40.7264, lng: -73.9786 },
+  { names: ["10011"], lat: 40.7418, lng: -74.0002 },
+  { names: ["10010"], lat: 40.7390, lng: -73.9826 },
+];
+
+const streets: NumberedStreet[] = [
+  {
+    names: ["Broadway"],
+    numbers: [
+      { number: 1, point: { lat: 40.7047, lng: -74.0141 } },
+      { number: 222, point: { lat: 40.7106, lng: -74.0090 } },
+      { number: 350, point: { lat: 40.7173, lng: -74.0037 } },
+      { number: 500, point: { lat: 40.7221, lng: -73.9995 } },
+      { number: 700, point: { lat: 40.7289, lng: -73.9937 } },
+      { number: 842, point: { lat: 40.7346, lng: -73.9908 } },
+      { number: 1500, point: { lat: 40.7570, lng: -73.9860 } },
+    ],
+  },
+  {
+    names: ["Fifth Avenue", "5th Avenue"],
+    numbers: [
+      { number: 1, point: { lat: 40.7316, lng: -73.9969 } },
+      { number: 100, point: { lat: 40.7370, lng: -73.9929 } },
+      { number: 350, point: { lat: 40.7484, lng: -73.9857 } },
+    ],
+  },
+  {
+    names: ["Sixth Avenue", "6th Avenue", "Avenue of the Americas"],
+    numbers: [
+      { number: 1, point: { lat: 40.7216, lng: -74.0048 } },
+      { number: 200, point: { lat: 40.7259, lng: -74.0035 } },
+      { number: 500, point: { lat: 40.7350, lng: -73.9983 } },
+      { number: 1000, point: { lat: 40.7535, lng: -73.9850 } },
+    ],
+  },
+  {
+    names: ["Hudson Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7153, lng: -74.0090 } },
+      { number: 200, point: { lat: 40.7248, lng: -74.0078 } },
+      { number: 500, point: { lat: 40.7330, lng: -74.0066 } },
+      { number: 900, point: { lat: 40.7405, lng: -74.0060 } },
+    ],
+  },
+  {
+    names: ["Greenwich Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7043, lng: -74.0140 } },
+      { number: 200, point: { lat: 40.7120, lng: -74.0115 } },
+      { number: 500, point: { lat: 40.7255, lng: -74.0094 } },
+    ],
+  },
+  {
+    names: ["Bowery"],
+    numbers: [
+      { number: 1, point: { lat: 40.7140, lng: -73.9972 } },
+      { number: 200, point: { lat: 40.7215, lng: -73.9932 } },
+      { number: 350, point: { lat: 40.7260, lng: -73.9910 } },
+    ],
+  },
+  {
+    names: ["Lafayette Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7138, lng: -74.0038 } },
+      { number: 200, point: { lat: 40.7210, lng: -73.9985 } },
+      { number: 450, point: { lat: 40.7295, lng: -73.9920 } },
+    ],
+  },
+  {
+    names: ["Water Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7025, lng: -74.0120 } },
+      { number: 200, point: { lat: 40.7072, lng: -74.0030 } },
+      { number: 500, point: { lat: 40.7110, lng: -73.9915 } },
+    ],
+  },
+  {
+    names: ["Canal Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7146, lng: -73.9935 } },
+      { number: 300, point: { lat: 40.7190, lng: -74.0025 } },
+      { number: 500, point: { lat: 40.7223, lng: -74.0105 } },
+    ],
+  },
+  {
+    names: ["Houston Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7255, lng: -73.9955 } },
+      { number: 200, point: { lat: 40.7282, lng: -74.0104 } },
+    ],
+  },
+  {
+    names: ["East Houston Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7255, lng: -73.9955 } },
+      { number: 500, point: { lat: 40.7205, lng: -73.9798 } },
+    ],
+  },
+  {
+    names: ["14th Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7362, lng: -73.9935 } },
+      { number: 400, point: { lat: 40.7410, lng: -74.0060 } },
+    ],
+  },
+  {
+    names: ["East 14th Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7362, lng: -73.9935 } },
+      { number: 600, point: { lat: 40.7300, lng: -73.9760 } },
+    ],
+  },
+  {
+    names: ["Wall Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7074, lng: -74.0120 } },
+      { number: 120, point: { lat: 40.7047, lng: -74.0060 } },
+    ],
+  },
+  {
+    names: ["Liberty Street"],
+    numbers: [
+      { number: 1, point: { lat: 40.7090, lng: -74.0085 } },
+      { number: 200, point: { lat: 40.7110, lng: -74.0150 } },
+    ],
+  },
+];
+
+const abbreviations: Record<string, string> = {
+  st: "street",
+  str: "street",
+  ave: "avenue",
+  av: "avenue",
+  sq: "square",
+  pl: "place",
+  blvd: "boulevard",
+  pk: "park",
+  w: "west",
+  e: "east",
+  n: "north",
+  s: "south",
+  fifth: "5th",
+  sixth: "6th",
+  fourteenth: "14th",
+};
+
+// Lowercases, drops punctuation and expands abbreviations so "5th Ave." and
+// "Fifth Avenue" compare equal.
+export const normalizePlace = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}/\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => abbreviations[word] ?? word)
+    .join(" ");
+
+const containsPhrase = (haystack: string, phrase: string) => ` ${haystack} `.includes(` ${phrase} `);
+
+// Where house `number` sits along `street`, extrapolating past the last known point.
+const locateNumber = (street: NumberedStreet, number: number): GeoPoint => {
+  const { numbers } = street;
+  const upper = numbers.findIndex((entry) => entry.number >= number);
+  if (upper === 0) return numbers[0].point;
+  const index = upper === -1 ? numbers.length - 1 : upper;
+  const [from, to] = [numbers[index - 1], numbers[index]];
+  return interpolate(from.point, to.point, (number - from.number) / (to.number - from.number));
+};
+
+const HOUSE_NUMBER = /\b(\d{1,4})[a-z]?\s+$/;
+
+const geocodeAddress = (query: string): GeocodeResult | null => {
+  const matches = streets.flatMap((street) =>
+    street.names.map((name) => ({ street, name, at: ` ${query} `.indexOf(` ${normalizePlace(name)} `) })),
+  ).filter((match) => match.at >= 0);
+  // "East 14th Street" should win over "14th Street".
+  const best = matches.sort((a, b) => b.name.length - a.name.length)[0];
+  if (!best) return null;
+
+  const number = HOUSE_NUMBER.exec(` ${query} `.slice(0, best.at + 1))?.[1];
+  if (!number) {
+    return { name: best.street.names[0], point: locateNumber(best.street, best.street.numbers[0].number), kind: "street" };
+  }
+  return { name: `${number} ${best.street.names[0]}`, point: locateNumber(best.street, Number(number)), kind: "address" };
+};
+
+const lookups: [NamedPoint[], PlaceKind][] = [
+  [landmarks, "landmark"],
+  [neighbourhoods, "neighbourhood"],
+  [zips, "zip"],
+];
+
+// Finds the place `text` mentions, preferring a street address, then the
+// longest landmark, neighbourhood or ZIP name it contains.
+export const geocode = (text: string): GeocodeResult | null => {
+  const query = normalizePlace(text);
+  if (!query) return null;
+
+  const address = geocodeAddress(query);
+  if (address?.kind === "address") return address;
+
+  const named = lookups
+    .flatMap(([entries, kind]) =>
+      entries.flatMap((entry) =>
+        entry.names
+          .filter((name) => containsPhrase(query, normalizePlace(name)))
+          .map((name) => ({ name: entry.names[0], length: name.length, point: { lat: entry.lat, lng: entry.lng }, kind })),
+      ),
+    )
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (named) return { name: named.name, point: named.point, kind: named.kind };
+  return address;
+};
+
+// The best-known place near `point` that passes `filter`, for describing a spot
+// on the map in words.
+export const nearestPlace = (point: GeoPoint, filter: (place: GeoPoint) => boolean = () => true) =>
+  [...landmarks, ...neighbourhoods]
+    .filter(filter)
+    .map((entry) => ({ name: entry.names[0], distance: distanceMeters(entry, point) }))
+    .sort((a, b) => a.distance - b.distance)[0].name;
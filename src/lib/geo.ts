@@ -0,0 +1,53 @@
+import type { GeoPoint } from "@/lib/orders/types";
+
+const EARTH_RADIUS_M = 6_371_000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in metres.
+export const distanceMeters = (from: GeoPoint, to: GeoPoint) => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+};
+
+// Straight-line interpolation; fine at neighbourhood scale.
+export const interpolate = (from: GeoPoint, to: GeoPoint, fraction: number): GeoPoint => ({
+  lat: from.lat + (to.lat - from.lat) * fraction,
+  lng: from.lng + (to.lng - from.lng) * fraction,
+});
+
+// Ray casting; treats lat/lng as planar, which holds at city scale.
+export const pointInPolygon = (point: GeoPoint, polygon: GeoPoint[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.lat > point.lat !== b.lat > point.lat) {
+      const crossingLng = a.lng + ((point.lat - a.lat) / (b.lat - a.lat)) * (b.lng - a.lng);
+      if (point.lng < crossingLng) inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Closest point to `point` on the segment from `a` to `b`, measured in metres
+// rather than degrees so east-west and north-south distances count the same.
+const nearestOnSegment = (point: GeoPoint, a: GeoPoint, b: GeoPoint): GeoPoint => {
+  const lngScale = Math.cos(toRadians(point.lat));
+  const dx = (b.lng - a.lng) * lngScale;
+  const dy = b.lat - a.lat;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return a;
+  const t = ((point.lng - a.lng) * lngScale * dx + (point.lat - a.lat) * dy) / lengthSquared;
+  return interpolate(a, b, Math.max(0, Math.min(1, t)));
+};
+
+// The point on the polygon's edge closest to `point`.
+export const nearestOnPolygon = (point: GeoPoint, polygon: GeoPoint[]): GeoPoint =>
+  polygon
+    .map((vertex, index) => nearestOnSegment(point, vertex, polygon[(index + 1) % polygon.length]))
+    .reduce((best, candidate) => (distanceMeters(point, candidate) < distanceMeters(point, best) ? candidate : best));
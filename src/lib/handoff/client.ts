@@ -0,0 +1,7 @@
+import { createLocalHandoffRelay } from "./relay";
+
+// There's no live-agent backend yet; the local relay connects the widget to
+// the /agent console in another tab of the same browser.
+export const handoffRelay = createLocalHandoffRelay({
+  storage: typeof localStorage === "undefined" ? undefined : localStorage,
+});
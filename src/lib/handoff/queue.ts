@@ -0,0 +1,71 @@
+import type { Message } from "@/lib/chat/types";
+import { messagePreview } from "@/lib/conversations/summary";
+import { english } from "@/lib/i18n/translator";
+import type { Translator } from "@/lib/i18n/types";
+import type { HandoffMessage, HandoffTicket } from "./types";
+
+export const isOpen = (ticket: HandoffTicket) => ticket.status !== "closed";
+
+// 1 for the next chat an agent will pick up; 0 once the ticket isn't waiting.
+export const queuePosition = (tickets: HandoffTicket[], ticketId: string) => {
+  const waiting = tickets.filter((ticket) => ticket.status === "waiting");
+  return waiting.findIndex((ticket) => ticket.id === ticketId) + 1;
+};
+
+// The conversation's most recent live chat, open or not. Callbacks happen by
+// phone, so they never take over the widget.
+export const latestTicketFor = (tickets: HandoffTicket[], conversationId: string) =>
+  tickets.filter((ticket) => ticket.conversationId === conversationId && !ticket.callbackPhone).pop() ?? null;
+
+// What the customer sees of a ticket in the chat: the agent joining, their
+// messages and the chat ending. Ids are stable so replaying a ticket, e.g.
+// after a reload, only adds what's new.
+export const ticketUpdates = (ticket: HandoffTicket, t: Translator = english): Message[] => {
+  const updates: Message[] = [];
+  if (ticket.agent && ticket.claimedAt) {
+    updates.push({
+      id: `${ticket.id}-claimed`,
+      type: "notice",
+      tone: "success",
+      text: t("handoff.joined", { agent: ticket.agent.name }),
+      sender: "bot",
+      timestamp: new Date(ticket.claimedAt),
+    });
+  }
+  for (const message of ticket.messages.filter((candidate) => candidate.from === "agent")) {
+    updates.push({
+      id: message.id,
+      type: "text",
+      text: message.text,
+      sender: "agent",
+      agent: message.agent,
+      timestamp: new Date(message.at),
+    });
+  }
+  if (ticket.closedAt) {
+    updates.push({
+      id: `${ticket.id}-closed`,
+      type: "notice",
+      text: ticket.agent ? t("handoff.left", { agent: ticket.agent.name }) : t("handoff.leftQueue"),
+      sender: "bot",
+      timestamp: new Date(ticket.closedAt),
+    });
+  }
+  return updates;
+};
+
+// The widget transcript as plain lines an agent can skim. Suggested replies
+// are left out; they were never said.
+export const toTranscript = (messages: Message[]): HandoffMessage[] =>
+  messages
+    .filter((message) => message.type !== "quick-replies" || message.text)
+    .map((message) => ({
+      id: message.id,
+      from: message.sender === "user" ? "customer" : message.sender,
+      text: messagePreview(message),
+      at: message.timestamp.toISOString(),
+      agent: message.agent,
+    }));
+
+export const describePosition = (position: number, t: Translator = english) =>
+  position === 1 ? t("handoff.position.next") : t("handoff.position.other", { position });
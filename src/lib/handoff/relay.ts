@@ -0,0 +1,125 @@
+import { HandoffError, type HandoffEvent, type HandoffRelay, type HandoffTicket } from "./types";
+
+interface LocalRelayOptions {
+  storage?: Storage;
+  storageKey?: string;
+  channelName?: string;
+}
+
+// Tickets that have been closed this long are dropped from storage.
+const CLOSED_TICKET_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Runs both sides of a handoff inside the browser: tickets live in
+// localStorage and events reach the widget and the agent console in other tabs
+// over BroadcastChannel. Enough for development and demos; a deployment would
+// put a server behind the same interface.
+export const createLocalHandoffRelay = ({
+  storage,
+  storageKey = "nibbly.handoffTickets",
+  channelName = "nibbly-handoff",
+}: LocalRelayOptions = {}): HandoffRelay => {
+  const channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(channelName);
+  const listeners = new Set<(event: HandoffEvent) => void>();
+  let memory: HandoffTicket[] = [];
+
+  // Read fresh every time: other tabs write to the same key.
+  const load = (): HandoffTicket[] => {
+    if (!storage) return memory;
+    try {
+      return JSON.parse(storage.getItem(storageKey) ?? "[]");
+    } catch {
+      return [];
+    }
+  };
+
+  const save = (tickets: HandoffTicket[]) => {
+    const cutoff = Date.now() - CLOSED_TICKET_TTL_MS;
+    memory = tickets.filter((ticket) => !ticket.closedAt || Date.parse(ticket.closedAt) > cutoff);
+    storage?.setItem(storageKey, JSON.stringify(memory));
+  };
+
+  const emit = (event: HandoffEvent) => {
+    channel?.postMessage(event);
+    // BroadcastChannel doesn't deliver to the tab that posted.
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const update = (ticketId: string, change: (ticket: HandoffTicket) => HandoffTicket) => {
+    const tickets = load();
+    const ticket = tickets.find((candidate) => candidate.id === ticketId);
+    if (!ticket) throw new HandoffError(`No chat ${ticketId}`);
+    const next = change(ticket);
+    save(tickets.map((candidate) => (candidate.id === ticketId ? next : candidate)));
+    return next;
+  };
+
+  channel?.addEventListener("message", (event: MessageEvent<HandoffEvent>) => {
+    listeners.forEach((listener) => listener(event.data));
+  });
+
+  return {
+    request: async (request) => {
+      // Asking twice joins the queue once; a callback and a chat are separate requests.
+      const existing = load().find((ticket) =>
+        ticket.conversationId === request.conversationId &&
+        ticket.status !== "closed" &&
+        !ticket.callbackPhone === !request.callbackPhone,
+      );
+      if (existing) return existing;
+
+      const ticket: HandoffTicket = {
+        ...request,
+        id: `HND-${Date.now().toString(36)}${crypto.randomUUID().slice(0, 4)}`.toUpperCase(),
+        status: "waiting",
+        messages: [],
+        agent: null,
+        createdAt: new Date().toISOString(),
+        claimedAt: null,
+        closedAt: null,
+      };
+      save([...load(), ticket]);
+      emit({ type: "ticket", ticket });
+      return ticket;
+    },
+
+    list: async () => load().sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+
+    claim: async (ticketId, agent) => {
+      const ticket = update(ticketId, (current) => {
+        if (current.status !== "waiting") {
+          throw new HandoffError(current.agent ? `${current.agent.name} already has this chat.` : "This chat has ended.");
+        }
+        return { ...current, status: "active", agent, claimedAt: new Date().toISOString() };
+      });
+      emit({ type: "ticket", ticket });
+      return ticket;
+    },
+
+    send: async (ticketId, content) => {
+      const message = { ...content, id: crypto.randomUUID(), at: new Date().toISOString() };
+      update(ticketId, (current) => {
+        if (current.status === "closed") throw new HandoffError("This chat has ended.");
+        return { ...current, messages: [...current.messages, message] };
+      });
+      emit({ type: "message", ticketId, message });
+      return message;
+    },
+
+    close: async (ticketId, by) => {
+      const ticket = update(ticketId, (current) => {
+        if (current.status === "closed") return current;
+        const closedAt = new Date().toISOString();
+        const who = by === "agent" ? current.agent?.name ?? "The agent" : "The customer";
+        const note = { id: crypto.randomUUID(), from: "system" as const, text: `${who} ended the chat.`, at: closedAt };
+        return { ...current, status: "closed", closedAt, messages: [...current.messages, note] };
+      });
+      emit({ type: "ticket", ticket });
+      return ticket;
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
@@ -0,0 +1,73 @@
+export interface AgentProfile {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+}
+
+export type HandoffStatus = "waiting" | "active" | "closed";
+
+export interface HandoffMessage {
+  id: string;
+  // "system" is for notes about the chat itself, like who ended it.
+  from: "customer" | "bot" | "agent" | "system";
+  text: string;
+  at: string;
+  agent?: AgentProfile;
+}
+
+export interface HandoffTicket {
+  id: string;
+  // The widget conversation the ticket was raised from.
+  conversationId: string;
+  customerName?: string;
+  orderId: string | null;
+  // Set when the customer asked to be phoned rather than to chat.
+  callbackPhone?: string;
+  status: HandoffStatus;
+  // The conversation with the bot up to the handoff, so the agent has context.
+  transcript: HandoffMessage[];
+  // Everything said since.
+  messages: HandoffMessage[];
+  agent: AgentProfile | null;
+  createdAt: string;
+  claimedAt: string | null;
+  closedAt: string | null;
+}
+
+export interface HandoffRequest {
+  conversationId: string;
+  customerName?: string;
+  orderId: string | null;
+  callbackPhone?: string;
+  transcript: HandoffMessage[];
+}
+
+// Raises a ticket for the current conversation and says where it is in the queue.
+export type RequestAgent = (
+  signal: AbortSignal,
+  options?: { callbackPhone?: string },
+) => Promise<{ ticket: HandoffTicket; position: number }>;
+
+export type HandoffEvent =
+  // A ticket was raised, claimed or closed.
+  | { type: "ticket"; ticket: HandoffTicket }
+  | { type: "message"; ticketId: string; message: HandoffMessage };
+
+// Carries chats between customers and agents. Every tab connected to the same
+// relay sees every event.
+export interface HandoffRelay {
+  request: (request: HandoffRequest) => Promise<HandoffTicket>;
+  // Oldest first.
+  list: () => Promise<HandoffTicket[]>;
+  claim: (ticketId: string, agent: AgentProfile) => Promise<HandoffTicket>;
+  send: (ticketId: string, message: Omit<HandoffMessage, "id" | "at">) => Promise<HandoffMessage>;
+  close: (ticketId: string, by: "customer" | "agent") => Promise<HandoffTicket>;
+  subscribe: (listener: (event: HandoffEvent) => void) => () => void;
+}
+
+export class HandoffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HandoffError";
+  }
+}
@@ -0,0 +1,33 @@
+import * as en from "./locales/en";
+import * as es from "./locales/es";
+import * as zhCN from "./locales/zh-CN";
+import { locales, type Locale, type Messages, type Vocabulary } from "./types";
+
+export const catalogs: Record<Locale, { messages: Messages; vocabulary: Vocabulary }> = {
+  en,
+  es,
+  "zh-CN": zhCN,
+};
+
+// Each language in its own words, for the switcher.
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  "zh-CN": "简体中文",
+};
+
+export const isLocale = (value: unknown): value is Locale => locales.includes(value as Locale);
+
+// The closest supported locale to a language tag like "es-MX" or "zh-Hans-CN".
+export const resolveLocale = (tag: string | undefined): Locale => {
+  const language = tag?.toLowerCase().split("-")[0];
+  return locales.find((locale) => locale.toLowerCase().split("-")[0] === language) ?? "en";
+};
+
+// A customer can mix languages or switch halfway, so the bot understands the
+// words of every locale whichever one it answers in.
+export const vocabulary = (kind: Exclude<keyof Vocabulary, "intents">) =>
+  locales.flatMap((locale) => catalogs[locale].vocabulary[kind]);
+
+export const intentPhrases = (intentId: string) =>
+  locales.flatMap((locale) => catalogs[locale].vocabulary.intents[intentId] ?? []);
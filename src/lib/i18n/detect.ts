@@ -0,0 +1,25 @@
+import { catalogs } from "./catalog";
+import { locales, type Locale } from "./types";
+
+const HAN = /\p{Script=Han}/u;
+const SPANISH_PUNCTUATION = /[¿¡ñ]/i;
+
+const words = (text: string) =>
+  text.toLowerCase().normalize("NFD").replace(/\p{M}/gu, "").match(/\p{L}+/gu) ?? [];
+
+// The language a message is written in, or null when it doesn't say, e.g. a
+// bare order number. Chinese is told apart by its script and the rest by the
+// common words each locale lists as markers.
+export const detectLocale = (text: string): Locale | null => {
+  if (HAN.test(text)) return "zh-CN";
+  if (SPANISH_PUNCTUATION.test(text)) return "es";
+
+  const tokens = words(text);
+  const scores = locales
+    .map((locale) => ({
+      locale,
+      score: tokens.filter((token) => catalogs[locale].vocabulary.markers.includes(token)).length,
+    }))
+    .sort((a, b) => b.score - a.score);
+  return scores[0].score > 0 && scores[0].score > scores[1].score ? scores[0].locale : null;
+};
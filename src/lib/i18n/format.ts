@@ -0,0 +1,28 @@
+import type { Locale } from "./types";
+
+const FEET_PER_METER = 3.28084;
+const METERS_PER_MILE = 1609.34;
+
+// Only US English gets imperial units.
+const isImperial = (locale: Locale) => locale === "en";
+
+export const formatTime = (at: Date | string, locale: Locale) =>
+  new Date(at).toLocaleTimeString(locale, { hour: "2-digit", minute: "2-digit" });
+
+export const formatDateTime = (at: Date | string, locale: Locale) =>
+  new Date(at).toLocaleString(locale, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+// Altitudes are tracked in feet, e.g. "400 ft" or "122 m".
+export const formatAltitude = (feet: number, locale: Locale) =>
+  isImperial(locale)
+    ? new Intl.NumberFormat(locale, { style: "unit", unit: "foot", maximumFractionDigits: 0 }).format(feet)
+    : new Intl.NumberFormat(locale, { style: "unit", unit: "meter", maximumFractionDigits: 0 }).format(feet / FEET_PER_METER);
+
+export const formatDistance = (meters: number, locale: Locale) =>
+  isImperial(locale)
+    ? new Intl.NumberFormat(locale, { style: "unit", unit: "mile", maximumFractionDigits: 1 }).format(meters / METERS_PER_MILE)
+    : new Intl.NumberFormat(locale, { style: "unit", unit: "kilometer", maximumFractionDigits: 1 }).format(meters / 1000);
+
+// Prices are always in dollars; only how they're written changes.
+export const formatAmount = (amount: number, locale: Locale = "en") =>
+  new Intl.NumberFormat(locale, { style: "currency", currency: "USD" }).format(amount);
@@ -0,0 +1,352 @@
+import type { Vocabulary } from "../types";
+
+// The source catalog: every other locale has to translate each of these keys.
+// `{name}` placeholders are filled in by the translator.
+export const messages = {
+  "order.label": "Order {orderId}",
+  "order.showOnMap": "Show on map",
+  "order.showOnMap.reply": "show {orderId} on the map",
+  "order.cancel": "Cancel this order",
+  "order.cancel.reply": "cancel order {orderId}",
+  "order.reportProblem": "Report a problem",
+  "order.reportProblem.reply": "wrong order {orderId}",
+  "order.summary": "Order {orderId} {stage}",
+  "order.summary.deliveredAt": "{summary} at {time}.",
+  "order.summary.arriving": "{summary}, arriving in about {minutes} minutes.",
+  "order.summary.plain": "{summary}.",
+  "order.enRoute": "🚁 {summary} Your drone flies at {altitude} for safety, and I'll let you know when it's 1 minute away.",
+  "order.status": "🚁 {summary}",
+  "order.notFound": "I couldn't find order {orderId}. Please double-check your order number or contact us if you think this is an error.",
+  "order.verifyFirst": "To keep your orders safe, I can only change order {orderId} once you've shown it's yours. Please confirm the phone number or email on it below, then ask me again.",
+  "orders.compare": "Here's how those {count} orders are doing:",
+  "orders.notFound": "I couldn't find orders {orderIds}. Please double-check the numbers.",
+  "orders.card": "{stage} · {merchant} · {time}",
+  "orders.card.eta": "arriving in {minutes} min",
+  "orders.track": "Track",
+  "orders.track.reply": "track {orderId}",
+  "order.guess": "Did you mean {orderId}?",
+  "order.guess.yes": "Yes, {orderId}",
+  "order.guess.no": "No, a different order",
+  "order.guess.declined": "No problem. What's the order number? It looks like {example}.",
+
+  "stage.Placed": "Placed",
+  "stage.Preparing": "Preparing",
+  "stage.Picked Up": "Picked Up",
+  "stage.Launched": "Launched",
+  "stage.In Transit": "In Transit",
+  "stage.Descending": "Descending",
+  "stage.Delivered": "Delivered",
+  "stage.Failed": "Failed",
+  "stage.Returning": "Returning",
+  "stage.Returned": "Returned",
+  "stage.Cancelled": "Cancelled",
+  "stageDescription.Placed": "has been placed and is waiting for {merchant} to confirm it",
+  "stageDescription.Preparing": "is being prepared by {merchant}",
+  "stageDescription.Picked Up": "has been picked up from {merchant} and is being loaded onto a drone",
+  "stageDescription.Launched": "has just taken off from our hub",
+  "stageDescription.In Transit": "is in the air on its way to you",
+  "stageDescription.Descending": "is descending to your drop-off point right now",
+  "stageDescription.Delivered": "has been delivered",
+  "stageDescription.Failed": "couldn't be delivered",
+  "stageDescription.Returning": "couldn't be delivered, and the drone is flying it back to our hub",
+  "stageDescription.Returned": "couldn't be delivered and is back at our hub",
+  "stageDescription.Cancelled": "has been cancelled",
+
+  "intent.fallback": "I'm here to help with your Nibbly drone delivery! I can track your order, help with issues, or answer questions. What can I assist you with?",
+  "intent.track.ask": "I'll help you track your Nibbly drone delivery! Please provide your order number (format: N001, N002, etc.) and I'll show you exactly where your drone is in Lower Manhattan.",
+  "intent.locate.grounded": "The drone for order {orderId} isn't in the air right now. {summary}",
+  "intent.locate.private": "Order {orderId} {stage} in {area}. To protect our customers' privacy, I can only show the drone's exact location once you confirm it's your order.",
+  "intent.locate.found": "📍 Here's exactly where the drone for order {orderId} is right now:",
+  "intent.locate.ask": "To track your drone, please provide your order number (like N001). I'll show you exactly where it is and when it will arrive!",
+  "intent.timeline.ask": "Which order would you like the timeline for? Share your order number (like N001).",
+  "intent.wrongOrder": "Oh no! I'm sorry your order isn't right. Let's get it fixed.",
+  "intent.claimStatus.ask": "Which order is the claim for? Tell me the claim or order number, like \"claim status N004\".",
+  "intent.claimStatus.notFound": "I couldn't find claim {claimId}.",
+  "intent.claimStatus.none": "I don't see any claims for order {orderId}.",
+  "intent.refund": "I'm sorry something went wrong. Let me check what I can refund for you.",
+  "intent.refundStatus.ask": "Which order is the refund for? Tell me the order number, like \"refund status N004\".",
+  "intent.refundStatus.none": "I don't see any refund requests for order {orderId}.",
+  "intent.refundStatus.request": "Request a refund",
+  "intent.refundStatus.request.reply": "refund {orderId}",
+  "intent.cancel": "I can help cancel your order if the drone hasn't taken off yet.",
+  "intent.help": "Hi! I'm here to help with your Nibbly drone delivery. I can track your drone's location, estimate delivery time, help with incorrect orders, or answer any questions about our service in Lower Manhattan!",
+  "intent.help.track": "Track my order",
+  "intent.help.wrongOrder": "Wrong order",
+  "intent.help.refund": "Refund",
+  "intent.help.cancel": "Cancel order",
+  "intent.help.how": "How it works",
+  "intent.help.person": "Talk to a person",
+  "intent.hello": "Hello! Welcome to Nibbly - Lower Manhattan's fastest drone delivery service! 🚁 How can I help you today?",
+  "intent.hi": "Hi there! Thanks for choosing Nibbly for your delivery needs. I can track your drone, help with order issues, or answer any questions!",
+  "intent.deliveryTime": "Our drones typically deliver within 15 minutes anywhere in Lower Manhattan! Weather conditions may add a few extra minutes for safety.",
+  "intent.eta.arriving": "⏰ Order {orderId} should arrive in about {minutes} minutes.",
+  "intent.eta.ask": "Delivery times depend on your location in Lower Manhattan. Please share your order number and I'll give you the exact ETA!",
+  "intent.late.onSchedule": "Order {orderId} is on schedule - it {stage} and should be with you in about {minutes} minutes.",
+  "intent.late.undeliverable": "I'm really sorry - order {orderId} {stage}. You won't be charged for a delivery we couldn't complete.",
+  "intent.late.ask": "Sorry for the wait! Please share your order number and I'll check whether your drone is running late.",
+  "intent.area": "We serve all of Lower Manhattan from Battery Park to 14th Street. Our drones launch from our hub near the Brooklyn Bridge and can reach you super quickly!",
+  "intent.area.check": "Check my address",
+  "intent.area.check.reply": "is my address covered",
+  "intent.how": "Simple! Order through our app, our drone picks up your items from local partners, and flies directly to your location. You'll get real-time tracking the whole way!",
+  "intent.how.order": "1. Order",
+  "intent.how.order.detail": "Pick from hundreds of local partners in the Nibbly app.",
+  "intent.how.pickUp": "2. Pick up",
+  "intent.how.pickUp.detail": "A drone collects your items straight from the merchant.",
+  "intent.how.fly": "3. Fly",
+  "intent.how.fly.detail": "It flies at {altitude} directly to you. Track it live the whole way.",
+  "intent.thanks": "You're very welcome! Enjoy your Nibbly delivery! 🚁 Anything else I can help with?",
+  "intent.goodbye": "Thanks for using Nibbly! Have a great day and don't hesitate to reach out if you need anything! 🚁",
+
+  "dialog.yes": "Yes",
+  "dialog.no": "No",
+  "dialog.neverMind": "Never mind",
+  "dialog.stopped": "No problem, I've stopped that. What else can I help you with?",
+  "dialog.confirmRetry": "Sorry, I didn't catch that. Please answer yes or no.",
+  "dialog.declined": "Okay, I've left it there.",
+  "dialog.order.prompt": "What's your order number? (format: N001, N002, etc.)",
+  "dialog.order.retry": "I couldn't find that order. Please double-check your order number (like N001), or say \"never mind\" to stop.",
+  "dialog.place.prompt": "Sure! What's the address or neighbourhood? (e.g. \"350 Broadway\" or \"SoHo\")",
+  "dialog.place.retry": "Sorry, I don't know that place. Try a street address in Manhattan, a ZIP code, a neighbourhood or a landmark, or say \"never mind\" to stop.",
+  "dialog.phone.prompt": "Sure. What number should we call you on?",
+  "dialog.phone.retry": "That doesn't look like a full phone number. Please include the area code, or say \"never mind\" to stop.",
+  "dialog.reason.prompt": "Sorry to hear that. What went wrong with the order?",
+  "dialog.reason.retry": "Sorry, I didn't catch what went wrong. Please pick one of the options, or say \"never mind\" to stop.",
+  "dialog.items.prompt": "Which items were affected? Tell me the items, or \"all of them\".",
+  "dialog.items.all": "All of them",
+  "dialog.items.retry": "I couldn't match that to anything on the order. Please pick the items from the list, or say \"never mind\" to stop.",
+  "dialog.cancelReason.prompt": "Could you tell me why you'd like to cancel?",
+  "dialog.cancelReason.retry": "Please tell me in a few words why you'd like to cancel, or say \"never mind\" to stop.",
+
+  "coverage.covered": "Yes, we deliver to {place}! 🚁 A drone from our hub near the Brooklyn Bridge gets there in about {minutes} minutes of flying.",
+  "coverage.outside": "Sorry, {place} is outside our service area for now. The closest we fly is near {nearest}, about {distance} away, which is around {minutes} minutes from our hub.",
+
+  "flow.claim.complete": "Mark what's wrong below, add photos if anything arrived damaged, and choose how you'd like us to fix it.",
+  "flow.refund.confirm": "Just to confirm: you'd like a refund of {amount} for {items} on order {orderId} ({reason})?",
+  "flow.refund.yes": "Yes, request refund",
+  "flow.refund.no": "No, don't",
+  "flow.refund.complete": "Okay, I'm submitting your refund request for order {orderId}...",
+  "flow.refund.declined": "Okay, I haven't submitted a refund. Anything else I can help with?",
+  "flow.handoff.complete": "Of course. I'm passing this conversation to our support team. They'll see everything we've talked about, so you won't need to repeat yourself.",
+  "flow.orderList.complete": "Let me pull up your orders.",
+  "flow.callback.complete": "Thanks, I'm booking a call with our support team...",
+  "flow.cancel.confirm": "Just to confirm: you'd like to cancel order {orderId}? This can't be undone.",
+  "flow.cancel.yes": "Yes, cancel {orderId}",
+  "flow.cancel.no": "No, keep my order",
+  "flow.cancel.complete": "Okay, I'm cancelling order {orderId} with the hub now...",
+  "flow.cancel.declined": "Okay, your order is still on its way! 🚁",
+
+  "escalation.offer": "Would you like to talk to someone from our support team, or have us call you back?",
+  "escalation.callBack": "Call me back",
+  "escalation.callBack.reply": "call me back",
+  "escalation.fallback": "I'm sorry, I'm clearly not understanding you, and I know how frustrating that is.",
+  "escalation.dialog": "I'm really sorry about this. If you'd rather talk to a person at any point, just say so.",
+  "escalation.apology": "I'm really sorry about this. I can tell it's been frustrating.",
+
+  "effect.cancel.done": "Order {orderId} has been cancelled. Your cancellation reference is {reference}.",
+  "effect.cancel.noCharge": "You won't be charged for it. Is there anything else I can help you with?",
+  "effect.cancel.notCancelled": "Order {orderId} was not cancelled.",
+  "effect.cancel.refused": "Order {orderId} can't be cancelled any more.",
+  "effect.cancel.reference": "Your cancellation reference is {reference}.",
+  "effect.refund.approved": "Refund approved · reference {refundId}",
+  "effect.refund.requested": "Refund requested · reference {refundId}",
+  "effect.refund.followUp": "{refund} Ask me about your refund status any time.",
+  "effect.refund.notSubmitted": "No refund was submitted.",
+  "effect.refund.refused": "Order {orderId} can't be refunded.",
+  "effect.handoff.already": "You're already chatting with {agent} from our support team.",
+  "effect.handoff.transferring": "Transferring you to a support agent",
+  "effect.callback.requested": "Callback requested",
+  "effect.callback.booked": "Someone from our support team will call you at {phone} as soon as they're free.",
+  "effect.callback.ahead.one": "There is 1 customer ahead of you.",
+  "effect.callback.ahead.other": "There are {count} customers ahead of you.",
+  "effect.failed.cancel": "I couldn't reach the hub, so order {orderId} has not been cancelled. Please try again in a moment.",
+  "effect.failed.refund": "I couldn't reach our refund system, so nothing has been submitted for order {orderId}. Please try again in a moment.",
+  "effect.failed.agent": "I couldn't reach our support team just now. Please try again in a moment.",
+  "effect.failed.callback": "I couldn't book your callback just now. Please try again in a moment.",
+  "effect.failed.orders": "I couldn't load your orders just now. Please try again in a moment, or send me an order number.",
+  "effect.orders.anonymous": "I can only list your orders once you're signed in. Until then, send me an order number like N001 and I'll look it up.",
+  "effect.orders.none": "I don't see any recent orders on your account. If you have an order number, send it and I'll look it up.",
+
+  "handoff.position.next": "You're next in line. An agent will be with you shortly.",
+  "handoff.position.other": "You're number {position} in line. An agent will be with you as soon as possible.",
+  "handoff.joined": "{agent} from our support team joined the chat",
+  "handoff.left": "{agent} has left the chat. You're back with our assistant.",
+  "handoff.leftQueue": "You've left the queue.",
+
+  "cancellation.earlier": "earlier",
+  "cancellation.alreadyCancelled": "Order {orderId} was already cancelled at {time}, so there's nothing more to do.",
+  "cancellation.delivered": "Order {orderId} was delivered at {time}, so it can't be cancelled. If something was wrong with it, I can help you report a problem or ask for a refund.",
+  "cancellation.launched": "I'm sorry, order {orderId} can't be cancelled: the drone took off at {time} and we can't call it back mid-flight. If there's a problem once it lands, I can help you get a refund.",
+  "cancellation.undeliverable": "Order {orderId} couldn't be delivered, so it has already been stopped and there's nothing to cancel. I can help you with a refund instead.",
+  "cancellation.loading": "I'm sorry, order {orderId} can't be cancelled any more: it has been picked up from {merchant} and is being loaded onto a drone.",
+  "cancellation.pastCutoff": "I'm sorry, order {orderId} can't be cancelled any more: {since} more than {minutes} minutes ago, which is past our cancellation cutoff.",
+  "cancellation.sincePreparing": "{merchant} started preparing it",
+  "cancellation.sinceStage": "it was {stage}",
+
+  "refundReason.missing-item": "Something was missing",
+  "refundReason.wrong-item": "I got the wrong item",
+  "refundReason.damaged": "Something arrived damaged",
+  "refundReason.quality": "The food wasn't right",
+  "refundReason.not-delivered": "It never arrived",
+  "refund.summary": "Refund {refundId} for {amount} ({items})",
+  "refund.approved": "{summary} was approved on {date}. It'll be back on your card within 3-5 business days.",
+  "refund.pending": "{summary} is waiting for review by our support team, which usually takes a few hours.",
+  "refund.rejected": "{summary} was declined on {date}. Please contact our support team if you think that's a mistake.",
+  "refund.refusal.unknownReason": "I'm sorry, I can't refund order {orderId} for that reason.",
+  "refund.refusal.notDeliveredYet": "Order {orderId} hasn't been delivered yet, so there's nothing to refund for that. If something's wrong once it arrives, I can help then.",
+  "refund.refusal.notEligible": "Order {orderId} doesn't qualify for that kind of refund.",
+  "refund.refusal.cancelled": "Order {orderId} was cancelled, so you weren't charged for it and there's nothing to refund.",
+  "refund.refusal.expired": "I'm sorry, refunds for \"{reason}\" have to be asked for within {hours} hours of delivery, and that time has passed for order {orderId}.",
+  "refund.refusal.noItems": "None of the items you picked can still be refunded on order {orderId}.",
+  "refund.refusal.alreadyRefunded": "Everything on order {orderId} has already been refunded or is waiting for a refund.",
+
+  "claimProblem.missing": "Missing",
+  "claimProblem.wrong": "Wrong item",
+  "claimProblem.damaged": "Damaged",
+  "claimResolution.replacement": "Send a replacement drone",
+  "claimResolution.refund": "Refund the affected items",
+  "claimResolution.credit": "Nibbly credit for my next order",
+  "claim.refusal.notDeliveredYet": "Order {orderId} hasn't been delivered yet. If anything's wrong once it arrives, I can help you report it then.",
+  "claim.refusal.cancelled": "Order {orderId} was cancelled, so there's nothing to report a problem with.",
+  "claim.refusal.expired": "I'm sorry, problems have to be reported within {hours} hours of delivery, and that time has passed for order {orderId}. Please contact our support team.",
+  "claim.invalid.noItems": "Pick at least one item that was missing, wrong or damaged.",
+  "claim.invalid.unknownItem": "{sku} isn't on order {orderId}.",
+  "claim.invalid.quantity": "Order {orderId} only had {quantity}× {name}.",
+  "claim.invalid.resolution": "Choose how you'd like us to fix it.",
+  "claim.invalid.tooManyPhotos": "Attach at most {max} photos.",
+  "claim.invalid.photoNeeded": "Please add a photo of the damaged items.",
+  "claim.invalid.photoTooLarge": "One of the photos is too large. Please try a smaller one.",
+  "claim.promised.replacement": "we'll send a replacement drone",
+  "claim.promised.refund": "we'll refund the affected items",
+  "claim.promised.credit": "we'll add Nibbly credit to your account",
+  "claim.delivered.replacement": "a replacement drone is on its way",
+  "claim.delivered.refund": "the affected items have been refunded",
+  "claim.delivered.credit": "Nibbly credit has been added to your account",
+  "claim.item": "{quantity}× {name} {problem}",
+  "claim.summary": "Claim {claimId} for order {orderId} ({items})",
+  "claim.inReview": "{summary} is being reviewed by our team. Once it's approved, {promise}, usually within the hour.",
+  "claim.resolved": "{summary} has been resolved: {outcome}.",
+  "claim.rejected": "{summary} was declined. Please contact our support team if you think that's a mistake.",
+
+  "chat.greeting": "Hi {name}! I'm your Nibbly support assistant. I can help track your drone delivery, handle order issues, or answer questions about our service in Lower Manhattan! 🚁",
+  "chat.orderIntro": "I can see you're looking at order {orderId}. Ask me anything about it!",
+  "chat.quick.track": "Track Drone",
+  "chat.quick.wrongOrder": "Wrong Order",
+  "chat.quick.help": "Help",
+  "chat.quick.help.reply": "I need help",
+  "chat.open": "Open {title}",
+  "chat.language": "Language",
+  "chat.pastConversations": "Past conversations",
+  "chat.startNew": "Start new conversation",
+  "chat.conversations": "Conversations",
+  "chat.support": "{title} support",
+  "chat.waiting": "Waiting for an agent",
+  "chat.waitingInLine": "Waiting for an agent · #{position} in line",
+  "chat.loadingOrder": "Loading order…",
+  "chat.orderUnavailable": "Couldn't load order details",
+  "chat.orderEta": "{status} · ETA {minutes} min",
+  "chat.chattingWith": "You're chatting with {agent} from our support team",
+  "chat.nextAgent": "Your messages will go to the next available agent",
+  "chat.endChat": "End chat",
+  "chat.leaveQueue": "Leave queue",
+  "chat.placeholder": "Ask about your order...",
+  "chat.messageAgent": "Message {agent}...",
+  "chat.agentLabel": "{agent} · Support",
+  "chat.oneMinuteAway": "⏰ Heads up! Your drone for order {orderId} is 1 minute away. Get ready to wave hello! 👋",
+  "chat.unreachable": "Sorry, I can't reach our order system right now. Please try again in a moment.",
+  "chat.undelivered": "Your message didn't reach our support team. Please try again.",
+
+  "history.new": "New conversation",
+  "history.loading": "Loading conversations…",
+  "history.unavailable": "Couldn't load your past conversations.",
+  "history.empty": "Your past conversations will show up here.",
+  "history.preview.replies": "Suggested replies",
+  "history.preview.status": "Order {orderId} status",
+  "history.preview.map": "Live map for order {orderId}",
+  "history.preview.timeline": "Order {orderId} timeline",
+  "history.preview.comparison": "Orders {orderIds}",
+  "history.preview.verify": "Verify order {orderId}",
+  "history.preview.claim": "Claim {claimId} submitted",
+  "history.preview.claimForm": "Report a problem with order {orderId}",
+  "history.preview.cards": "Cards",
+
+  "status.live": "Live",
+  "status.summary": "{merchant} · {count} items · {area}",
+  "status.unavailable": "Live tracking is unavailable right now.",
+  "comparison.order": "Order",
+  "comparison.status": "Status",
+  "comparison.eta": "ETA",
+  "comparison.merchant": "From",
+  "comparison.minutes": "{minutes} min",
+  "comparison.loading": "Loading…",
+  "comparison.notFound": "Not found",
+  "status.connecting": "Connecting to your drone…",
+  "status.eta": "ETA {eta}",
+  "status.arrived": "Arrived",
+  "status.verify": "Verify it's you to see the exact location",
+
+  "timeline.loading": "Loading timeline…",
+  "timeline.unavailable": "The timeline is unavailable right now.",
+  "timeline.progress": "Delivery progress: {stage}",
+  "track.title": "Tracking order {orderId}",
+  "track.loadError": "We couldn't load this order right now. Please refresh in a moment.",
+  "track.notFound": "We couldn't find order {orderId}. Check the link in your confirmation message, or ask in the chat.",
+  "track.deliveringTo": "Delivering to {area}",
+  "track.deliveredTo": "Delivered to {area}",
+  "track.liveMap": "Live map",
+  "track.total": "Total",
+
+  "map.hub": "■ Hub",
+  "map.you": "● You",
+  "map.drone": "🚁 Drone",
+  "map.unavailable": "Live position is unavailable right now.",
+  "map.deliveringTo": "Delivering to {address}",
+
+  "verify.done": "Verified - live location unlocked for order {orderId}.",
+  "verify.contact": "Confirm the phone number or email on order {orderId}:",
+  "verify.contact.placeholder": "Phone or email",
+  "verify.send": "Send code",
+  "verify.code": "Enter the {length}-digit code we sent to {sentTo}:",
+  "verify.demoCode": "Demo code: {code}",
+  "verify.changeContact": "Use a different phone or email",
+  "verify.error.mismatch": "That doesn't match the phone number or email on this order.",
+  "verify.error.invalid-code": "That code isn't right. Please check it and try again.",
+  "verify.error.unavailable": "We couldn't check that right now. Please try again in a moment.",
+
+  "claimForm.submitted": "Claim {claimId} submitted for order {orderId}. Ask me \"claim status\" any time to see where it stands.",
+  "claimForm.loading": "Loading order {orderId}…",
+  "claimForm.photoLimit": "You can attach up to {max} photos.",
+  "claimForm.whatsWrong": "What's wrong with order {orderId}?",
+  "claimForm.howMany": "How many {name}",
+  "claimForm.problemWith": "Problem with {name}",
+  "claimForm.photos.required": "Photos (required for damaged items)",
+  "claimForm.photos.optional": "Photos (optional)",
+  "claimForm.photo": "Photo {number}",
+  "claimForm.removePhoto": "Remove photo {number}",
+  "claimForm.howToFix": "How should we fix it?",
+  "claimForm.note": "Anything else we should know? (optional)",
+  "claimForm.working": "Working…",
+  "claimForm.submit": "Submit claim",
+  "claimForm.error.verify": "Please verify order {orderId} first, then submit the claim again.",
+  "claimForm.error.unavailable": "We couldn't send your claim just now. Please try again in a moment.",
+  "photo.error.not-image": "{name} isn't an image.",
+  "photo.error.too-large": "{name} is larger than {size}.",
+  "photo.error.unreadable": "{name} couldn't be read as a photo.",
+  "photo.error.too-detailed": "{name} is too detailed to shrink below {size}.",
+  "photo.error.compress-failed": "Couldn't compress that photo.",
+};
+
+// English phrases live on the intents themselves (`Intent.examples`).
+export const vocabulary: Vocabulary = {
+  intents: {},
+  yes: ["yes", "yeah", "yep", "yup", "sure", "confirm", "correct", "ok", "okay", "y"],
+  no: ["no", "nope", "nah", "dont", "n"],
+  exit: ["never mind", "nevermind", "forget it", "stop", "quit", "start over"],
+  everything: ["all", "everything", "whole", "entire"],
+  orderWords: ["order"],
+  numberSigns: ["number", "num", "no.", "nr"],
+  stopWords: ["a", "an", "the", "is", "it", "my", "me", "i", "to", "of", "for", "and", "or", "on", "in", "at", "do", "does", "can", "you", "your", "please"],
+  markers: [
+    "the", "my", "is", "where", "what", "when", "how", "order", "hello", "hi", "hey",
+    "track", "help", "thanks", "thank", "cancel", "refund", "wrong", "please", "drone",
+  ],
+};
@@ -0,0 +1,379 @@
+import type { Messages, Vocabulary } from "../types";
+
+export const messages: Messages = {
+  "order.label": "Pedido {orderId}",
+  "order.showOnMap": "Ver en el mapa",
+  "order.showOnMap.reply": "mostrar {orderId} en el mapa",
+  "order.cancel": "Cancelar este pedido",
+  "order.cancel.reply": "cancelar pedido {orderId}",
+  "order.reportProblem": "Reportar un problema",
+  "order.reportProblem.reply": "pedido equivocado {orderId}",
+  "order.summary": "El pedido {orderId} {stage}",
+  "order.summary.deliveredAt": "{summary} a las {time}.",
+  "order.summary.arriving": "{summary} y llegará en unos {minutes} minutos.",
+  "order.summary.plain": "{summary}.",
+  "order.enRoute": "🚁 {summary} Por seguridad, tu dron vuela a {altitude} y te avisaré cuando esté a 1 minuto.",
+  "order.status": "🚁 {summary}",
+  "order.notFound": "No encontré el pedido {orderId}. Revisa el número de pedido o contáctanos si crees que es un error.",
+  "order.verifyFirst": "Para proteger tus pedidos, solo puedo modificar el pedido {orderId} cuando confirmes que es tuyo. Confirma abajo el teléfono o el correo del pedido y vuelve a pedírmelo.",
+  "orders.compare": "Así van esos {count} pedidos:",
+  "orders.notFound": "No encontré los pedidos {orderIds}. Revisa los números, por favor.",
+  "orders.card": "{stage} · {merchant} · {time}",
+  "orders.card.eta": "llega en {minutes} min",
+  "orders.track": "Rastrear",
+  "orders.track.reply": "rastrear {orderId}",
+  "order.guess": "¿Te refieres al pedido {orderId}?",
+  "order.guess.yes": "Sí, {orderId}",
+  "order.guess.no": "No, es otro pedido",
+  "order.guess.declined": "Sin problema. ¿Cuál es el número de pedido? Tiene este formato: {example}.",
+
+  "stage.Placed": "Realizado",
+  "stage.Preparing": "En preparación",
+  "stage.Picked Up": "Recogido",
+  "stage.Launched": "Despegado",
+  "stage.In Transit": "En camino",
+  "stage.Descending": "Descendiendo",
+  "stage.Delivered": "Entregado",
+  "stage.Failed": "Fallido",
+  "stage.Returning": "Regresando",
+  "stage.Returned": "Devuelto",
+  "stage.Cancelled": "Cancelado",
+  "stageDescription.Placed": "se ha realizado y está esperando que {merchant} lo confirme",
+  "stageDescription.Preparing": "se está preparando en {merchant}",
+  "stageDescription.Picked Up": "se recogió en {merchant} y se está cargando en un dron",
+  "stageDescription.Launched": "acaba de despegar de nuestra base",
+  "stageDescription.In Transit": "está en el aire camino a ti",
+  "stageDescription.Descending": "está descendiendo ahora mismo a tu punto de entrega",
+  "stageDescription.Delivered": "ha sido entregado",
+  "stageDescription.Failed": "no se pudo entregar",
+  "stageDescription.Returning": "no se pudo entregar y el dron lo está llevando de vuelta a nuestra base",
+  "stageDescription.Returned": "no se pudo entregar y ya está de vuelta en nuestra base",
+  "stageDescription.Cancelled": "ha sido cancelado",
+
+  "intent.fallback": "¡Estoy aquí para ayudarte con tu entrega en dron de Nibbly! Puedo rastrear tu pedido, ayudarte con problemas o responder preguntas. ¿En qué te puedo ayudar?",
+  "intent.track.ask": "¡Te ayudo a rastrear tu entrega en dron de Nibbly! Dime tu número de pedido (formato: N001, N002, etc.) y te mostraré exactamente dónde está tu dron en el Bajo Manhattan.",
+  "intent.locate.grounded": "El dron del pedido {orderId} no está en el aire ahora mismo. {summary}",
+  "intent.locate.private": "El pedido {orderId} {stage} en {area}. Para proteger la privacidad de nuestros clientes, solo puedo mostrar la ubicación exacta del dron cuando confirmes que es tu pedido.",
+  "intent.locate.found": "📍 Aquí está exactamente el dron del pedido {orderId} ahora mismo:",
+  "intent.locate.ask": "Para rastrear tu dron, dime tu número de pedido (como N001). ¡Te mostraré exactamente dónde está y cuándo llegará!",
+  "intent.timeline.ask": "¿De qué pedido quieres ver el historial? Dime tu número de pedido (como N001).",
+  "intent.wrongOrder": "¡Vaya! Siento que tu pedido no esté bien. Vamos a arreglarlo.",
+  "intent.claimStatus.ask": "¿De qué pedido es la reclamación? Dime el número de reclamación o de pedido, como \"estado del reclamo N004\".",
+  "intent.claimStatus.notFound": "No encontré la reclamación {claimId}.",
+  "intent.claimStatus.none": "No veo ninguna reclamación para el pedido {orderId}.",
+  "intent.refund": "Siento que algo haya salido mal. Déjame ver qué te puedo reembolsar.",
+  "intent.refundStatus.ask": "¿De qué pedido es el reembolso? Dime el número de pedido, como \"estado del reembolso N004\".",
+  "intent.refundStatus.none": "No veo ninguna solicitud de reembolso para el pedido {orderId}.",
+  "intent.refundStatus.request": "Solicitar un reembolso",
+  "intent.refundStatus.request.reply": "reembolso {orderId}",
+  "intent.cancel": "Puedo ayudarte a cancelar tu pedido si el dron aún no ha despegado.",
+  "intent.help": "¡Hola! Estoy aquí para ayudarte con tu entrega en dron de Nibbly. Puedo rastrear la ubicación de tu dron, estimar el tiempo de entrega, ayudarte con pedidos incorrectos o responder cualquier pregunta sobre nuestro servicio en el Bajo Manhattan.",
+  "intent.help.track": "Rastrear mi pedido",
+  "intent.help.wrongOrder": "Pedido equivocado",
+  "intent.help.refund": "Reembolso",
+  "intent.help.cancel": "Cancelar pedido",
+  "intent.help.how": "Cómo funciona",
+  "intent.help.person": "Hablar con una persona",
+  "intent.hello": "¡Hola! Bienvenido a Nibbly, el servicio de entrega en dron más rápido del Bajo Manhattan. 🚁 ¿En qué te puedo ayudar hoy?",
+  "intent.hi": "¡Hola! Gracias por elegir Nibbly para tus entregas. Puedo rastrear tu dron, ayudarte con problemas de pedidos o responder cualquier pregunta.",
+  "intent.deliveryTime": "¡Nuestros drones suelen entregar en menos de 15 minutos en cualquier punto del Bajo Manhattan! Por seguridad, el clima puede añadir unos minutos.",
+  "intent.eta.arriving": "⏰ El pedido {orderId} debería llegar en unos {minutes} minutos.",
+  "intent.eta.ask": "El tiempo de entrega depende de tu ubicación en el Bajo Manhattan. ¡Dime tu número de pedido y te daré la hora exacta de llegada!",
+  "intent.late.onSchedule": "El pedido {orderId} va a tiempo: {stage} y debería llegar en unos {minutes} minutos.",
+  "intent.late.undeliverable": "Lo siento mucho: el pedido {orderId} {stage}. No se te cobrará una entrega que no pudimos completar.",
+  "intent.late.ask": "¡Perdona la espera! Dime tu número de pedido y comprobaré si tu dron va con retraso.",
+  "intent.area": "Cubrimos todo el Bajo Manhattan, desde Battery Park hasta la calle 14. ¡Nuestros drones despegan desde nuestra base junto al puente de Brooklyn y llegan a ti rapidísimo!",
+  "intent.area.check": "Comprobar mi dirección",
+  "intent.area.check.reply": "cubren mi dirección",
+  "intent.how": "¡Es muy fácil! Pide desde nuestra app, nuestro dron recoge tus productos en comercios locales y vuela directamente hasta ti. ¡Podrás seguirlo en tiempo real todo el camino!",
+  "intent.how.order": "1. Pide",
+  "intent.how.order.detail": "Elige entre cientos de comercios locales en la app de Nibbly.",
+  "intent.how.pickUp": "2. Recogida",
+  "intent.how.pickUp.detail": "Un dron recoge tus productos directamente en el comercio.",
+  "intent.how.fly": "3. Vuelo",
+  "intent.how.fly.detail": "Vuela a {altitude} directamente hasta ti. Síguelo en vivo todo el camino.",
+  "intent.thanks": "¡De nada! ¡Disfruta tu entrega de Nibbly! 🚁 ¿Te puedo ayudar con algo más?",
+  "intent.goodbye": "¡Gracias por usar Nibbly! Que tengas un gran día y escríbenos si necesitas algo. 🚁",
+
+  "dialog.yes": "Sí",
+  "dialog.no": "No",
+  "dialog.neverMind": "Olvídalo",
+  "dialog.stopped": "No hay problema, lo he dejado. ¿En qué más te puedo ayudar?",
+  "dialog.confirmRetry": "Perdona, no te entendí. Responde sí o no.",
+  "dialog.declined": "De acuerdo, lo dejamos así.",
+  "dialog.order.prompt": "¿Cuál es tu número de pedido? (formato: N001, N002, etc.)",
+  "dialog.order.retry": "No encontré ese pedido. Revisa tu número de pedido (como N001) o di \"olvídalo\" para parar.",
+  "dialog.place.prompt": "¡Claro! ¿Cuál es la dirección o el barrio? (p. ej. \"350 Broadway\" o \"SoHo\")",
+  "dialog.place.retry": "Perdona, no conozco ese lugar. Prueba con una dirección de Manhattan, un código postal, un barrio o un lugar conocido, o di \"olvídalo\" para parar.",
+  "dialog.phone.prompt": "Claro. ¿A qué número te llamamos?",
+  "dialog.phone.retry": "Eso no parece un número de teléfono completo. Incluye el código de área o di \"olvídalo\" para parar.",
+  "dialog.reason.prompt": "Siento oír eso. ¿Qué salió mal con el pedido?",
+  "dialog.reason.retry": "Perdona, no entendí qué salió mal. Elige una de las opciones o di \"olvídalo\" para parar.",
+  "dialog.items.prompt": "¿Qué productos se vieron afectados? Dime cuáles, o \"todos\".",
+  "dialog.items.all": "Todos",
+  "dialog.items.retry": "No encontré eso en el pedido. Elige los productos de la lista o di \"olvídalo\" para parar.",
+  "dialog.cancelReason.prompt": "¿Me puedes decir por qué quieres cancelarlo?",
+  "dialog.cancelReason.retry": "Cuéntame en pocas palabras por qué quieres cancelar, o di \"olvídalo\" para parar.",
+
+  "coverage.covered": "¡Sí, entregamos en {place}! 🚁 Un dron desde nuestra base junto al puente de Brooklyn llega en unos {minutes} minutos de vuelo.",
+  "coverage.outside": "Lo siento, {place} está fuera de nuestra zona de servicio por ahora. Lo más cerca que volamos es cerca de {nearest}, a unos {distance}, a unos {minutes} minutos de nuestra base.",
+
+  "flow.claim.complete": "Marca abajo qué está mal, añade fotos si algo llegó dañado y elige cómo quieres que lo solucionemos.",
+  "flow.refund.confirm": "Para confirmar: ¿quieres un reembolso de {amount} por {items} del pedido {orderId} ({reason})?",
+  "flow.refund.yes": "Sí, solicitar reembolso",
+  "flow.refund.no": "No, no lo hagas",
+  "flow.refund.complete": "De acuerdo, estoy enviando tu solicitud de reembolso del pedido {orderId}...",
+  "flow.refund.declined": "De acuerdo, no he enviado ningún reembolso. ¿Te puedo ayudar con algo más?",
+  "flow.handoff.complete": "Por supuesto. Paso esta conversación a nuestro equipo de soporte. Verán todo lo que hemos hablado, así que no tendrás que repetirlo.",
+  "flow.orderList.complete": "Voy a buscar tus pedidos.",
+  "flow.callback.complete": "Gracias, estoy programando una llamada con nuestro equipo de soporte...",
+  "flow.cancel.confirm": "Para confirmar: ¿quieres cancelar el pedido {orderId}? No se puede deshacer.",
+  "flow.cancel.yes": "Sí, cancelar {orderId}",
+  "flow.cancel.no": "No, mantener mi pedido",
+  "flow.cancel.complete": "De acuerdo, estoy cancelando el pedido {orderId} con la base...",
+  "flow.cancel.declined": "¡De acuerdo, tu pedido sigue en camino! 🚁",
+
+  "escalation.offer": "¿Quieres hablar con alguien de nuestro equipo de soporte o prefieres que te llamemos?",
+  "escalation.callBack": "Llámenme",
+  "escalation.callBack.reply": "llámenme",
+  "escalation.fallback": "Lo siento, está claro que no te estoy entendiendo, y sé lo frustrante que es.",
+  "escalation.dialog": "Lo siento mucho. Si en algún momento prefieres hablar con una persona, solo dilo.",
+  "escalation.apology": "Lo siento mucho. Entiendo que esto ha sido frustrante.",
+
+  "effect.cancel.done": "El pedido {orderId} ha sido cancelado. Tu referencia de cancelación es {reference}.",
+  "effect.cancel.noCharge": "No se te cobrará. ¿Te puedo ayudar con algo más?",
+  "effect.cancel.notCancelled": "El pedido {orderId} no se canceló.",
+  "effect.cancel.refused": "El pedido {orderId} ya no se puede cancelar.",
+  "effect.cancel.reference": "Tu referencia de cancelación es {reference}.",
+  "effect.refund.approved": "Reembolso aprobado · referencia {refundId}",
+  "effect.refund.requested": "Reembolso solicitado · referencia {refundId}",
+  "effect.refund.followUp": "{refund} Pregúntame por el estado de tu reembolso cuando quieras.",
+  "effect.refund.notSubmitted": "No se envió ningún reembolso.",
+  "effect.refund.refused": "El pedido {orderId} no se puede reembolsar.",
+  "effect.handoff.already": "Ya estás hablando con {agent} de nuestro equipo de soporte.",
+  "effect.handoff.transferring": "Te estamos transfiriendo a un agente de soporte",
+  "effect.callback.requested": "Llamada solicitada",
+  "effect.callback.booked": "Alguien de nuestro equipo de soporte te llamará al {phone} en cuanto esté disponible.",
+  "effect.callback.ahead.one": "Hay 1 cliente antes que tú.",
+  "effect.callback.ahead.other": "Hay {count} clientes antes que tú.",
+  "effect.failed.cancel": "No pude contactar con la base, así que el pedido {orderId} no se ha cancelado. Inténtalo de nuevo en un momento.",
+  "effect.failed.refund": "No pude contactar con nuestro sistema de reembolsos, así que no se ha enviado nada para el pedido {orderId}. Inténtalo de nuevo en un momento.",
+  "effect.failed.agent": "No pude contactar con nuestro equipo de soporte ahora mismo. Inténtalo de nuevo en un momento.",
+  "effect.failed.callback": "No pude programar tu llamada ahora mismo. Inténtalo de nuevo en un momento.",
+  "effect.failed.orders": "No pude cargar tus pedidos ahora mismo. Inténtalo de nuevo en un momento o envíame un número de pedido.",
+  "effect.orders.anonymous": "Solo puedo mostrar tus pedidos cuando hayas iniciado sesión. Mientras tanto, envíame un número de pedido como N001 y lo busco.",
+  "effect.orders.none": "No veo pedidos recientes en tu cuenta. Si tienes un número de pedido, envíamelo y lo busco.",
+
+  "handoff.position.next": "Eres el siguiente. Un agente te atenderá en breve.",
+  "handoff.position.other": "Eres el número {position} en la fila. Un agente te atenderá lo antes posible.",
+  "handoff.joined": "{agent} de nuestro equipo de soporte se unió al chat",
+  "handoff.left": "{agent} ha salido del chat. Vuelves a hablar con nuestro asistente.",
+  "handoff.leftQueue": "Has salido de la fila.",
+
+  "cancellation.earlier": "antes",
+  "cancellation.alreadyCancelled": "El pedido {orderId} ya se canceló a las {time}, así que no hay nada más que hacer.",
+  "cancellation.delivered": "El pedido {orderId} se entregó a las {time}, así que no se puede cancelar. Si algo estaba mal, puedo ayudarte a reportar un problema o pedir un reembolso.",
+  "cancellation.launched": "Lo siento, el pedido {orderId} no se puede cancelar: el dron despegó a las {time} y no podemos hacerlo volver en pleno vuelo. Si hay algún problema cuando aterrice, puedo ayudarte a conseguir un reembolso.",
+  "cancellation.undeliverable": "El pedido {orderId} no se pudo entregar, así que ya se detuvo y no hay nada que cancelar. Puedo ayudarte con un reembolso.",
+  "cancellation.loading": "Lo siento, el pedido {orderId} ya no se puede cancelar: se recogió en {merchant} y se está cargando en un dron.",
+  "cancellation.pastCutoff": "Lo siento, el pedido {orderId} ya no se puede cancelar: {since} hace más de {minutes} minutos, y ya pasó nuestro plazo de cancelación.",
+  "cancellation.sincePreparing": "{merchant} empezó a prepararlo",
+  "cancellation.sinceStage": "pasó a {stage}",
+
+  "refundReason.missing-item": "Faltaba algo",
+  "refundReason.wrong-item": "Me llegó un producto equivocado",
+  "refundReason.damaged": "Algo llegó dañado",
+  "refundReason.quality": "La comida no estaba bien",
+  "refundReason.not-delivered": "Nunca llegó",
+  "refund.summary": "El reembolso {refundId} de {amount} ({items})",
+  "refund.approved": "{summary} se aprobó el {date}. Volverá a tu tarjeta en 3 a 5 días hábiles.",
+  "refund.pending": "{summary} está pendiente de revisión por nuestro equipo de soporte, lo que suele tardar unas horas.",
+  "refund.rejected": "{summary} se rechazó el {date}. Contacta con nuestro equipo de soporte si crees que es un error.",
+  "refund.refusal.unknownReason": "Lo siento, no puedo reembolsar el pedido {orderId} por ese motivo.",
+  "refund.refusal.notDeliveredYet": "El pedido {orderId} aún no se ha entregado, así que no hay nada que reembolsar por eso. Si algo está mal cuando llegue, te ayudo entonces.",
+  "refund.refusal.notEligible": "El pedido {orderId} no cumple los requisitos para ese tipo de reembolso.",
+  "refund.refusal.cancelled": "El pedido {orderId} se canceló, así que no se te cobró y no hay nada que reembolsar.",
+  "refund.refusal.expired": "Lo siento, los reembolsos por \"{reason}\" deben pedirse dentro de las {hours} horas siguientes a la entrega, y ese plazo ya pasó para el pedido {orderId}.",
+  "refund.refusal.noItems": "Ninguno de los productos que elegiste se puede reembolsar ya en el pedido {orderId}.",
+  "refund.refusal.alreadyRefunded": "Todo lo del pedido {orderId} ya se ha reembolsado o está pendiente de reembolso.",
+
+  "claimProblem.missing": "Falta",
+  "claimProblem.wrong": "Equivocado",
+  "claimProblem.damaged": "Dañado",
+  "claimResolution.replacement": "Enviar un dron de reemplazo",
+  "claimResolution.refund": "Reembolsar los productos afectados",
+  "claimResolution.credit": "Crédito de Nibbly para mi próximo pedido",
+  "claim.refusal.notDeliveredYet": "El pedido {orderId} aún no se ha entregado. Si algo está mal cuando llegue, te ayudo a reportarlo entonces.",
+  "claim.refusal.cancelled": "El pedido {orderId} se canceló, así que no hay ningún problema que reportar.",
+  "claim.refusal.expired": "Lo siento, los problemas deben reportarse dentro de las {hours} horas siguientes a la entrega, y ese plazo ya pasó para el pedido {orderId}. Contacta con nuestro equipo de soporte.",
+  "claim.invalid.noItems": "Elige al menos un producto que faltó, llegó equivocado o dañado.",
+  "claim.invalid.unknownItem": "{sku} no está en el pedido {orderId}.",
+  "claim.invalid.quantity": "El pedido {orderId} solo tenía {quantity}× {name}.",
+  "claim.invalid.resolution": "Elige cómo quieres que lo solucionemos.",
+  "claim.invalid.tooManyPhotos": "Adjunta como máximo {max} fotos.",
+  "claim.invalid.photoNeeded": "Añade una foto de los productos dañados.",
+  "claim.invalid.photoTooLarge": "Una de las fotos es demasiado grande. Prueba con una más pequeña.",
+  "claim.promised.replacement": "te enviaremos un dron de reemplazo",
+  "claim.promised.refund": "reembolsaremos los productos afectados",
+  "claim.promised.credit": "añadiremos crédito de Nibbly a tu cuenta",
+  "claim.delivered.replacement": "un dron de reemplazo va en camino",
+  "claim.delivered.refund": "los productos afectados se han reembolsado",
+  "claim.delivered.credit": "se ha añadido crédito de Nibbly a tu cuenta",
+  "claim.item": "{quantity}× {name}: {problem}",
+  "claim.summary": "La reclamación {claimId} del pedido {orderId} ({items})",
+  "claim.inReview": "{summary} está siendo revisada por nuestro equipo. Cuando se apruebe, {promise}, normalmente en menos de una hora.",
+  "claim.resolved": "{summary} se ha resuelto: {outcome}.",
+  "claim.rejected": "{summary} se rechazó. Contacta con nuestro equipo de soporte si crees que es un error.",
+
+  "chat.greeting": "¡Hola {name}! Soy tu asistente de soporte de Nibbly. Puedo ayudarte a rastrear tu entrega en dron, resolver problemas con pedidos o responder preguntas sobre nuestro servicio en el Bajo Manhattan. 🚁",
+  "chat.orderIntro": "Veo que estás viendo el pedido {orderId}. ¡Pregúntame lo que quieras sobre él!",
+  "chat.quick.track": "Rastrear dron",
+  "chat.quick.wrongOrder": "Pedido equivocado",
+  "chat.quick.help": "Ayuda",
+  "chat.quick.help.reply": "Necesito ayuda",
+  "chat.open": "Abrir {title}",
+  "chat.language": "Idioma",
+  "chat.pastConversations": "Conversaciones anteriores",
+  "chat.startNew": "Nueva conversación",
+  "chat.conversations": "Conversaciones",
+  "chat.support": "Soporte de {title}",
+  "chat.waiting": "Esperando a un agente",
+  "chat.waitingInLine": "Esperando a un agente · n.º {position} en la fila",
+  "chat.loadingOrder": "Cargando pedido…",
+  "chat.orderUnavailable": "No se pudieron cargar los detalles del pedido",
+  "chat.orderEta": "{status} · llega en {minutes} min",
+  "chat.chattingWith": "Estás hablando con {agent} de nuestro equipo de soporte",
+  "chat.nextAgent": "Tus mensajes llegarán al próximo agente disponible",
+  "chat.endChat": "Terminar chat",
+  "chat.leaveQueue": "Salir de la fila",
+  "chat.placeholder": "Pregunta por tu pedido...",
+  "chat.messageAgent": "Mensaje para {agent}...",
+  "chat.agentLabel": "{agent} · Soporte",
+  "chat.oneMinuteAway": "⏰ ¡Atención! El dron de tu pedido {orderId} está a 1 minuto. ¡Prepárate para saludar! 👋",
+  "chat.unreachable": "Lo siento, no puedo contactar con nuestro sistema de pedidos ahora mismo. Inténtalo de nuevo en un momento.",
+  "chat.undelivered": "Tu mensaje no llegó a nuestro equipo de soporte. Inténtalo de nuevo.",
+
+  "history.new": "Nueva conversación",
+  "history.loading": "Cargando conversaciones…",
+  "history.unavailable": "No se pudieron cargar tus conversaciones anteriores.",
+  "history.empty": "Tus conversaciones anteriores aparecerán aquí.",
+  "history.preview.replies": "Respuestas sugeridas",
+  "history.preview.status": "Estado del pedido {orderId}",
+  "history.preview.map": "Mapa en vivo del pedido {orderId}",
+  "history.preview.timeline": "Historial del pedido {orderId}",
+  "history.preview.comparison": "Pedidos {orderIds}",
+  "history.preview.verify": "Verificar el pedido {orderId}",
+  "history.preview.claim": "Reclamación {claimId} enviada",
+  "history.preview.claimForm": "Informar de un problema con el pedido {orderId}",
+  "history.preview.cards": "Tarjetas",
+
+  "status.live": "En vivo",
+  "status.summary": "{merchant} · {count} productos · {area}",
+  "status.unavailable": "El seguimiento en vivo no está disponible ahora mismo.",
+  "comparison.order": "Pedido",
+  "comparison.status": "Estado",
+  "comparison.eta": "Llegada",
+  "comparison.merchant": "De",
+  "comparison.minutes": "{minutes} min",
+  "comparison.loading": "Cargando…",
+  "comparison.notFound": "No encontrado",
+  "status.connecting": "Conectando con tu dron…",
+  "status.eta": "Llega en {eta}",
+  "status.arrived": "Ha llegado",
+  "status.verify": "Verifica tu identidad para ver la ubicación exacta",
+
+  "timeline.loading": "Cargando historial…",
+  "timeline.unavailable": "El historial no está disponible ahora mismo.",
+  "timeline.progress": "Progreso de la entrega: {stage}",
+  "track.title": "Seguimiento del pedido {orderId}",
+  "track.loadError": "No pudimos cargar este pedido ahora. Actualiza la página en un momento.",
+  "track.notFound": "No encontramos el pedido {orderId}. Revisa el enlace de tu mensaje de confirmación o pregunta en el chat.",
+  "track.deliveringTo": "Entrega en {area}",
+  "track.deliveredTo": "Entregado en {area}",
+  "track.liveMap": "Mapa en vivo",
+  "track.total": "Total",
+
+  "map.hub": "■ Base",
+  "map.you": "● Tú",
+  "map.drone": "🚁 Dron",
+  "map.unavailable": "La posición en vivo no está disponible ahora mismo.",
+  "map.deliveringTo": "Entrega en {address}",
+
+  "verify.done": "Verificado: ubicación en vivo desbloqueada para el pedido {orderId}.",
+  "verify.contact": "Confirma el teléfono o el correo del pedido {orderId}:",
+  "verify.contact.placeholder": "Teléfono o correo",
+  "verify.send": "Enviar código",
+  "verify.code": "Introduce el código de {length} dígitos que enviamos a {sentTo}:",
+  "verify.demoCode": "Código de demostración: {code}",
+  "verify.changeContact": "Usar otro teléfono o correo",
+  "verify.error.mismatch": "No coincide con el teléfono o el correo de este pedido.",
+  "verify.error.invalid-code": "Ese código no es correcto. Revísalo e inténtalo de nuevo.",
+  "verify.error.unavailable": "No pudimos comprobarlo ahora. Inténtalo de nuevo en un momento.",
+
+  "claimForm.submitted": "Reclamación {claimId} enviada para el pedido {orderId}. Pregúntame \"estado del reclamo\" cuando quieras para ver cómo va.",
+  "claimForm.loading": "Cargando pedido {orderId}…",
+  "claimForm.photoLimit": "Puedes adjuntar hasta {max} fotos.",
+  "claimForm.whatsWrong": "¿Qué está mal en el pedido {orderId}?",
+  "claimForm.howMany": "Cuántos {name}",
+  "claimForm.problemWith": "Problema con {name}",
+  "claimForm.photos.required": "Fotos (obligatorias para productos dañados)",
+  "claimForm.photos.optional": "Fotos (opcional)",
+  "claimForm.photo": "Foto {number}",
+  "claimForm.removePhoto": "Quitar foto {number}",
+  "claimForm.howToFix": "¿Cómo lo solucionamos?",
+  "claimForm.note": "¿Algo más que debamos saber? (opcional)",
+  "claimForm.working": "Procesando…",
+  "claimForm.submit": "Enviar reclamación",
+  "claimForm.error.verify": "Primero verifica el pedido {orderId} y luego vuelve a enviar la reclamación.",
+  "claimForm.error.unavailable": "No pudimos enviar tu reclamación ahora. Inténtalo de nuevo en un momento.",
+  "photo.error.not-image": "{name} no es una imagen.",
+  "photo.error.too-large": "{name} pesa más de {size}.",
+  "photo.error.unreadable": "No se pudo leer {name} como foto.",
+  "photo.error.too-detailed": "{name} tiene demasiado detalle para reducirla por debajo de {size}.",
+  "photo.error.compress-failed": "No se pudo comprimir esa foto.",
+};
+
+export const vocabulary: Vocabulary = {
+  intents: {
+    "order.track": ["rastrear mi pedido", "rastrear pedido", "rastrear", "seguir mi pedido", "estado del pedido", "donde esta mi pedido"],
+    "drone.locate": ["donde esta mi dron", "donde esta el dron", "ubicacion del dron", "rastrear mi dron", "donde esta", "en el mapa", "mapa"],
+    "order.timeline": [
+      "historial del pedido", "historial", "cronologia", "linea de tiempo", "que paso con mi pedido",
+      "cuando lo recogieron", "cuando despego",
+    ],
+    "order.wrong": ["pedido equivocado", "pedido incorrecto", "mi pedido esta mal", "esta mal", "producto equivocado", "me falta algo", "falta un producto"],
+    "claim.status": ["estado del reclamo", "estado de mi reclamacion", "mi reclamacion", "mi reclamo"],
+    "order.refund": ["reembolso", "quiero mi dinero", "devolver el dinero"],
+    "refund.status": ["estado del reembolso", "estado de mi reembolso", "donde esta mi reembolso"],
+    "order.list": ["mis pedidos", "ver mis pedidos", "todos mis pedidos", "pedidos recientes", "pedidos activos", "mis ordenes"],
+    "order.cancel": ["cancelar pedido", "cancelar mi pedido", "cancelalo", "cancelar"],
+    "help": ["necesito ayuda", "ayuda", "soporte"],
+    "agent.request": [
+      "hablar con una persona", "hablar con un humano", "persona real", "agente", "atencion al cliente", "representante",
+    ],
+    "agent.callback": ["llamenme", "llamame", "quiero que me llamen", "devuelvanme la llamada"],
+    "greeting.hello": ["hola", "buenos dias", "buenas tardes", "buenas noches"],
+    "greeting.hi": ["buenas", "que tal"],
+    "delivery.time": ["tiempo de entrega", "cuanto tarda la entrega", "que tan rapido"],
+    "delivery.eta": ["cuando llega", "cuando llegara", "a que hora llega", "hora de llegada"],
+    "order.late": ["llega tarde", "va con retraso", "retrasado", "tarda mucho", "tarde"],
+    "service.area": ["zona de entrega", "zona de servicio", "donde entregan", "ubicacion"],
+    "service.coverage": [
+      "entregan en", "reparten en", "llegan a", "cubren mi direccion", "comprobar mi direccion", "mi zona esta cubierta",
+    ],
+    "service.how": ["como funciona", "como funciona nibbly"],
+    "thanks": ["gracias", "muchas gracias"],
+    "goodbye": ["adios", "hasta luego", "chao", "nos vemos"],
+  },
+  yes: ["si", "claro", "vale", "confirmo", "correcto", "dale", "acuerdo"],
+  no: ["no", "nop", "nel"],
+  exit: ["olvidalo", "no importa", "dejalo", "empezar de nuevo", "salir"],
+  everything: ["todo", "todos", "todas"],
+  orderWords: ["pedido", "orden"],
+  numberSigns: ["número", "numero", "núm", "num"],
+  stopWords: ["el", "la", "los", "las", "un", "una", "de", "del", "mi", "mis", "en", "y", "o", "por", "para", "me", "lo", "al", "tu", "su", "es"],
+  markers: [
+    "hola", "pedido", "donde", "esta", "gracias", "quiero", "necesito", "ayuda", "cancelar", "reembolso",
+    "cuando", "que", "mi", "el", "la", "por", "favor", "buenos", "buenas", "dron", "como", "llega", "con", "llamenme", "llamame",
+  ],
+};
@@ -0,0 +1,372 @@
+import type { Messages, Vocabulary } from "../types";
+
+export const messages: Messages = {
+  "order.label": "订单 {orderId}",
+  "order.showOnMap": "在地图上查看",
+  "order.showOnMap.reply": "在地图上显示 {orderId}",
+  "order.cancel": "取消这个订单",
+  "order.cancel.reply": "取消订单 {orderId}",
+  "order.reportProblem": "报告问题",
+  "order.reportProblem.reply": "订单有误 {orderId}",
+  "order.summary": "订单 {orderId} {stage}",
+  "order.summary.deliveredAt": "{summary}，送达时间 {time}。",
+  "order.summary.arriving": "{summary}，大约 {minutes} 分钟后送达。",
+  "order.summary.plain": "{summary}。",
+  "order.enRoute": "🚁 {summary} 为了安全，无人机在 {altitude} 高度飞行，距离送达还有 1 分钟时我会提醒你。",
+  "order.status": "🚁 {summary}",
+  "order.notFound": "找不到订单 {orderId}。请核对订单号；如果你认为这是个错误，请联系我们。",
+  "order.verifyFirst": "为了保护你的订单，只有在你证明订单 {orderId} 属于你之后，我才能修改它。请在下方确认订单上的手机号或邮箱，然后再告诉我一次。",
+  "orders.compare": "这 {count} 个订单的情况如下：",
+  "orders.notFound": "找不到订单 {orderIds}。请核对订单号。",
+  "orders.card": "{stage} · {merchant} · {time}",
+  "orders.card.eta": "约 {minutes} 分钟后送达",
+  "orders.track": "追踪",
+  "orders.track.reply": "追踪订单 {orderId}",
+  "order.guess": "你是指订单 {orderId} 吗？",
+  "order.guess.yes": "是的，{orderId}",
+  "order.guess.no": "不是，是别的订单",
+  "order.guess.declined": "没问题。订单号是多少？格式类似 {example}。",
+
+  "stage.Placed": "已下单",
+  "stage.Preparing": "备餐中",
+  "stage.Picked Up": "已取货",
+  "stage.Launched": "已起飞",
+  "stage.In Transit": "飞行中",
+  "stage.Descending": "降落中",
+  "stage.Delivered": "已送达",
+  "stage.Failed": "配送失败",
+  "stage.Returning": "返航中",
+  "stage.Returned": "已返航",
+  "stage.Cancelled": "已取消",
+  "stageDescription.Placed": "已下单，正在等待 {merchant} 确认",
+  "stageDescription.Preparing": "正在由 {merchant} 准备",
+  "stageDescription.Picked Up": "已从 {merchant} 取货，正在装上无人机",
+  "stageDescription.Launched": "刚从我们的基地起飞",
+  "stageDescription.In Transit": "正在飞往你的途中",
+  "stageDescription.Descending": "正在降落到你的取货点",
+  "stageDescription.Delivered": "已送达",
+  "stageDescription.Failed": "未能送达",
+  "stageDescription.Returning": "未能送达，无人机正把它送回我们的基地",
+  "stageDescription.Returned": "未能送达，已回到我们的基地",
+  "stageDescription.Cancelled": "已取消",
+
+  "intent.fallback": "我可以帮你处理 Nibbly 无人机配送的各种问题！我能追踪订单、处理问题或回答疑问。有什么可以帮你的吗？",
+  "intent.track.ask": "我来帮你追踪 Nibbly 无人机配送！请告诉我你的订单号（格式：N001、N002 等），我会告诉你无人机在下曼哈顿的具体位置。",
+  "intent.locate.grounded": "订单 {orderId} 的无人机目前不在空中。{summary}",
+  "intent.locate.private": "订单 {orderId} {stage}，位于 {area}。为了保护客户隐私，只有在你确认这是你的订单后，我才能显示无人机的确切位置。",
+  "intent.locate.found": "📍 这是订单 {orderId} 的无人机当前的确切位置：",
+  "intent.locate.ask": "要追踪无人机，请提供你的订单号（例如 N001）。我会告诉你它的确切位置和预计送达时间！",
+  "intent.timeline.ask": "你想查看哪个订单的配送记录？请告诉我订单号（例如 N001）。",
+  "intent.wrongOrder": "哎呀！很抱歉你的订单出了问题，我们来解决它。",
+  "intent.claimStatus.ask": "这是哪个订单的索赔？请告诉我索赔号或订单号，例如“索赔状态 N004”。",
+  "intent.claimStatus.notFound": "找不到索赔 {claimId}。",
+  "intent.claimStatus.none": "订单 {orderId} 没有任何索赔。",
+  "intent.refund": "很抱歉出了问题。我来看看能为你退款多少。",
+  "intent.refundStatus.ask": "这是哪个订单的退款？请告诉我订单号，例如“退款状态 N004”。",
+  "intent.refundStatus.none": "订单 {orderId} 没有任何退款申请。",
+  "intent.refundStatus.request": "申请退款",
+  "intent.refundStatus.request.reply": "退款 {orderId}",
+  "intent.cancel": "如果无人机还没有起飞，我可以帮你取消订单。",
+  "intent.help": "你好！我可以帮你处理 Nibbly 无人机配送的问题：追踪无人机位置、估算送达时间、处理错误订单，或回答关于我们下曼哈顿服务的任何问题！",
+  "intent.help.track": "追踪我的订单",
+  "intent.help.wrongOrder": "订单有误",
+  "intent.help.refund": "退款",
+  "intent.help.cancel": "取消订单",
+  "intent.help.how": "服务流程",
+  "intent.help.person": "转人工客服",
+  "intent.hello": "你好！欢迎来到 Nibbly——下曼哈顿最快的无人机配送服务！🚁 今天有什么可以帮你的？",
+  "intent.hi": "你好！感谢选择 Nibbly 配送。我可以追踪你的无人机、处理订单问题或回答任何疑问！",
+  "intent.deliveryTime": "我们的无人机通常在 15 分钟内送达下曼哈顿的任何地点！为了安全，天气情况可能会多花几分钟。",
+  "intent.eta.arriving": "⏰ 订单 {orderId} 大约 {minutes} 分钟后送达。",
+  "intent.eta.ask": "送达时间取决于你在下曼哈顿的位置。请告诉我订单号，我会给你准确的预计送达时间！",
+  "intent.late.onSchedule": "订单 {orderId} 按时进行中：它{stage}，大约 {minutes} 分钟后送达。",
+  "intent.late.undeliverable": "非常抱歉，订单 {orderId} {stage}。未完成的配送不会向你收费。",
+  "intent.late.ask": "抱歉让你久等了！请告诉我订单号，我来查一下无人机是否延误。",
+  "intent.area": "我们的服务覆盖整个下曼哈顿，从炮台公园到第 14 街。无人机从布鲁克林大桥附近的基地起飞，很快就能送到你手上！",
+  "intent.area.check": "查询我的地址",
+  "intent.area.check.reply": "我的地址在配送范围内吗",
+  "intent.how": "很简单！在 App 里下单，我们的无人机从本地商家取货，直接飞到你的位置。全程都可以实时追踪！",
+  "intent.how.order": "1. 下单",
+  "intent.how.order.detail": "在 Nibbly App 里从数百家本地商家中挑选。",
+  "intent.how.pickUp": "2. 取货",
+  "intent.how.pickUp.detail": "无人机直接从商家取走你的商品。",
+  "intent.how.fly": "3. 飞行",
+  "intent.how.fly.detail": "它在 {altitude} 高度直接飞向你，全程可实时追踪。",
+  "intent.thanks": "不客气！祝你享受 Nibbly 配送！🚁 还有什么可以帮你的吗？",
+  "intent.goodbye": "感谢使用 Nibbly！祝你愉快，有需要随时联系我们！🚁",
+
+  "dialog.yes": "是",
+  "dialog.no": "不",
+  "dialog.neverMind": "算了",
+  "dialog.stopped": "没问题，已经停下了。还有什么可以帮你的吗？",
+  "dialog.confirmRetry": "抱歉，我没听明白。请回答“是”或“不”。",
+  "dialog.declined": "好的，那就先这样。",
+  "dialog.order.prompt": "你的订单号是多少？（格式：N001、N002 等）",
+  "dialog.order.retry": "找不到这个订单。请核对订单号（例如 N001），或者说“算了”来停止。",
+  "dialog.place.prompt": "好的！地址或街区是哪里？（例如“350 Broadway”或“SoHo”）",
+  "dialog.place.retry": "抱歉，我不认识这个地方。请试试曼哈顿的街道地址、邮编、街区或地标，或者说“算了”来停止。",
+  "dialog.phone.prompt": "好的。我们应该拨打哪个号码？",
+  "dialog.phone.retry": "这看起来不是完整的电话号码。请加上区号，或者说“算了”来停止。",
+  "dialog.reason.prompt": "很遗憾听到这个。订单出了什么问题？",
+  "dialog.reason.retry": "抱歉，我没明白出了什么问题。请选择一个选项，或者说“算了”来停止。",
+  "dialog.items.prompt": "哪些商品有问题？告诉我是哪些，或者说“全部”。",
+  "dialog.items.all": "全部",
+  "dialog.items.retry": "在订单里找不到对应的商品。请从列表中选择，或者说“算了”来停止。",
+  "dialog.cancelReason.prompt": "可以告诉我你为什么想取消吗？",
+  "dialog.cancelReason.retry": "请简单说一下你想取消的原因，或者说“算了”来停止。",
+
+  "coverage.covered": "可以，我们配送到 {place}！🚁 从布鲁克林大桥附近的基地出发，无人机大约飞行 {minutes} 分钟就能到达。",
+  "coverage.outside": "抱歉，{place} 目前不在我们的配送范围内。我们最近能飞到 {nearest} 附近，距离约 {distance}，从基地出发大约 {minutes} 分钟。",
+
+  "flow.claim.complete": "请在下面标出问题，如有商品损坏请附上照片，并选择你希望的解决方式。",
+  "flow.refund.confirm": "确认一下：你要为订单 {orderId} 的 {items} 申请 {amount} 的退款（{reason}）吗？",
+  "flow.refund.yes": "是，申请退款",
+  "flow.refund.no": "不，先不要",
+  "flow.refund.complete": "好的，正在为订单 {orderId} 提交退款申请……",
+  "flow.refund.declined": "好的，我没有提交退款。还有什么可以帮你的吗？",
+  "flow.handoff.complete": "好的。我正在把这段对话转给我们的客服团队。他们能看到我们的全部聊天记录，你不需要再重复一遍。",
+  "flow.orderList.complete": "我来查一下你的订单。",
+  "flow.callback.complete": "谢谢，我正在为你预约客服回电……",
+  "flow.cancel.confirm": "确认一下：你要取消订单 {orderId} 吗？此操作无法撤销。",
+  "flow.cancel.yes": "是，取消 {orderId}",
+  "flow.cancel.no": "不，保留我的订单",
+  "flow.cancel.complete": "好的，正在通知基地取消订单 {orderId}……",
+  "flow.cancel.declined": "好的，你的订单仍在配送中！🚁",
+
+  "escalation.offer": "你想和我们的客服人员聊聊，还是让我们给你回电？",
+  "escalation.callBack": "给我回电",
+  "escalation.callBack.reply": "给我回电",
+  "escalation.fallback": "抱歉，我显然没理解你的意思，我知道这很让人沮丧。",
+  "escalation.dialog": "真的很抱歉。如果你想随时转人工客服，直接告诉我就行。",
+  "escalation.apology": "真的很抱歉，我知道这让你很困扰。",
+
+  "effect.cancel.done": "订单 {orderId} 已取消。你的取消编号是 {reference}。",
+  "effect.cancel.noCharge": "这笔订单不会向你收费。还有什么可以帮你的吗？",
+  "effect.cancel.notCancelled": "订单 {orderId} 没有被取消。",
+  "effect.cancel.refused": "订单 {orderId} 已经无法取消。",
+  "effect.cancel.reference": "你的取消编号是 {reference}。",
+  "effect.refund.approved": "退款已批准 · 编号 {refundId}",
+  "effect.refund.requested": "退款已申请 · 编号 {refundId}",
+  "effect.refund.followUp": "{refund} 随时可以问我退款进度。",
+  "effect.refund.notSubmitted": "没有提交退款。",
+  "effect.refund.refused": "订单 {orderId} 无法退款。",
+  "effect.handoff.already": "你已经在和客服团队的 {agent} 聊天了。",
+  "effect.handoff.transferring": "正在为你转接客服",
+  "effect.callback.requested": "已预约回电",
+  "effect.callback.booked": "客服团队会在有空时尽快拨打 {phone} 联系你。",
+  "effect.callback.ahead.one": "你前面还有 1 位客户。",
+  "effect.callback.ahead.other": "你前面还有 {count} 位客户。",
+  "effect.failed.cancel": "暂时联系不上基地，订单 {orderId} 尚未取消。请稍后再试。",
+  "effect.failed.refund": "暂时联系不上退款系统，订单 {orderId} 没有提交任何退款。请稍后再试。",
+  "effect.failed.agent": "暂时联系不上客服团队。请稍后再试。",
+  "effect.failed.callback": "暂时无法预约回电。请稍后再试。",
+  "effect.failed.orders": "暂时无法加载你的订单。请稍后再试，或者直接发给我订单号。",
+  "effect.orders.anonymous": "登录后我才能列出你的订单。在此之前，把订单号（例如 N001）发给我，我来帮你查。",
+  "effect.orders.none": "你的账户里没有最近的订单。如果你有订单号，发给我，我来帮你查。",
+
+  "handoff.position.next": "下一位就是你，客服很快就会接待你。",
+  "handoff.position.other": "你排在第 {position} 位，客服会尽快接待你。",
+  "handoff.joined": "客服团队的 {agent} 加入了聊天",
+  "handoff.left": "{agent} 已离开聊天，现在由我们的助手继续为你服务。",
+  "handoff.leftQueue": "你已退出排队。",
+
+  "cancellation.earlier": "早些时候",
+  "cancellation.alreadyCancelled": "订单 {orderId} 已于 {time} 取消，无需再做任何操作。",
+  "cancellation.delivered": "订单 {orderId} 已于 {time} 送达，所以无法取消。如果订单有问题，我可以帮你报告问题或申请退款。",
+  "cancellation.launched": "抱歉，订单 {orderId} 无法取消：无人机已于 {time} 起飞，我们无法让它中途返回。如果降落后有问题，我可以帮你申请退款。",
+  "cancellation.undeliverable": "订单 {orderId} 未能送达，已经停止配送，没有需要取消的内容。我可以帮你申请退款。",
+  "cancellation.loading": "抱歉，订单 {orderId} 已经无法取消：它已从 {merchant} 取货，正在装上无人机。",
+  "cancellation.pastCutoff": "抱歉，订单 {orderId} 已经无法取消：{since}已超过 {minutes} 分钟，超出了我们的取消时限。",
+  "cancellation.sincePreparing": "{merchant} 开始备餐",
+  "cancellation.sinceStage": "订单{stage}",
+
+  "refundReason.missing-item": "少了东西",
+  "refundReason.wrong-item": "送错了商品",
+  "refundReason.damaged": "东西送到时坏了",
+  "refundReason.quality": "食物有问题",
+  "refundReason.not-delivered": "一直没送到",
+  "refund.summary": "退款 {refundId}，金额 {amount}（{items}）",
+  "refund.approved": "{summary}已于 {date} 批准，将在 3-5 个工作日内退回你的银行卡。",
+  "refund.pending": "{summary}正在等待客服团队审核，通常需要几个小时。",
+  "refund.rejected": "{summary}已于 {date} 被拒绝。如果你认为有误，请联系我们的客服团队。",
+  "refund.refusal.unknownReason": "抱歉，我无法因为这个原因为订单 {orderId} 退款。",
+  "refund.refusal.notDeliveredYet": "订单 {orderId} 还没有送达，所以暂时没有可以退款的内容。送达后如果有问题，我再帮你处理。",
+  "refund.refusal.notEligible": "订单 {orderId} 不符合这类退款的条件。",
+  "refund.refusal.cancelled": "订单 {orderId} 已取消，没有向你收费，所以无需退款。",
+  "refund.refusal.expired": "抱歉，“{reason}”的退款需要在送达后 {hours} 小时内申请，订单 {orderId} 已经超过了这个时限。",
+  "refund.refusal.noItems": "你选择的商品在订单 {orderId} 中都已无法退款。",
+  "refund.refusal.alreadyRefunded": "订单 {orderId} 的所有商品都已退款或正在等待退款。",
+
+  "claimProblem.missing": "缺少",
+  "claimProblem.wrong": "送错",
+  "claimProblem.damaged": "损坏",
+  "claimResolution.replacement": "派无人机补送",
+  "claimResolution.refund": "退还有问题的商品",
+  "claimResolution.credit": "下次订单可用的 Nibbly 余额",
+  "claim.refusal.notDeliveredYet": "订单 {orderId} 还没有送达。送达后如果有问题，我可以帮你报告。",
+  "claim.refusal.cancelled": "订单 {orderId} 已取消，没有需要报告的问题。",
+  "claim.refusal.expired": "抱歉，问题需要在送达后 {hours} 小时内报告，订单 {orderId} 已经超过了这个时限。请联系我们的客服团队。",
+  "claim.invalid.noItems": "请至少选择一件缺少、送错或损坏的商品。",
+  "claim.invalid.unknownItem": "{sku} 不在订单 {orderId} 中。",
+  "claim.invalid.quantity": "订单 {orderId} 只有 {quantity}× {name}。",
+  "claim.invalid.resolution": "请选择你希望的解决方式。",
+  "claim.invalid.tooManyPhotos": "最多附上 {max} 张照片。",
+  "claim.invalid.photoNeeded": "请为损坏的商品添加照片。",
+  "claim.invalid.photoTooLarge": "其中一张照片太大了，请换一张小一点的。",
+  "claim.promised.replacement": "我们会派无人机补送",
+  "claim.promised.refund": "我们会退还有问题的商品",
+  "claim.promised.credit": "我们会向你的账户添加 Nibbly 余额",
+  "claim.delivered.replacement": "补送的无人机正在路上",
+  "claim.delivered.refund": "有问题的商品已退款",
+  "claim.delivered.credit": "Nibbly 余额已添加到你的账户",
+  "claim.item": "{quantity}× {name}{problem}",
+  "claim.summary": "订单 {orderId} 的索赔 {claimId}（{items}）",
+  "claim.inReview": "{summary}正在由我们的团队审核。批准后{promise}，通常在一小时内。",
+  "claim.resolved": "{summary}已处理：{outcome}。",
+  "claim.rejected": "{summary}已被拒绝。如果你认为有误，请联系我们的客服团队。",
+
+  "chat.greeting": "你好 {name}！我是 Nibbly 客服助手。我可以帮你追踪无人机配送、处理订单问题，或回答关于我们下曼哈顿服务的问题！🚁",
+  "chat.orderIntro": "我看到你正在查看订单 {orderId}。关于它的任何问题都可以问我！",
+  "chat.quick.track": "追踪无人机",
+  "chat.quick.wrongOrder": "订单有误",
+  "chat.quick.help": "帮助",
+  "chat.quick.help.reply": "我需要帮助",
+  "chat.open": "打开{title}",
+  "chat.language": "语言",
+  "chat.pastConversations": "历史对话",
+  "chat.startNew": "开始新对话",
+  "chat.conversations": "对话",
+  "chat.support": "{title}客服",
+  "chat.waiting": "正在等待客服",
+  "chat.waitingInLine": "正在等待客服 · 排在第 {position} 位",
+  "chat.loadingOrder": "正在加载订单…",
+  "chat.orderUnavailable": "无法加载订单详情",
+  "chat.orderEta": "{status} · 预计 {minutes} 分钟",
+  "chat.chattingWith": "你正在和客服团队的 {agent} 聊天",
+  "chat.nextAgent": "你的消息会发给下一位有空的客服",
+  "chat.endChat": "结束对话",
+  "chat.leaveQueue": "退出排队",
+  "chat.placeholder": "问问你的订单……",
+  "chat.messageAgent": "给 {agent} 发消息……",
+  "chat.agentLabel": "{agent} · 客服",
+  "chat.oneMinuteAway": "⏰ 注意！订单 {orderId} 的无人机还有 1 分钟就到了，准备挥手打招呼吧！👋",
+  "chat.unreachable": "抱歉，暂时无法连接订单系统。请稍后再试。",
+  "chat.undelivered": "你的消息没有送达客服团队。请重试。",
+
+  "history.new": "新对话",
+  "history.loading": "正在加载对话…",
+  "history.unavailable": "无法加载你的历史对话。",
+  "history.empty": "你的历史对话会显示在这里。",
+  "history.preview.replies": "建议回复",
+  "history.preview.status": "订单 {orderId} 状态",
+  "history.preview.map": "订单 {orderId} 实时地图",
+  "history.preview.timeline": "订单 {orderId} 配送记录",
+  "history.preview.comparison": "订单 {orderIds}",
+  "history.preview.verify": "验证订单 {orderId}",
+  "history.preview.claim": "已提交申诉 {claimId}",
+  "history.preview.claimForm": "报告订单 {orderId} 的问题",
+  "history.preview.cards": "卡片",
+
+  "status.live": "实时",
+  "status.summary": "{merchant} · {count} 件商品 · {area}",
+  "status.unavailable": "实时追踪暂时不可用。",
+  "comparison.order": "订单",
+  "comparison.status": "状态",
+  "comparison.eta": "预计送达",
+  "comparison.merchant": "商家",
+  "comparison.minutes": "{minutes} 分钟",
+  "comparison.loading": "加载中…",
+  "comparison.notFound": "未找到",
+  "status.connecting": "正在连接你的无人机…",
+  "status.eta": "预计 {eta}",
+  "status.arrived": "已到达",
+  "status.verify": "验证身份后可查看确切位置",
+
+  "timeline.loading": "正在加载配送记录…",
+  "timeline.unavailable": "配送记录暂时不可用。",
+  "timeline.progress": "配送进度：{stage}",
+  "track.title": "正在跟踪订单 {orderId}",
+  "track.loadError": "暂时无法加载此订单，请稍后刷新。",
+  "track.notFound": "找不到订单 {orderId}。请检查确认消息中的链接，或在聊天中询问。",
+  "track.deliveringTo": "配送至 {area}",
+  "track.deliveredTo": "已送达 {area}",
+  "track.liveMap": "实时地图",
+  "track.total": "合计",
+
+  "map.hub": "■ 基地",
+  "map.you": "● 你",
+  "map.drone": "🚁 无人机",
+  "map.unavailable": "实时位置暂时不可用。",
+  "map.deliveringTo": "送往 {address}",
+
+  "verify.done": "已验证：订单 {orderId} 的实时位置已解锁。",
+  "verify.contact": "请确认订单 {orderId} 上的电话号码或电子邮箱：",
+  "verify.contact.placeholder": "电话或邮箱",
+  "verify.send": "发送验证码",
+  "verify.code": "请输入我们发送到 {sentTo} 的 {length} 位验证码：",
+  "verify.demoCode": "演示验证码：{code}",
+  "verify.changeContact": "使用其他电话或邮箱",
+  "verify.error.mismatch": "与此订单上的电话或邮箱不符。",
+  "verify.error.invalid-code": "验证码不正确，请检查后重试。",
+  "verify.error.unavailable": "暂时无法验证，请稍后重试。",
+
+  "claimForm.submitted": "订单 {orderId} 的索赔 {claimId} 已提交。随时问我“索赔状态”即可查看进度。",
+  "claimForm.loading": "正在加载订单 {orderId}…",
+  "claimForm.photoLimit": "最多可以附上 {max} 张照片。",
+  "claimForm.whatsWrong": "订单 {orderId} 有什么问题？",
+  "claimForm.howMany": "{name} 的数量",
+  "claimForm.problemWith": "{name} 的问题",
+  "claimForm.photos.required": "照片（损坏商品必填）",
+  "claimForm.photos.optional": "照片（可选）",
+  "claimForm.photo": "照片 {number}",
+  "claimForm.removePhoto": "删除照片 {number}",
+  "claimForm.howToFix": "希望我们如何解决？",
+  "claimForm.note": "还有什么需要我们知道的吗？（可选）",
+  "claimForm.working": "处理中…",
+  "claimForm.submit": "提交索赔",
+  "claimForm.error.verify": "请先验证订单 {orderId}，然后再提交索赔。",
+  "claimForm.error.unavailable": "暂时无法提交你的索赔，请稍后重试。",
+  "photo.error.not-image": "{name} 不是图片。",
+  "photo.error.too-large": "{name} 超过了 {size}。",
+  "photo.error.unreadable": "无法将 {name} 读取为照片。",
+  "photo.error.too-detailed": "{name} 细节太多，无法压缩到 {size} 以下。",
+  "photo.error.compress-failed": "无法压缩这张照片。",
+};
+
+// Chinese is tokenized one character at a time, so phrases match on runs of
+// characters and need no spaces.
+export const vocabulary: Vocabulary = {
+  intents: {
+    "order.track": ["追踪我的订单", "追踪订单", "订单状态", "查订单", "我的订单在哪"],
+    "drone.locate": ["无人机在哪", "无人机位置", "在哪里", "在哪", "地图"],
+    "order.timeline": ["配送记录", "订单记录", "时间线", "什么时候取的货", "什么时候起飞"],
+    "order.wrong": ["订单有误", "送错了", "订单错了", "少了东西", "缺少商品"],
+    "claim.status": ["索赔状态", "我的索赔", "索赔进度"],
+    "order.refund": ["退款", "退钱"],
+    "refund.status": ["退款状态", "退款进度", "我的退款"],
+    "order.list": ["我的订单", "我的所有订单", "订单列表", "最近的订单", "查看我的订单"],
+    "order.cancel": ["取消订单", "取消"],
+    "help": ["我需要帮助", "帮助", "帮忙"],
+    "agent.request": ["转人工客服", "转人工", "人工客服", "真人", "客服人员"],
+    "agent.callback": ["给我回电", "回电", "打电话给我"],
+    "greeting.hello": ["你好", "您好", "早上好", "下午好"],
+    "greeting.hi": ["嗨", "哈喽"],
+    "delivery.time": ["配送要多久", "多久送到", "多快"],
+    "delivery.eta": ["什么时候到", "几点到", "预计到达"],
+    "order.late": ["迟到", "晚了", "延误", "太慢了"],
+    "service.area": ["配送范围", "服务范围", "配送区域"],
+    "service.coverage": ["配送到", "送到这里吗", "我的地址在配送范围内吗", "查询我的地址", "能送到"],
+    "service.how": ["服务流程", "怎么运作", "怎么用"],
+    "thanks": ["谢谢", "感谢", "多谢"],
+    "goodbye": ["再见", "拜拜"],
+  },
+  yes: ["是", "好", "对", "确认", "可以", "行"],
+  no: ["不", "没", "别"],
+  exit: ["算了", "不用了", "停止", "重新开始"],
+  everything: ["全部", "所有", "都"],
+  orderWords: ["订单"],
+  numberSigns: ["号", "编号"],
+  stopWords: ["的", "了", "吗", "呢", "吧", "我", "你", "请", "一", "下"],
+  // Detected from the script alone; see `detectLocale`.
+  markers: [],
+};
@@ -0,0 +1,21 @@
+import { catalogs } from "./catalog";
+import { locales, type Locale, type MessageKey, type MessageParams, type Translator } from "./types";
+
+const interpolate = (template: string, params: MessageParams = {}) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+
+export const createTranslator = (locale: Locale): Translator => {
+  const { messages } = catalogs[locale];
+  const translate = (key: MessageKey, params?: MessageParams) => interpolate(messages[key] ?? catalogs.en.messages[key], params);
+  return Object.assign(translate, {
+    locale,
+    has: (key: string): key is MessageKey => key in catalogs.en.messages,
+  });
+};
+
+const translators = Object.fromEntries(locales.map((locale) => [locale, createTranslator(locale)])) as Record<Locale, Translator>;
+
+export const translator = (locale: Locale) => translators[locale] ?? translators.en;
+
+// What describers fall back to when no translator is passed, e.g. in the mock backend.
+export const english = translators.en;
@@ -0,0 +1,42 @@
+import type { messages } from "./locales/en";
+
+export const locales = ["en", "es", "zh-CN"] as const;
+
+export type Locale = (typeof locales)[number];
+
+// How the conversation's locale was picked. Only a default is replaced by what
+// the customer's first message looks like; a choice from the switcher sticks.
+export type LocaleSource = "default" | "detected" | "chosen";
+
+export type MessageKey = keyof typeof messages;
+
+export type Messages = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+// Words the bot understands in a locale, on top of its messages.
+export interface Vocabulary {
+  // Extra example phrases per intent id, scored like `Intent.examples`.
+  intents: Record<string, string[]>;
+  yes: string[];
+  no: string[];
+  // Phrases that stop a dialog.
+  exit: string[];
+  // Words meaning every item on an order.
+  everything: string[];
+  // Words that can come before an order number, e.g. "order" in "order 3".
+  orderWords: string[];
+  // Ways of writing "number", e.g. "no." in "no. 002".
+  numberSigns: string[];
+  // Words too common to tell intents apart.
+  stopWords: string[];
+  // Common words that give the language away; see `detectLocale`.
+  markers: string[];
+}
+
+export interface Translator {
+  (key: MessageKey, params?: MessageParams): string;
+  locale: Locale;
+  // For keys built at runtime, e.g. from a refund reason id a custom policy added.
+  has: (key: string) => key is MessageKey;
+}
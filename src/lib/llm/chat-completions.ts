@@ -0,0 +1,241 @@
+import { languageFor } from "@/lib/bot/engine";
+import { extractEntities } from "@/lib/bot/entities";
+import type { Responder, ResponderInput } from "@/lib/bot/responder";
+import type { ResponseEvent } from "@/lib/bot/stream";
+import type { ConversationState, DialogState } from "@/lib/bot/types";
+import { localeNames } from "@/lib/i18n/catalog";
+import { translator } from "@/lib/i18n/translator";
+import { executeTool, toolDefinitions } from "./tools";
+import type { ChatCompletionChunk, ChatCompletionMessage, ChatCompletionRequest, ToolCall } from "./types";
+
+export class ModelError extends Error {
+  constructor(message: string, readonly reason: "unavailable" | "low-confidence") {
+    super(message);
+    this.name = "ModelError";
+  }
+}
+
+interface ChatCompletionsOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  fetch?: typeof fetch;
+  // Mean token probability below which the answer is discarded for the fallback.
+  minConfidence?: number;
+}
+
+const SYSTEM_PROMPT = [
+  "You are Nibbly's support assistant. Nibbly delivers orders by drone across Lower Manhattan,",
+  "from Battery Park to 14th Street, launching from a hub near the Brooklyn Bridge.",
+  "Be brief and friendly. Use the tools to look up, cancel or refund orders; never guess order details.",
+  "If the customer asks for a person, or you can't resolve their problem, hand the chat to a support agent.",
+].join(" ");
+
+const MAX_TOOL_ROUNDS = 3;
+// Tokens to read before judging confidence; nothing is shown until then.
+const CONFIDENCE_WINDOW = 8;
+
+const meanProbability = (logprobs: number[]) =>
+  logprobs.length ? logprobs.reduce((sum, logprob) => sum + Math.exp(logprob), 0) / logprobs.length : 1;
+
+// Models now and then send arguments that aren't a JSON object; the model is told
+// so and can try again, instead of the whole turn failing.
+const parseArguments = (value: string): Record<string, string> | null => {
+  try {
+    const args: unknown = JSON.parse(value || "{}");
+    return args && typeof args === "object" && !Array.isArray(args) ? (args as Record<string, string>) : null;
+  } catch {
+    return null;
+  }
+};
+
+async function* readEvents(response: Response, signal: AbortSignal): AsyncGenerator<ChatCompletionChunk> {
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  try {
+    while (true) {
+      signal.throwIfAborted();
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+
+      const events = buffer.split("\n\n");
+      buffer = events.pop() ?? "";
+      for (const event of events) {
+        const data = event.split("\n").find((line) => line.startsWith("data:"))?.slice(5).trim();
+        if (!data) continue;
+        if (data === "[DONE]") return;
+        yield JSON.parse(data) as ChatCompletionChunk;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+export const createChatCompletionsResponder = ({
+  baseUrl,
+  model,
+  apiKey,
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+  minConfidence = 0.6,
+}: ChatCompletionsOptions): Responder => {
+  const complete = async (messages: ChatCompletionMessage[], toolChoice: "auto" | "none", signal: AbortSignal) => {
+    const body: ChatCompletionRequest = {
+      model,
+      messages,
+      tools: toolDefinitions,
+      tool_choice: toolChoice,
+      stream: true,
+      logprobs: true,
+    };
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) throw error;
+      throw new ModelError(`Could not reach the model: ${(error as Error).message}`, "unavailable");
+    }
+    if (!response.ok || !response.body) {
+      throw new ModelError(`Model request failed with status ${response.status}`, "unavailable");
+    }
+    return response;
+  };
+
+  async function* respond(input: ResponderInput): AsyncGenerator<ResponseEvent> {
+    const { text, state, history, signal } = input;
+    const language = languageFor(text, state);
+    const t = translator(language.locale);
+    const messages: ChatCompletionMessage[] = [
+      { role: "system", content: `${SYSTEM_PROMPT} Reply in ${localeNames[language.locale]}.` },
+      ...history,
+      { role: "user", content: text },
+    ];
+
+    let index = 0;
+    let activeOrderId = state.activeOrderId;
+    let dialog: DialogState | null = null;
+    let confidence = 1;
+    let trusted = false;
+
+    const nextState = (): ConversationState => ({
+      ...state,
+      ...language,
+      // Confirming a change the model offered is left to the rule-based dialog.
+      dialog,
+      orderIdGuess: null,
+      activeOrderId,
+      lastIntent: "llm.chat",
+      lastEntities: extractEntities(text),
+    });
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      signal.throwIfAborted();
+      const request = new AbortController();
+      const abort = () => request.abort(signal.reason);
+      signal.addEventListener("abort", abort, { once: true });
+
+      const toolCalls: ToolCall[] = [];
+      let content = "";
+      let textIndex: number | null = null;
+      const held: string[] = [];
+      const logprobs: number[] = [];
+
+      try {
+        // The last round has to answer the customer, so it gets no more tool calls.
+        const response = await complete(messages, round < MAX_TOOL_ROUNDS - 1 ? "auto" : "none", request.signal);
+
+        for await (const chunk of readEvents(response, request.signal)) {
+          const choice = chunk.choices[0];
+          if (!choice) continue;
+
+          for (const call of choice.delta.tool_calls ?? []) {
+            const target = (toolCalls[call.index] ??= { id: "", type: "function", function: { name: "", arguments: "" } });
+            if (call.id) target.id = call.id;
+            target.function.name += call.function?.name ?? "";
+            target.function.arguments += call.function?.arguments ?? "";
+          }
+
+          const delta = choice.delta.content;
+          if (!delta) continue;
+          content += delta;
+          held.push(delta);
+
+          // Hold text back until there is enough of it to judge confidence.
+          // Servers that send no logprobs can't be judged, so are trusted.
+          if (!trusted) {
+            const tokens = choice.logprobs?.content;
+            if (tokens) {
+              logprobs.push(...tokens.map((token) => token.logprob));
+              if (logprobs.length < CONFIDENCE_WINDOW) continue;
+              confidence = meanProbability(logprobs);
+              if (confidence < minConfidence && index === 0) {
+                throw new ModelError(`Model confidence ${confidence.toFixed(2)} is too low`, "low-confidence");
+              }
+            }
+            trusted = true;
+          }
+
+          if (textIndex === null) {
+            textIndex = index++;
+            yield { type: "message", index: textIndex, content: { type: "text", text: "" } };
+          }
+          yield { type: "text-delta", index: textIndex, delta: held.splice(0).join("") };
+        }
+      } finally {
+        signal.removeEventListener("abort", abort);
+        request.abort();
+      }
+
+      // Short answers end before the confidence window fills.
+      if (held.length) {
+        if (logprobs.length) confidence = meanProbability(logprobs);
+        if (confidence < minConfidence && index === 0 && !toolCalls.length) {
+          throw new ModelError(`Model confidence ${confidence.toFixed(2)} is too low`, "low-confidence");
+        }
+        if (textIndex === null) {
+          textIndex = index++;
+          yield { type: "message", index: textIndex, content: { type: "text", text: "" } };
+        }
+        yield { type: "text-delta", index: textIndex, delta: held.join("") };
+      }
+
+      // A model that calls tools anyway on the last round isn't obeyed.
+      if (!toolCalls.length || round === MAX_TOOL_ROUNDS - 1) break;
+
+      // Calling a tool is a committed answer; stop second-guessing the model.
+      trusted = true;
+      messages.push({ role: "assistant", content: content || null, tool_calls: toolCalls });
+      for (const call of toolCalls) {
+        const args = parseArguments(call.function.arguments);
+        if (!args) {
+          messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify({ error: "invalid_arguments" }) });
+          continue;
+        }
+        const outcome = await executeTool(call.function.name, args, input, t);
+        // Saved straight away, like the rule-based stream does, so a dialog the
+        // tool opened survives the turn being cut short.
+        if ((outcome.orderId && outcome.orderId !== activeOrderId) || outcome.dialog) {
+          activeOrderId = outcome.orderId ?? activeOrderId;
+          dialog = outcome.dialog ?? dialog;
+          yield { type: "state", state: nextState() };
+        }
+        for (const message of outcome.messages) yield { type: "message", index: index++, content: message };
+        messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(outcome.result) });
+      }
+    }
+
+    yield { type: "done", intent: "llm.chat", confidence, state: nextState() };
+  }
+
+  return { id: `llm:${model}`, respond };
+};
@@ -0,0 +1,187 @@
+import type { MessageContent } from "@/lib/chat/types";
+import { startDialog } from "@/lib/bot/dialog";
+import { orderCards } from "@/lib/bot/effects";
+import type { ResponderInput } from "@/lib/bot/responder";
+import { tokenize } from "@/lib/bot/tokenize";
+import type { DialogState, OrderLookup } from "@/lib/bot/types";
+import { describePosition } from "@/lib/handoff/queue";
+import { HandoffError } from "@/lib/handoff/types";
+import type { Translator } from "@/lib/i18n/types";
+import { recentOrders } from "@/lib/orders/recent";
+import { OrderServiceError } from "@/lib/orders/service";
+import { defaultRefundPolicy, findReason } from "@/lib/refunds/policy";
+import type { ToolDefinition } from "./types";
+
+export interface ToolOutcome {
+  // JSON-serialisable result handed back to the model.
+  result: unknown;
+  // Rich messages to show the customer alongside the model's answer.
+  messages: MessageContent[];
+  orderId?: string;
+  // A dialog the customer's next message continues, e.g. to confirm a cancellation.
+  dialog?: DialogState;
+}
+
+const orderIdParameter = {
+  type: "string",
+  description: "The Nibbly order number, like N001",
+};
+
+export const toolDefinitions: ToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "lookup_order",
+      description: "Look up a Nibbly order: its status, ETA, merchant, items and the drone's current location.",
+      parameters: {
+        type: "object",
+        properties: { order_id: orderIdParameter },
+        required: ["order_id"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "list_my_orders",
+      description:
+        "List the customer's active and recent orders, newest first. Only works once the site has said who the customer is.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "cancel_order",
+      description:
+        "Offer to cancel an order. The customer is asked to confirm in the chat, and the order is only cancelled once they do. Only possible before the drone takes off; if it is refused, the result explains why.",
+      parameters: {
+        type: "object",
+        properties: { order_id: orderIdParameter, reason: { type: "string" } },
+        required: ["order_id"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "request_refund",
+      description:
+        "Offer a refund for an order that had a problem. The customer is asked to confirm in the chat, and the refund is only requested once they do. If it is refused, the result explains why.",
+      parameters: {
+        type: "object",
+        properties: {
+          order_id: orderIdParameter,
+          reason: { type: "string", enum: defaultRefundPolicy.reasons.map((reason) => reason.id) },
+          items: {
+            type: "string",
+            description: "Affected items as comma-separated SKU:quantity pairs, like JP-CHEESE:1. Not needed for not-delivered.",
+          },
+        },
+        // Whatever isn't given, the customer is asked for.
+        required: ["order_id"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "request_agent",
+      description: "Hand the conversation to a human support agent. The customer joins a queue and sees their position.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+];
+
+// Cancelling and refunding go through the same dialog as the rule-based bot: the
+// customer is shown what will happen and confirms it with a button, and only then
+// does the dialog carry it out. Nothing happens on the model's word alone.
+const proposeChange = (
+  flowId: string,
+  values: Record<string, string>,
+  orders: OrderLookup,
+  { text, state, isVerified }: ResponderInput,
+  t: Translator,
+): ToolOutcome => {
+  const { orderId } = values;
+  const input = { text, tokens: tokenize(text), entities: { orderIds: [orderId] }, context: state, orders, isVerified, t };
+  const step = startDialog(flowId, input, values);
+  if (step.done) {
+    // Turned down before asking anything, e.g. because the drone has taken off.
+    const explanation = step.messages.flatMap((message) => (message.type === "text" ? [message.text] : [])).join(" ");
+    return {
+      result: { status: "refused", explanation },
+      messages: step.messages.filter((message) => message.type !== "text"),
+      orderId,
+    };
+  }
+  return {
+    result: { status: "awaiting_customer", explanation: "The customer has been asked in the chat to confirm, or for what is missing. Nothing has been done yet." },
+    messages: step.messages,
+    orderId,
+    dialog: step.state,
+  };
+};
+
+const requestAgent = async ({ requestAgent: request, signal }: ResponderInput, t: Translator): Promise<ToolOutcome> => {
+  try {
+    const { ticket, position } = await request(signal);
+    if (ticket.agent) return { result: { status: ticket.status, agent: ticket.agent.name }, messages: [] };
+    return {
+      result: { status: ticket.status, position, explanation: describePosition(position, t) },
+      messages: [{ type: "notice", tone: "info", text: t("effect.handoff.transferring") }],
+    };
+  } catch (error) {
+    if (signal.aborted || !(error instanceof HandoffError)) throw error;
+    return { result: { error: "unavailable", message: error.message }, messages: [] };
+  }
+};
+
+const listMyOrders = async ({ listOrders, signal }: ResponderInput, t: Translator): Promise<ToolOutcome> => {
+  if (!listOrders) return { result: { error: "not_identified" }, messages: [] };
+  try {
+    const orders = recentOrders(await listOrders(signal));
+    return {
+      result: orders.map(({ id, status, merchant, etaMinutes, placedAt }) => ({ id, status, merchant, etaMinutes, placedAt })),
+      messages: orders.length ? [orderCards(orders, t)] : [],
+    };
+  } catch (error) {
+    if (signal.aborted || !(error instanceof OrderServiceError)) throw error;
+    return { result: { error: "unavailable", message: error.message }, messages: [] };
+  }
+};
+
+export const executeTool = async (
+  name: string,
+  args: Record<string, string>,
+  input: ResponderInput,
+  // Notices and explanations are written in the customer's language.
+  t: Translator,
+): Promise<ToolOutcome> => {
+  const { loadOrders, signal } = input;
+  if (name === "request_agent") return requestAgent(input, t);
+  if (name === "list_my_orders") return listMyOrders(input, t);
+
+  const orderId = args.order_id?.toUpperCase();
+  if (!orderId) return { result: { error: "order_id is required" }, messages: [] };
+
+  const orders = await loadOrders([orderId], signal);
+  const order = orders[orderId];
+  if (!order) return { result: { error: "not_found", order_id: orderId }, messages: [] };
+
+  switch (name) {
+    case "lookup_order":
+      return { result: order, messages: [{ type: "order-status", orderId }], orderId };
+    case "cancel_order":
+      return proposeChange("cancel-order", { orderId, ...(args.reason ? { reason: args.reason } : {}) }, orders, input, t);
+    case "request_refund":
+      return proposeChange("refund", {
+        orderId,
+        // A reason the policy doesn't know is asked for again.
+        ...(findReason(args.reason) ? { reason: args.reason } : {}),
+        ...(args.items ? { items: args.items } : {}),
+      }, orders, input, t);
+    default:
+      return { result: { error: `Unknown tool ${name}` }, messages: [] };
+  }
+};
@@ -0,0 +1,47 @@
+// The subset of the OpenAI-style chat completions protocol the adapter speaks.
+
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export type ChatCompletionMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: ToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  tools?: ToolDefinition[];
+  // "none" makes the model answer in text even with tools on offer.
+  tool_choice?: "auto" | "none";
+  stream: true;
+  logprobs?: boolean;
+}
+
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: { name?: string; arguments?: string };
+}
+
+export interface ChatCompletionChunk {
+  choices: {
+    index: number;
+    delta: { role?: "assistant"; content?: string | null; tool_calls?: ToolCallDelta[] };
+    logprobs?: { content: { token: string; logprob: number }[] | null } | null;
+    finish_reason: "stop" | "tool_calls" | "length" | null;
+  }[];
+}
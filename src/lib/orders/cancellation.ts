@@ -0,0 +1,100 @@
+import { formatTime } from "@/lib/i18n/format";
+import { english } from "@/lib/i18n/translator";
+import type { Translator } from "@/lib/i18n/types";
+import { currentStage, isAirborne, stageTime, type DeliveryStage } from "./lifecycle";
+import type { Order } from "./types";
+
+export interface CancellationRule {
+  stage: DeliveryStage;
+  // How long after reaching `stage` an order can still be cancelled; null for as long as it stays there.
+  withinMinutes: number | null;
+}
+
+// Stages not listed can't be cancelled.
+export interface CancellationPolicy {
+  rules: CancellationRule[];
+}
+
+export const defaultCancellationPolicy: CancellationPolicy = {
+  rules: [
+    { stage: "Placed", withinMinutes: null },
+    // After this the merchant has usually finished cooking.
+    { stage: "Preparing", withinMinutes: 10 },
+  ],
+};
+
+export type CancellationRefusal =
+  | "already-cancelled"
+  | "delivered"
+  | "launched"
+  | "undeliverable"
+  | "loading"
+  | "past-cutoff";
+
+export type CancellationResult =
+  | { status: "cancelled"; orderId: string; reference: string; cancelledAt: string }
+  | { status: "refused"; orderId: string; reason: CancellationRefusal; reference?: string };
+
+// Why `order` can't be cancelled under `policy`, or null if it still can be.
+export const checkCancellation = (
+  order: Order,
+  policy: CancellationPolicy = defaultCancellationPolicy,
+  now = Date.now(),
+): CancellationRefusal | null => {
+  const stage = currentStage(order.history);
+  const rule = policy.rules.find((candidate) => candidate.stage === stage);
+
+  if (rule) {
+    const since = stageTime(order.history, stage);
+    const elapsedMinutes = since ? (now - Date.parse(since)) / 60_000 : 0;
+    return rule.withinMinutes === null || elapsedMinutes <= rule.withinMinutes ? null : "past-cutoff";
+  }
+
+  switch (stage) {
+    case "Cancelled":
+      return "already-cancelled";
+    case "Delivered":
+      return "delivered";
+    case "Failed":
+    case "Returning":
+    case "Returned":
+      return "undeliverable";
+    default:
+      return isAirborne(stage) ? "launched" : "loading";
+  }
+};
+
+const timeOf = (order: Order, stage: DeliveryStage, t: Translator) => {
+  const at = stageTime(order.history, stage);
+  return at ? formatTime(at, t.locale) : t("cancellation.earlier");
+};
+
+// Why `order` can't be cancelled, in words a customer can act on.
+export const describeRefusal = (
+  reason: CancellationRefusal,
+  order: Order,
+  t: Translator = english,
+  policy = defaultCancellationPolicy,
+) => {
+  const orderId = order.id;
+  switch (reason) {
+    case "already-cancelled":
+      return t("cancellation.alreadyCancelled", { orderId, time: timeOf(order, "Cancelled", t) });
+    case "delivered":
+      return t("cancellation.delivered", { orderId, time: timeOf(order, "Delivered", t) });
+    case "launched":
+      return t("cancellation.launched", { orderId, time: timeOf(order, "Launched", t) });
+    case "undeliverable":
+      return t("cancellation.undeliverable", { orderId });
+    case "loading":
+      return t("cancellation.loading", { orderId, merchant: order.merchant });
+    case "past-cutoff": {
+      const stage = currentStage(order.history);
+      const minutes = policy.rules.find((rule) => rule.stage === stage)?.withinMinutes ?? 0;
+      const since = stage === "Preparing"
+        ? t("cancellation.sincePreparing", { merchant: order.merchant })
+        : t("cancellation.sinceStage", { stage: t(`stage.${stage}`).toLocaleLowerCase(t.locale) });
+      return t("cancellation.pastCutoff", { orderId, since, minutes });
+    }
+  }
+};
@@ -0,0 +1,13 @@
+import { MOCK_API_URL, mockApiFetch } from "@/mocks/api";
+import { verificationSession } from "@/lib/verification/session";
+import { createFetchOrderService } from "./service";
+
+// Point the widget at a real backend with VITE_ORDER_API_URL; without it, the
+// seeded in-browser mock API answers.
+const apiUrl = import.meta.env.VITE_ORDER_API_URL;
+
+export const orderService = createFetchOrderService({
+  baseUrl: apiUrl ?? MOCK_API_URL,
+  fetch: apiUrl ? undefined : mockApiFetch,
+  getToken: verificationSession.getToken,
+});
@@ -0,0 +1,16 @@
+// How order numbers are written, e.g. "N001": a prefix and a fixed number of digits.
+export interface OrderIdFormat {
+  prefix: string;
+  digits: number;
+}
+
+export const defaultOrderIdFormat: OrderIdFormat = { prefix: "N", digits: 3 };
+
+export const formatOrderId = (number: number, format: OrderIdFormat = defaultOrderIdFormat) =>
+  `${format.prefix}${String(number).padStart(format.digits, "0")}`;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Matches order numbers written exactly in the format.
+export const orderIdPattern = (format: OrderIdFormat = defaultOrderIdFormat) =>
+  new RegExp(`\\b${escapeRegExp(format.prefix)}\\d{${format.digits}}\\b`, "i");
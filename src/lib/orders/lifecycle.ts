@@ -0,0 +1,101 @@
+import { english } from "@/lib/i18n/translator";
+import type { Translator } from "@/lib/i18n/types";
+
+export type DeliveryStage =
+  | "Placed"
+  | "Preparing"
+  | "Picked Up"
+  | "Launched"
+  | "In Transit"
+  | "Descending"
+  | "Delivered"
+  | "Failed"
+  | "Returning"
+  | "Returned"
+  | "Cancelled";
+
+export interface StageEvent {
+  stage: DeliveryStage;
+  at: string;
+}
+
+// The stages an order goes through when nothing goes wrong.
+export const DELIVERY_PATH: DeliveryStage[] = [
+  "Placed",
+  "Preparing",
+  "Picked Up",
+  "Launched",
+  "In Transit",
+  "Descending",
+  "Delivered",
+];
+
+const transitions: Record<DeliveryStage, DeliveryStage[]> = {
+  // Orders can only be cancelled while they are still on the ground.
+  Placed: ["Preparing", "Failed", "Cancelled"],
+  Preparing: ["Picked Up", "Failed", "Cancelled"],
+  "Picked Up": ["Launched", "Failed", "Cancelled"],
+  Launched: ["In Transit", "Returning", "Failed"],
+  "In Transit": ["Descending", "Returning", "Failed"],
+  Descending: ["Delivered", "Returning", "Failed"],
+  Delivered: [],
+  // A drone that fails in the air flies home if it can.
+  Failed: ["Returning"],
+  Returning: ["Returned", "Failed"],
+  Returned: [],
+  Cancelled: [],
+};
+
+const airborne: DeliveryStage[] = ["Launched", "In Transit", "Descending", "Returning"];
+
+export class LifecycleError extends Error {
+  constructor(
+    message: string,
+    readonly from: DeliveryStage,
+    readonly to: DeliveryStage,
+  ) {
+    super(message);
+    this.name = "LifecycleError";
+  }
+}
+
+export const canTransition = (from: DeliveryStage, to: DeliveryStage) => transitions[from].includes(to);
+
+export const isFinalStage = (stage: DeliveryStage) => transitions[stage].length === 0;
+
+export const isAirborne = (stage: DeliveryStage) => airborne.includes(stage);
+
+// Whether the order is still on its way, so an ETA means something.
+export const isEnRoute = (stage: DeliveryStage) => DELIVERY_PATH.includes(stage) && stage !== "Delivered";
+
+export const currentStage = (history: StageEvent[]): DeliveryStage => history[history.length - 1]?.stage ?? "Placed";
+
+export const stageTime = (history: StageEvent[], stage: DeliveryStage) =>
+  history.find(event => event.stage === stage)?.at ?? null;
+
+export const advance = (history: StageEvent[], to: DeliveryStage, at: Date | string = new Date()): StageEvent[] => {
+  const from = currentStage(history);
+  if (!canTransition(from, to)) {
+    throw new LifecycleError(`An order can't go from ${from} to ${to}`, from, to);
+  }
+  return [...history, { stage: to, at: typeof at === "string" ? at : at.toISOString() }];
+};
+
+// Builds a history by walking `stages` in order from a first "Placed" event,
+// rejecting any step the lifecycle doesn't allow.
+export const replay = (stages: { stage: DeliveryStage; at: Date | string }[]): StageEvent[] => {
+  const [placed, ...rest] = stages;
+  if (placed?.stage !== "Placed") throw new Error("A delivery history has to start with Placed");
+  const start: StageEvent[] = [{ stage: "Placed", at: new Date(placed.at).toISOString() }];
+  return rest.reduce((history, { stage, at }) => advance(history, stage, at), start);
+};
+
+// How far along the normal path the order is, from 0 to 100.
+export const deliveryProgress = (stage: DeliveryStage) => {
+  if (!DELIVERY_PATH.includes(stage)) return 100;
+  return Math.round((DELIVERY_PATH.indexOf(stage) / (DELIVERY_PATH.length - 1)) * 100);
+};
+
+// Customer-facing description of a stage, e.g. "is being prepared by Joe's Pizza".
+export const describeStage = (stage: DeliveryStage, merchant: string, t: Translator = english) =>
+  t(`stageDescription.${stage}`, { merchant });
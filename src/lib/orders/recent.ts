@@ -0,0 +1,20 @@
+import { isFinalStage } from "./lifecycle";
+import type { Order } from "./types";
+
+// How long a finished order is still worth showing.
+const RECENT_DAYS = 30;
+const MAX_ORDERS = 10;
+
+const lastUpdate = (order: Order) => order.history[order.history.length - 1]?.at ?? order.placedAt;
+
+// Orders still on their way first, then the ones that finished lately; newest
+// first within each.
+export const recentOrders = (orders: Order[], now = Date.now()): Order[] => {
+  const since = new Date(now - RECENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const byNewest = (a: Order, b: Order) => b.placedAt.localeCompare(a.placedAt);
+  const active = orders.filter((order) => !isFinalStage(order.status)).sort(byNewest);
+  const finished = orders
+    .filter((order) => isFinalStage(order.status) && lastUpdate(order) >= since)
+    .sort(byNewest);
+  return [...active, ...finished].slice(0, MAX_ORDERS);
+};
@@ -0,0 +1,86 @@
+import type { CancellationResult } from "./cancellation";
+import type { Order } from "./types";
+
+export interface OrderService {
+  // Resolves to null when no order has that id.
+  getOrder: (orderId: string, signal?: AbortSignal) => Promise<Order | null>;
+  // Refusals resolve with the reason; only a missing order or a failed request rejects.
+  // Needs the order's verification token; without it the request fails with 403.
+  cancelOrder: (orderId: string, reason: string, signal?: AbortSignal) => Promise<CancellationResult>;
+  // The orders of the customer the token was signed for, newest first, without
+  // locations. The token comes from the host page's backend; without it the
+  // request fails with 401.
+  listOrders: (customerToken: string, signal?: AbortSignal) => Promise<Order[]>;
+}
+
+export class OrderServiceError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "OrderServiceError";
+  }
+}
+
+interface FetchOrderServiceOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+  // Proof the customer owns the order; without it the API leaves out locations.
+  getToken?: (orderId: string) => string | null;
+}
+
+export const createFetchOrderService = ({
+  baseUrl,
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+  getToken = () => null,
+}: FetchOrderServiceOptions): OrderService => {
+  const send = async (url: string, init: RequestInit, token: string | null, signal?: AbortSignal) => {
+    try {
+      return await fetchImpl(url, {
+        ...init,
+        headers: {
+          Accept: "application/json",
+          ...init.headers,
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new OrderServiceError(`Could not reach the order service: ${(error as Error).message}`);
+    }
+  };
+
+  const request = (orderId: string, path: string, init: RequestInit, signal?: AbortSignal) =>
+    send(`${baseUrl}/orders/${encodeURIComponent(orderId)}${path}`, init, getToken(orderId), signal);
+
+  return {
+    getOrder: async (orderId, signal) => {
+      const response = await request(orderId, "", {}, signal);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new OrderServiceError(`Order lookup failed with status ${response.status}`, response.status);
+      }
+      return (await response.json()) as Order;
+    },
+
+    cancelOrder: async (orderId, reason, signal) => {
+      const response = await request(orderId, "/cancellation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      }, signal);
+      // 409 carries the refusal reason in the same shape as a success.
+      if (!response.ok && response.status !== 409) {
+        throw new OrderServiceError(`Cancellation failed with status ${response.status}`, response.status);
+      }
+      return (await response.json()) as CancellationResult;
+    },
+
+    listOrders: async (customerToken, signal) => {
+      const response = await send(`${baseUrl}/orders`, {}, customerToken, signal);
+      if (!response.ok) {
+        throw new OrderServiceError(`Order list failed with status ${response.status}`, response.status);
+      }
+      return ((await response.json()) as { orders: Order[] }).orders;
+    },
+  };
+};
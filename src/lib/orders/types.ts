@@ -0,0 +1,42 @@
+import type { Claim } from "@/lib/claims/types";
+import type { Refund } from "@/lib/refunds/types";
+import type { DeliveryStage, StageEvent } from "./lifecycle";
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface Place extends GeoPoint {
+  address: string;
+}
+
+export interface OrderItem {
+  sku: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface Order {
+  id: string;
+  status: DeliveryStage;
+  // When the order reached each stage so far, oldest first.
+  history: StageEvent[];
+  etaMinutes: number;
+  // Neighbourhood the order is going to; safe to show anyone.
+  area: string;
+  // Where the drone is right now and where it is going. Only sent once the
+  // customer has verified they own the order.
+  location?: Place;
+  destination?: Place;
+  merchant: string;
+  items: OrderItem[];
+  placedAt: string;
+  // Refunds asked for so far, from the refund ledger.
+  refunds?: Refund[];
+  // Problems reported with the delivery.
+  claims?: Claim[];
+}
+
+export const hasPreciseLocation = (order: Order) => !!order.location && !!order.destination;
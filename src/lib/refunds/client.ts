@@ -0,0 +1,11 @@
+import { MOCK_API_URL, mockApiFetch } from "@/mocks/api";
+import { verificationSession } from "@/lib/verification/session";
+import { createFetchRefundService } from "./service";
+
+const apiUrl = import.meta.env.VITE_ORDER_API_URL;
+
+export const refundService = createFetchRefundService({
+  baseUrl: apiUrl ?? MOCK_API_URL,
+  fetch: apiUrl ? undefined : mockApiFetch,
+  getToken: verificationSession.getToken,
+});
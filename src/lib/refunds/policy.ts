@@ -0,0 +1,168 @@
+import { currentStage, stageTime, type DeliveryStage } from "@/lib/orders/lifecycle";
+import { formatAmount, formatDateTime } from "@/lib/i18n/format";
+import { english } from "@/lib/i18n/translator";
+import type { Translator } from "@/lib/i18n/types";
+import type { Order } from "@/lib/orders/types";
+import type { Refund, RefundLine, RefundRefusal, RefundRequest } from "./types";
+
+export interface RefundReason {
+  id: string;
+  // What the customer picks, e.g. "Something was missing".
+  label: string;
+  // Stages the order has to be at for this reason to apply.
+  stages: DeliveryStage[];
+  // How long after reaching that stage a refund can be asked for; null for no limit.
+  withinHours: number | null;
+  // Whether the customer chooses the affected items or the whole order is refunded.
+  scope: "items" | "order";
+}
+
+export interface RefundPolicy {
+  reasons: RefundReason[];
+  // Refunds up to this amount are approved straight away; larger ones wait for an agent.
+  autoApproveUpTo: number;
+}
+
+export const defaultRefundPolicy: RefundPolicy = {
+  reasons: [
+    { id: "missing-item", label: "Something was missing", stages: ["Delivered"], withinHours: 24, scope: "items" },
+    { id: "wrong-item", label: "I got the wrong item", stages: ["Delivered"], withinHours: 24, scope: "items" },
+    { id: "damaged", label: "Something arrived damaged", stages: ["Delivered"], withinHours: 24, scope: "items" },
+    { id: "quality", label: "The food wasn't right", stages: ["Delivered"], withinHours: 6, scope: "items" },
+    { id: "not-delivered", label: "It never arrived", stages: ["Failed", "Returning", "Returned"], withinHours: null, scope: "order" },
+  ],
+  autoApproveUpTo: 25,
+};
+
+export const findReason = (reasonId: string, policy = defaultRefundPolicy) =>
+  policy.reasons.find((reason) => reason.id === reasonId) ?? null;
+
+// How many of each item can still be refunded, after earlier refunds that weren't rejected.
+export const refundableItems = (order: Order) =>
+  order.items
+    .map((item) => {
+      const refunded = (order.refunds ?? [])
+        .filter((refund) => refund.status !== "rejected")
+        .flatMap((refund) => refund.lines)
+        .filter((line) => line.sku === item.sku)
+        .reduce((total, line) => total + line.quantity, 0);
+      return { ...item, quantity: item.quantity - refunded };
+    })
+    .filter((item) => item.quantity > 0);
+
+// Why nothing on `order` can be refunded for `reason`, or null if something can.
+export const checkRefund = (
+  order: Order,
+  reason: RefundReason | null,
+  now = Date.now(),
+): RefundRefusal | null => {
+  if (!reason) return "unknown-reason";
+  const stage = currentStage(order.history);
+  if (!reason.stages.includes(stage)) return stage === "Cancelled" ? "cancelled" : "not-delivered-yet";
+
+  const since = stageTime(order.history, stage);
+  if (reason.withinHours !== null && since && now - Date.parse(since) > reason.withinHours * 3_600_000) {
+    return "expired";
+  }
+  return refundableItems(order).length ? null : "already-refunded";
+};
+
+// Reasons the customer could pick for `order` right now.
+export const eligibleReasons = (order: Order, policy = defaultRefundPolicy, now = Date.now()) =>
+  policy.reasons.filter((reason) => checkRefund(order, reason, now) === null);
+
+// Why no reason at all applies to `order`, or null if one does. Reasons meant
+// for the order's current stage explain it best.
+export const orderRefundRefusal = (order: Order, policy = defaultRefundPolicy, now = Date.now()) => {
+  const checks = policy.reasons.map((reason) => ({ reason, refusal: checkRefund(order, reason, now) }));
+  if (checks.some((check) => check.refusal === null)) return null;
+  const stage = currentStage(order.history);
+  return checks.find((check) => check.reason.stages.includes(stage)) ?? checks[0] ?? null;
+};
+
+// Items as "SKU:quantity" pairs, the form the chat and tools pass them around in.
+export const encodeItems = (items: { sku: string; quantity: number }[]) =>
+  items.map((item) => `${item.sku}:${item.quantity}`).join(",");
+
+export const decodeItems = (value: string): { sku: string; quantity: number }[] =>
+  value
+    .split(",")
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => {
+      const [sku, quantity] = pair.split(":");
+      return { sku: sku.toUpperCase(), quantity: Number(quantity) || 1 };
+    });
+
+// Prices the requested items, capped at what is still refundable. Order-wide
+// reasons refund everything that is left.
+export const refundLines = (order: Order, reason: RefundReason, items: RefundRequest["items"] = []): RefundLine[] =>
+  refundableItems(order).flatMap((item) => {
+    const requested = reason.scope === "order"
+      ? item.quantity
+      : items.filter((line) => line.sku === item.sku).reduce((total, line) => total + line.quantity, 0);
+    const quantity = Math.min(requested, item.quantity);
+    if (quantity <= 0) return [];
+    return [{ sku: item.sku, name: item.name, quantity, amount: Math.round(quantity * item.unitPrice * 100) / 100 }];
+  });
+
+export const refundTotal = (lines: RefundLine[]) =>
+  Math.round(lines.reduce((total, line) => total + line.amount, 0) * 100) / 100;
+
+export const describeLines = (lines: RefundLine[]) =>
+  lines.map((line) => `${line.quantity}× ${line.name}`).join(", ");
+
+// What the customer sees for a reason. Reasons a custom policy adds without a
+// translation keep their own label.
+export const reasonLabel = (reason: RefundReason, t: Translator = english) => {
+  const key = `refundReason.${reason.id}`;
+  return t.has(key) ? t(key) : reason.label;
+};
+
+// Where a refund stands, e.g. "Refund REF-… for $7.00 (2× Cheese slice) was approved on Oct 19, 05:40 PM."
+export const describeRefund = (refund: Refund, t: Translator = english) => {
+  const summary = t("refund.summary", {
+    refundId: refund.id,
+    amount: formatAmount(refund.amount, t.locale),
+    items: describeLines(refund.lines),
+  });
+  const date = formatDateTime(refund.updatedAt, t.locale);
+  switch (refund.status) {
+    case "approved":
+      return t("refund.approved", { summary, date });
+    case "pending":
+      return t("refund.pending", { summary });
+    case "rejected":
+      return t("refund.rejected", { summary, date });
+  }
+};
+
+// Why a refund was refused, in words a customer can act on.
+export const describeRefundRefusal = (
+  refusal: RefundRefusal,
+  order: Order,
+  reason?: RefundReason | null,
+  t: Translator = english,
+) => {
+  const orderId = order.id;
+  switch (refusal) {
+    case "unknown-reason":
+      return t("refund.refusal.unknownReason", { orderId });
+    case "not-delivered-yet":
+      return reason?.stages.includes("Delivered")
+        ? t("refund.refusal.notDeliveredYet", { orderId })
+        : t("refund.refusal.notEligible", { orderId });
+    case "cancelled":
+      return t("refund.refusal.cancelled", { orderId });
+    case "expired":
+      return t("refund.refusal.expired", {
+        orderId,
+        reason: reason ? reasonLabel(reason, t) : "",
+        hours: reason?.withinHours ?? 0,
+      });
+    case "no-items":
+      return t("refund.refusal.noItems", { orderId });
+    case "already-refunded":
+      return t("refund.refusal.alreadyRefunded", { orderId });
+  }
+};
@@ -0,0 +1,74 @@
+import type { Refund, RefundRequest, RefundResult, RefundReview } from "./types";
+
+export interface RefundService {
+  // Refusals resolve with the reason; only a missing order or a failed request rejects.
+  // Needs the order's verification token; without it the request fails with 403.
+  requestRefund: (request: RefundRequest, signal?: AbortSignal) => Promise<RefundResult>;
+  // Every refund with its audit trail, newest first; for agents.
+  listRefunds: (signal?: AbortSignal) => Promise<Refund[]>;
+  reviewRefund: (refundId: string, review: RefundReview) => Promise<Refund>;
+}
+
+export class RefundServiceError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "RefundServiceError";
+  }
+}
+
+interface FetchRefundServiceOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+  // Proof the customer owns the order being refunded.
+  getToken?: (orderId: string) => string | null;
+}
+
+export const createFetchRefundService = ({
+  baseUrl,
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+  getToken = () => null,
+}: FetchRefundServiceOptions): RefundService => {
+  const request = async (path: string, init: RequestInit = {}) => {
+    try {
+      return await fetchImpl(`${baseUrl}${path}`, {
+        ...init,
+        headers: { Accept: "application/json", "Content-Type": "application/json", ...init.headers },
+      });
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new RefundServiceError(`Could not reach the refund service: ${(error as Error).message}`);
+    }
+  };
+
+  return {
+    requestRefund: async ({ idempotencyKey, ...body }, signal) => {
+      const token = getToken(body.orderId);
+      const response = await request(`/orders/${encodeURIComponent(body.orderId)}/refunds`, {
+        method: "POST",
+        headers: { "Idempotency-Key": idempotencyKey, ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        body: JSON.stringify(body),
+        signal,
+      });
+      // 409 carries the refusal reason in the same shape as a success.
+      if (!response.ok && response.status !== 409) {
+        throw new RefundServiceError(`Refund request failed with status ${response.status}`, response.status);
+      }
+      return (await response.json()) as RefundResult;
+    },
+
+    listRefunds: async (signal) => {
+      const response = await request("/refunds", { signal });
+      if (!response.ok) throw new RefundServiceError(`Refund list failed with status ${response.status}`, response.status);
+      return (await response.json()) as Refund[];
+    },
+
+    reviewRefund: async (refundId, review) => {
+      const response = await request(`/refunds/${encodeURIComponent(refundId)}/review`, {
+        method: "POST",
+        body: JSON.stringify(review),
+      });
+      if (!response.ok) throw new RefundServiceError(`Refund review failed with status ${response.status}`, response.status);
+      return (await response.json()) as Refund;
+    },
+  };
+};
@@ -0,0 +1,56 @@
+export type RefundStatus = "pending" | "approved" | "rejected";
+
+export interface RefundLine {
+  sku: string;
+  name: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface AuditEntry {
+  at: string;
+  // "customer", "system" for automatic decisions, or "agent:<name>".
+  actor: string;
+  action: "requested" | "approved" | "rejected";
+  note?: string;
+}
+
+export interface Refund {
+  id: string;
+  orderId: string;
+  reason: string;
+  lines: RefundLine[];
+  amount: number;
+  status: RefundStatus;
+  createdAt: string;
+  updatedAt: string;
+  // Who did what to the refund. Only sent to agents.
+  audit?: AuditEntry[];
+}
+
+export interface RefundRequest {
+  orderId: string;
+  reason: string;
+  // SKUs and quantities to refund; omitted for reasons that cover the whole order.
+  items?: { sku: string; quantity: number }[];
+  // Repeating a request with the same key returns the refund it created instead of a second one.
+  idempotencyKey: string;
+}
+
+export type RefundRefusal =
+  | "unknown-reason"
+  | "not-delivered-yet"
+  | "cancelled"
+  | "expired"
+  | "no-items"
+  | "already-refunded";
+
+export type RefundResult =
+  | { status: "submitted"; refund: Refund }
+  | { status: "refused"; orderId: string; reason: RefundRefusal };
+
+export interface RefundReview {
+  decision: "approve" | "reject";
+  agent: string;
+  note?: string;
+}
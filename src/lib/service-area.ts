@@ -0,0 +1,59 @@
+import { distanceMeters, nearestOnPolygon, pointInPolygon } from "@/lib/geo";
+import type { GeoPoint, Place } from "@/lib/orders/types";
+
+// Every Nibbly drone launches from and returns to this hub.
+export const HUB: Place = {
+  lat: 40.7095,
+  lng: -73.9993,
+  address: "Nibbly Hub, Brooklyn Bridge",
+};
+
+export const CRUISE_SPEED_MPS = 13;
+export const CRUISE_ALTITUDE_FT = 400;
+// Climbing out of the hub and landing add about this much to every flight.
+const TAKEOFF_AND_LANDING_S = 90;
+
+export interface ServiceZone {
+  name: string;
+  polygon: GeoPoint[];
+}
+
+export const SERVICE_ZONES: ServiceZone[] = [
+  {
+    // Battery Park to 14th Street, river to river.
+    name: "Lower Manhattan",
+    polygon: [
+      { lat: 40.7003, lng: -74.0150 },
+      { lat: 40.7040, lng: -74.0185 },
+      { lat: 40.7100, lng: -74.0170 },
+      { lat: 40.7160, lng: -74.0135 },
+      { lat: 40.7230, lng: -74.0125 },
+      { lat: 40.7300, lng: -74.0110 },
+      { lat: 40.7370, lng: -74.0100 },
+      { lat: 40.7420, lng: -74.0085 },
+      { lat: 40.7295, lng: -73.9740 },
+      { lat: 40.7250, lng: -73.9715 },
+      { lat: 40.7170, lng: -73.9745 },
+      { lat: 40.7115, lng: -73.9780 },
+      { lat: 40.7085, lng: -73.9900 },
+      { lat: 40.7060, lng: -74.0020 },
+      { lat: 40.7020, lng: -74.0090 },
+    ],
+  },
+];
+
+export const coveringZone = (point: GeoPoint) =>
+  SERVICE_ZONES.find((zone) => pointInPolygon(point, zone.polygon)) ?? null;
+
+export const isCovered = (point: GeoPoint) => coveringZone(point) !== null;
+
+// The closest point any zone covers, and how far away it is.
+export const nearestCoveredPoint = (point: GeoPoint) =>
+  SERVICE_ZONES.map((zone) => {
+    const nearest = nearestOnPolygon(point, zone.polygon);
+    return { zone, point: nearest, distanceMeters: distanceMeters(point, nearest) };
+  }).reduce((best, candidate) => (candidate.distanceMeters < best.distanceMeters ? candidate : best));
+
+// Straight-line flight time from the hub, rounded up to whole minutes.
+export const flightMinutes = (point: GeoPoint) =>
+  Math.ceil((distanceMeters(HUB, point) / CRUISE_SPEED_MPS + TAKEOFF_AND_LANDING_S) / 60);
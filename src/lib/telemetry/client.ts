@@ -0,0 +1,9 @@
+import { verificationSession } from "@/lib/verification/session";
+import { createTelemetrySimulator } from "@/mocks/telemetry";
+import { createEventSourceTelemetry } from "./sse";
+
+const apiUrl = import.meta.env.VITE_ORDER_API_URL;
+
+export const telemetrySource = apiUrl
+  ? createEventSourceTelemetry(apiUrl, verificationSession.getToken)
+  : createTelemetrySimulator(verificationSession.getToken);
@@ -0,0 +1,35 @@
+import type { TelemetryFrame, TelemetrySource } from "./types";
+
+// Server-sent events from `${baseUrl}/orders/:orderId/telemetry`, one JSON
+// TelemetryFrame per message. EventSource can't send headers, so the order's
+// verification token goes in the query string.
+export const createEventSourceTelemetry = (
+  baseUrl: string,
+  getToken: (orderId: string) => string | null = () => null,
+): TelemetrySource => ({
+  subscribe: (orderId, onFrame, onError) => {
+    const url = new URL(`${baseUrl}/orders/${encodeURIComponent(orderId)}/telemetry`, window.location.origin);
+    const token = getToken(orderId);
+    if (token) url.searchParams.set("token", token);
+    const source = new EventSource(url);
+
+    source.onmessage = (event) => {
+      let frame: TelemetryFrame;
+      try {
+        frame = JSON.parse(event.data) as TelemetryFrame;
+      } catch {
+        // A malformed frame is skipped; the next one carries the full state.
+        return;
+      }
+      onFrame(frame);
+    };
+    source.onerror = () => {
+      // EventSource reconnects by itself unless the server closed the stream.
+      if (source.readyState === EventSource.CLOSED) {
+        onError?.(new Error(`Telemetry stream for ${orderId} closed`));
+      }
+    };
+
+    return () => source.close();
+  },
+});
@@ -0,0 +1,21 @@
+import type { DeliveryStage } from "@/lib/orders/lifecycle";
+import type { GeoPoint } from "@/lib/orders/types";
+
+export interface TelemetryFrame {
+  orderId: string;
+  // Left out unless the customer has verified they own the order.
+  position?: GeoPoint;
+  altitudeFt: number;
+  status: DeliveryStage;
+  etaSeconds: number;
+  timestamp: string;
+}
+
+export interface TelemetrySource {
+  // Streams frames for one order until the returned function is called.
+  subscribe: (
+    orderId: string,
+    onFrame: (frame: TelemetryFrame) => void,
+    onError?: (error: Error) => void,
+  ) => () => void;
+}
@@ -0,0 +1,9 @@
+import { MOCK_API_URL, mockApiFetch } from "@/mocks/api";
+import { createFetchVerificationService } from "./service";
+
+const apiUrl = import.meta.env.VITE_ORDER_API_URL;
+
+export const verificationService = createFetchVerificationService({
+  baseUrl: apiUrl ?? MOCK_API_URL,
+  fetch: apiUrl ? undefined : mockApiFetch,
+});
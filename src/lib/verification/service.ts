@@ -0,0 +1,70 @@
+import type { VerificationGrant } from "./session";
+
+export interface VerificationChallenge {
+  verificationId: string;
+  // Where the code went, masked, e.g. "•••• 4821".
+  sentTo: string;
+  // Only the mock API returns the code, so demos work without a phone.
+  devCode?: string;
+}
+
+export interface VerificationService {
+  // Sends a one-time code if `contact` matches the phone or email on the order.
+  start: (orderId: string, contact: string) => Promise<VerificationChallenge>;
+  confirm: (orderId: string, verificationId: string, code: string) => Promise<VerificationGrant>;
+}
+
+// Why a step failed, so the form can say it in the customer's language.
+export type VerificationFailure = "mismatch" | "invalid-code" | "unavailable";
+
+export class VerificationError extends Error {
+  constructor(message: string, readonly reason: VerificationFailure, readonly status?: number) {
+    super(message);
+    this.name = "VerificationError";
+  }
+}
+
+interface FetchVerificationServiceOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+export const createFetchVerificationService = ({
+  baseUrl,
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+}: FetchVerificationServiceOptions): VerificationService => {
+  // A 403 means the service turned down what the customer entered; anything
+  // else means it couldn't answer.
+  const post = async <T>(path: string, body: unknown, refusal: VerificationFailure): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new VerificationError(`Could not reach the verification service: ${(error as Error).message}`, "unavailable");
+    }
+    if (!response.ok) {
+      const reason = response.status === 403 ? refusal : "unavailable";
+      throw new VerificationError(`Verification failed with status ${response.status}`, reason, response.status);
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    start: (orderId, contact) =>
+      post<VerificationChallenge>(
+        `/orders/${encodeURIComponent(orderId)}/verifications`,
+        { contact },
+        "mismatch",
+      ),
+    confirm: (orderId, verificationId, code) =>
+      post<VerificationGrant>(
+        `/orders/${encodeURIComponent(orderId)}/verifications/${encodeURIComponent(verificationId)}`,
+        { code },
+        "invalid-code",
+      ),
+  };
+};
@@ -0,0 +1,46 @@
+export interface VerificationGrant {
+  token: string;
+  expiresAt: string;
+}
+
+const STORAGE_KEY = "nibbly.verifiedOrders";
+
+// Remembers which orders the customer has proven they own, for the rest of the
+// browser session, so they are not asked again on every message.
+export const createVerificationSession = (storage?: Storage) => {
+  const listeners = new Set<() => void>();
+  let grants: Record<string, VerificationGrant> = {};
+
+  try {
+    grants = JSON.parse(storage?.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    grants = {};
+  }
+
+  const getToken = (orderId: string) => {
+    const grant = grants[orderId];
+    return grant && Date.parse(grant.expiresAt) > Date.now() ? grant.token : null;
+  };
+
+  return {
+    getToken,
+    isVerified: (orderId: string) => getToken(orderId) !== null,
+    save: (orderId: string, grant: VerificationGrant) => {
+      grants = { ...grants, [orderId]: grant };
+      storage?.setItem(STORAGE_KEY, JSON.stringify(grants));
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export type VerificationSession = ReturnType<typeof createVerificationSession>;
+
+export const verificationSession = createVerificationSession(
+  typeof sessionStorage === "undefined" ? undefined : sessionStorage
+);
@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { reportError } from "@/lib/diagnostics";
+import { locales, type Translator } from "@/lib/i18n/types";
+
+const HEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const HSL = /^(?:hsl\()?\s*(\d+(?:\.\d+)?)(?:deg)?[\s,]+(\d+(?:\.\d+)?)%[\s,]+(\d+(?:\.\d+)?)%\s*\)?$/i;
+
+// The stylesheet consumes colors as bare HSL channels ("48 100% 70%"), so every accepted
+// format is normalised to that.
+const toHslChannels = (color: string): string | null => {
+  const hsl = color.trim().match(HSL);
+  if (hsl) return `${hsl[1]} ${hsl[2]}% ${hsl[3]}%`;
+
+  const hex = color.trim().match(HEX);
+  if (!hex) return null;
+  const digits = hex[1].length === 3 ? [...hex[1]].map(digit => digit + digit).join("") : hex[1];
+  const [r, g, b] = [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16) / 255);
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  let hue = 0;
+  let saturation = 0;
+  if (delta > 0) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    if (max === r) hue = ((g - b) / delta) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue = (hue * 60 + 360) % 360;
+  }
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return `${round(hue)} ${round(saturation * 100)}% ${round(lightness * 100)}%`;
+};
+
+const color = z.string().transform((value, context) => {
+  const channels = toHslChannels(value);
+  if (!channels) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a hex or HSL color` });
+    return z.NEVER;
+  }
+  return channels;
+});
+
+export const launcherIcons = ["chat", "plane", "help", "headset"] as const;
+
+export const widgetConfigSchema = z.object({
+  title: z.string().min(1).max(40).default("Nibbly Support"),
+  subtitle: z.string().max(60).default("Online"),
+  // `{name}` is replaced with the customer's name when the host page has identified them.
+  // Left out, the greeting is the catalog's, in the conversation's language.
+  greeting: z.string().min(1).optional(),
+  // The language a conversation starts in; left out, it follows the visitor's browser.
+  locale: z.enum(locales).optional(),
+  avatarUrl: z.string().url().optional(),
+  launcherIcon: z.union([z.enum(launcherIcons), z.string().url()]).default("chat"),
+  position: z.enum(["left", "right"]).default("right"),
+  width: z.coerce.number().int().min(280).max(600).default(320),
+  height: z.coerce.number().int().min(360).max(900).default(500),
+  // Conversations untouched for longer than this are deleted from the customer's browser.
+  retentionDays: z.coerce.number().int().min(1).max(365).default(30),
+  // How upset a customer has to seem before the bot apologizes and offers a person.
+  // Lower escalates sooner; a single angry message scores around 3.
+  escalationThreshold: z.coerce.number().min(1).max(20).default(3),
+  colors: z
+    .object({
+      primary: color,
+      primaryForeground: color,
+      background: color,
+      foreground: color,
+      muted: color,
+      mutedForeground: color,
+      accent: color,
+      border: color,
+    })
+    .partial()
+    .default({}),
+  gradient: z
+    .object({
+      from: color,
+      to: color,
+      angle: z.coerce.number().min(0).max(360).default(135),
+    })
+    .optional(),
+});
+
+export type WidgetConfig = z.infer<typeof widgetConfigSchema>;
+export type WidgetConfigInput = z.input<typeof widgetConfigSchema>;
+
+export const defaultWidgetConfig = widgetConfigSchema.parse({});
+
+const withoutPath = (value: unknown, path: (string | number)[]): unknown => {
+  if (path.length === 0 || typeof value !== "object" || value === null) return undefined;
+  const [key, ...rest] = path;
+  const copy: Record<string | number, unknown> = { ...value };
+  if (rest.length === 0) delete copy[key];
+  else copy[key] = withoutPath(copy[key], rest);
+  return copy;
+};
+
+// Invalid fields fall back to their defaults rather than discarding a partner's whole config.
+export const parseWidgetConfig = (input: unknown): WidgetConfig => {
+  const result = widgetConfigSchema.safeParse(input ?? {});
+  if (result.success) return result.data;
+
+  reportError("Ignoring invalid widget config", result.error.issues);
+  let candidate = input;
+  for (const issue of result.error.issues) {
+    if (issue.path.length === 0) return defaultWidgetConfig;
+    candidate = withoutPath(candidate, issue.path);
+  }
+  const retried = widgetConfigSchema.safeParse(candidate);
+  return retried.success ? retried.data : defaultWidgetConfig;
+};
+
+export const mergeWidgetConfig = (...inputs: (WidgetConfigInput | undefined)[]): WidgetConfigInput =>
+  inputs.reduce<WidgetConfigInput>(
+    (merged, input) => ({
+      ...merged,
+      ...input,
+      colors: { ...merged.colors, ...input?.colors },
+    }),
+    {}
+  );
+
+export const personalizedGreeting = (config: WidgetConfig, t: Translator, name?: string) => {
+  const greeting = config.greeting ?? t("chat.greeting");
+  return name ? greeting.replace(/\{name\}/g, name) : greeting.replace(/\s*\{name\}/g, "");
+};
+
+const colorVariables: Record<keyof WidgetConfig["colors"], string[]> = {
+  primary: ["--primary", "--ring", "--chat-user-bubble"],
+  primaryForeground: ["--primary-foreground", "--chat-user-text"],
+  background: ["--background", "--card", "--popover", "--chat-background"],
+  foreground: ["--foreground", "--card-foreground", "--popover-foreground", "--chat-bot-text"],
+  muted: ["--muted", "--secondary", "--chat-bot-bubble"],
+  mutedForeground: ["--muted-foreground"],
+  accent: ["--accent"],
+  border: ["--border", "--input"],
+};
+
+// Overrides for the design-system variables in index.css; unset colors keep the stylesheet's values.
+export const themeVariables = (config: WidgetConfig): Record<string, string> => {
+  const variables: Record<string, string> = {};
+  for (const [key, names] of Object.entries(colorVariables)) {
+    const value = config.colors[key as keyof WidgetConfig["colors"]];
+    if (value) names.forEach(name => (variables[name] = value));
+  }
+
+  const { gradient, colors } = config;
+  if (gradient) {
+    variables["--gradient-primary"] = `linear-gradient(${gradient.angle}deg, hsl(${gradient.from}), hsl(${gradient.to}))`;
+  } else if (colors.primary) {
+    // The default gradient is butter yellow, which would clash with a rebranded primary.
+    variables["--gradient-primary"] = `linear-gradient(hsl(${colors.primary}), hsl(${colors.primary}))`;
+  }
+  return variables;
+};
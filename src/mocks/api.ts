@@ -0,0 +1,10 @@
+import { createMockFetch } from "./server";
+import { claimRoutes } from "./claims";
+import { orderRoutes } from "./orders";
+import { refundRoutes } from "./refunds";
+import { verificationRoutes } from "./verification";
+
+// The in-browser stand-in for the Nibbly API, used when VITE_ORDER_API_URL is unset.
+export const MOCK_API_URL = "/api";
+
+export const mockApiFetch = createMockFetch(MOCK_API_URL, [...orderRoutes, ...refundRoutes, ...claimRoutes, ...verificationRoutes]);
@@ -0,0 +1,57 @@
+import { checkClaim, checkClaimRequest } from "@/lib/claims/policy";
+import type { ClaimFailure } from "@/lib/claims/service";
+import type { Claim, ClaimRequest } from "@/lib/claims/types";
+import { findOrder } from "./orders";
+import { claimLedger } from "./ledger";
+import type { MockRoute } from "./server";
+import { isAuthorized, requestToken } from "./verification";
+
+// Roughly what a 500 KB JPEG takes up as a data URL.
+const MAX_PHOTO_DATA_URL_LENGTH = 700_000;
+
+export const claimRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    path: "/orders/:orderId/claims",
+    handle: (request) => {
+      const order = findOrder(request.params.orderId);
+      if (!order) return { status: 404, body: { error: "Order not found" } };
+      if (!isAuthorized(order.id, requestToken(request))) {
+        return { status: 403, body: { error: "verification-required" } satisfies ClaimFailure };
+      }
+
+      const key = request.headers.get("Idempotency-Key");
+      if (!key) return { status: 400, body: { error: "Idempotency-Key header is required" } };
+      const existing = claimLedger.byKey(key);
+      if (existing) return { body: existing };
+
+      const refusal = checkClaim(order);
+      if (refusal) return { status: 409, body: { error: "refused", refusal } satisfies ClaimFailure };
+
+      const claim = request.body as Omit<ClaimRequest, "idempotencyKey">;
+      const invalid = checkClaimRequest(order, claim);
+      if (invalid) return { status: 422, body: { error: "invalid", ...invalid } satisfies ClaimFailure };
+      if (claim.photos.some((photo) => !photo.startsWith("data:image/") || photo.length > MAX_PHOTO_DATA_URL_LENGTH)) {
+        return { status: 413, body: { error: "invalid", reason: "photo-too-large" } satisfies ClaimFailure };
+      }
+
+      const now = new Date();
+      const created: Claim = {
+        id: `CLM-${order.id}-${now.getTime().toString(36).toUpperCase()}`,
+        orderId: order.id,
+        items: claim.items.map((item) => ({
+          ...item,
+          name: order.items.find((candidate) => candidate.sku === item.sku)!.name,
+        })),
+        resolution: claim.resolution,
+        photoCount: claim.photos.length,
+        note: claim.note?.trim() || undefined,
+        status: "in-review",
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+      claimLedger.put(created, key);
+      return { status: 201, body: created };
+    },
+  },
+];
@@ -0,0 +1,89 @@
+import { distanceMeters, interpolate } from "@/lib/geo";
+import { advance, currentStage, replay, type DeliveryStage, type StageEvent } from "@/lib/orders/lifecycle";
+import type { GeoPoint } from "@/lib/orders/types";
+import { CRUISE_ALTITUDE_FT, CRUISE_SPEED_MPS, HUB } from "@/lib/service-area";
+import type { TelemetryFrame } from "@/lib/telemetry/types";
+
+// Share of the flight spent climbing out of the hub and descending to the customer.
+const CLIMB_SHARE = 0.1;
+// How far along the route an order that is already in the air starts out.
+const IN_FLIGHT_PROGRESS = 0.4;
+// How long the merchant takes to accept, and the hub to load the drone.
+const ACCEPT_MS = 60_000;
+const LOADING_MS = 60_000;
+
+export interface DeliveryPlan {
+  from: GeoPoint;
+  to: GeoPoint;
+  launchAt: number;
+  arrivalAt: number;
+  // Every stage the order will pass through, including ones still in the future.
+  schedule: StageEvent[];
+}
+
+interface PlanInput {
+  stage: DeliveryStage;
+  placedAt: string;
+  destination: GeoPoint;
+  // Negative for orders that have already landed.
+  arrivesInMinutes: number;
+}
+
+// Schedules an order's remaining stages so that it is at `stage` now and lands
+// when `arrivesInMinutes` runs out. Orders already in the air are placed part-way.
+export const planDelivery = ({ stage, placedAt, destination, arrivesInMinutes }: PlanInput, now: number): DeliveryPlan => {
+  const etaMs = arrivesInMinutes * 60_000;
+  const nominalMs = (distanceMeters(HUB, destination) / CRUISE_SPEED_MPS) * 1000;
+  const flightMs = stage === "In Transit"
+    ? Math.max(nominalMs, etaMs / (1 - IN_FLIGHT_PROGRESS))
+    : etaMs > 0 ? Math.min(nominalMs, etaMs) : nominalMs;
+  const arrivalAt = now + etaMs;
+  const launchAt = arrivalAt - flightMs;
+  const placed = Date.parse(placedAt);
+
+  const schedule = replay([
+    { stage: "Placed", at: new Date(placed) },
+    { stage: "Preparing", at: new Date(Math.min(placed + ACCEPT_MS, launchAt - LOADING_MS)) },
+    { stage: "Picked Up", at: new Date(launchAt - LOADING_MS) },
+    { stage: "Launched", at: new Date(launchAt) },
+    { stage: "In Transit", at: new Date(launchAt + flightMs * CLIMB_SHARE) },
+    { stage: "Descending", at: new Date(arrivalAt - flightMs * CLIMB_SHARE) },
+    { stage: "Delivered", at: new Date(arrivalAt) },
+  ]);
+
+  return {
+    from: { lat: HUB.lat, lng: HUB.lng },
+    to: { lat: destination.lat, lng: destination.lng },
+    launchAt,
+    arrivalAt,
+    schedule,
+  };
+};
+
+export const historyAt = (plan: DeliveryPlan, now: number) =>
+  plan.schedule.filter(event => Date.parse(event.at) <= now);
+
+// Stops the order where it is at `at`; the drone never leaves the hub.
+export const cancelDelivery = (plan: DeliveryPlan, at: number): DeliveryPlan => ({
+  ...plan,
+  launchAt: Infinity,
+  arrivalAt: at,
+  schedule: advance(historyAt(plan, at), "Cancelled", new Date(at)),
+});
+
+export const frameAt = (orderId: string, plan: DeliveryPlan, now: number): TelemetryFrame => {
+  const etaSeconds = Math.max(0, Math.round((plan.arrivalAt - now) / 1000));
+  const status = currentStage(historyAt(plan, now));
+  const base = { orderId, etaSeconds, status, timestamp: new Date(now).toISOString() };
+
+  if (now < plan.launchAt) return { ...base, position: plan.from, altitudeFt: 0 };
+  if (now >= plan.arrivalAt) return { ...base, position: plan.to, altitudeFt: 0 };
+
+  const progress = (now - plan.launchAt) / (plan.arrivalAt - plan.launchAt);
+  const climb = Math.min(progress, 1 - progress) / CLIMB_SHARE;
+  return {
+    ...base,
+    position: interpolate(plan.from, plan.to, progress),
+    altitudeFt: Math.round(CRUISE_ALTITUDE_FT * Math.min(1, climb)),
+  };
+};
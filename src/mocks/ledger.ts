@@ -0,0 +1,57 @@
+import type { Claim } from "@/lib/claims/types";
+import type { Refund } from "@/lib/refunds/types";
+
+interface LedgerData<T> {
+  records: T[];
+  // Record ids by the idempotency key of the request that created them.
+  keys: Record<string, string>;
+}
+
+// A mock API record of refunds or claims, kept in localStorage so it survives
+// reloads like a real ledger would.
+export const createLedger = <T extends { id: string; orderId: string; createdAt: string }>(
+  storageKey: string,
+  storage?: Storage,
+) => {
+  let data: LedgerData<T> = { records: [], keys: {} };
+
+  // Read again on every call, so the agent console sees refunds a customer asked
+  // for in another tab.
+  const load = () => {
+    if (!storage) return data;
+    try {
+      data = { records: [], keys: {}, ...JSON.parse(storage.getItem(storageKey) ?? "{}") };
+    } catch {
+      // A corrupt ledger starts over rather than breaking the mock API.
+    }
+    return data;
+  };
+
+  const save = () => storage?.setItem(storageKey, JSON.stringify(data));
+
+  return {
+    all: () => [...load().records].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    get: (id: string) => load().records.find((record) => record.id === id) ?? null,
+    forOrder: (orderId: string) => load().records.filter((record) => record.orderId === orderId),
+    byKey: (key: string) => {
+      const id = load().keys[key];
+      return id ? data.records.find((record) => record.id === id) ?? null : null;
+    },
+    put: (record: T, key?: string) => {
+      load();
+      data = {
+        records: [...data.records.filter((existing) => existing.id !== record.id), record],
+        keys: key ? { ...data.keys, [key]: record.id } : data.keys,
+      };
+      save();
+    },
+  };
+};
+
+const storage = typeof localStorage === "undefined" ? undefined : localStorage;
+
+export const refundLedger = createLedger<Refund>("nibbly.refundLedger", storage);
+export const claimLedger = createLedger<Claim>("nibbly.claimLedger", storage);
+
+// What customers see of a refund: everything but the audit trail.
+export const customerView = ({ audit, ...refund }: Refund): Refund => refund;
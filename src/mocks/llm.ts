@@ -0,0 +1,111 @@
+import type { ChatCompletionChunk, ChatCompletionMessage, ChatCompletionRequest } from "@/lib/llm/types";
+import type { Order } from "@/lib/orders/types";
+import type { MockRoute } from "./server";
+
+// A deterministic stand-in for a chat completions model: the same messages
+// always produce the same stream. It only answers order questions with
+// confidence; anything else comes back with low logprobs so the adapter falls
+// back to the rule-based bot.
+
+const CONFIDENT_LOGPROB = -0.05;
+const UNSURE_LOGPROB = -2;
+
+const textChunks = (content: string, logprob: number): ChatCompletionChunk[] => [
+  ...(content.match(/\S+\s*/g) ?? []).map((token) => ({
+    choices: [{
+      index: 0,
+      delta: { content: token },
+      logprobs: { content: [{ token, logprob }] },
+      finish_reason: null,
+    }],
+  })),
+  { choices: [{ index: 0, delta: {}, finish_reason: "stop" }] },
+];
+
+const toolCallChunks = (id: string, name: string, args: Record<string, string>): ChatCompletionChunk[] => [
+  {
+    choices: [{
+      index: 0,
+      delta: { role: "assistant", tool_calls: [{ index: 0, id, type: "function", function: { name, arguments: "" } }] },
+      finish_reason: null,
+    }],
+  },
+  {
+    choices: [{
+      index: 0,
+      delta: { tool_calls: [{ index: 0, function: { arguments: JSON.stringify(args) } }] },
+      finish_reason: null,
+    }],
+  },
+  { choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }] },
+];
+
+const answerToolResult = (name: string, result: Record<string, unknown>) => {
+  switch (result.error) {
+    case undefined:
+      break;
+    case "not_found":
+      return `I couldn't find order ${result.order_id}. Could you double-check the number?`;
+    case "verification_required":
+      return "First I need to check the order is yours. Please confirm the phone number or email on it above.";
+    case "not_identified":
+      return "I can only see your orders once you're signed in. Could you tell me an order number instead?";
+    default:
+      return "I couldn't get through to our systems just now. Please try again in a moment.";
+  }
+
+  switch (result.status) {
+    case "awaiting_customer":
+      return "Just answer the question above and I'll take it from there.";
+    case "refused":
+      return String(result.explanation ?? "I'm sorry, I can't do that for this order.");
+  }
+
+  if (name === "lookup_order") {
+    const order = result as unknown as Order;
+    return `Your order ${order.id} from ${order.merchant} is ${order.status.toLowerCase()} and should arrive in about ${order.etaMinutes} minutes.`;
+  }
+  return "Done. Is there anything else I can help with?";
+};
+
+// Refund reasons by the words customers use for them; anything else is asked for.
+const refundReasons: [RegExp, string][] = [
+  [/\bmissing\b/i, "missing-item"],
+  [/\bwrong\b/i, "wrong-item"],
+  [/\b(damaged|broken|crushed|spilled)\b/i, "damaged"],
+  [/\b(cold|stale|taste[sd]?|quality)\b/i, "quality"],
+  [/\bnever (came|arrived)\b/i, "not-delivered"],
+];
+
+const complete = (messages: ChatCompletionMessage[]): ChatCompletionChunk[] => {
+  const last = messages[messages.length - 1];
+
+  if (last.role === "tool") {
+    const call = messages
+      .flatMap((message) => (message.role === "assistant" ? message.tool_calls ?? [] : []))
+      .find((candidate) => candidate.id === last.tool_call_id);
+    return textChunks(answerToolResult(call?.function.name ?? "", JSON.parse(last.content)), CONFIDENT_LOGPROB);
+  }
+
+  const text = last.role === "user" ? last.content : "";
+  const orderId = text.match(/\bn\d{3}\b/i)?.[0].toUpperCase();
+  if (!orderId) {
+    return textChunks("I'm not completely sure what you mean, but I can try to help with that.", UNSURE_LOGPROB);
+  }
+
+  const id = `call_${messages.length}`;
+  if (/\bcancel/i.test(text)) return toolCallChunks(id, "cancel_order", { order_id: orderId });
+  if (/\brefund/i.test(text)) {
+    const reason = refundReasons.find(([pattern]) => pattern.test(text))?.[1];
+    return toolCallChunks(id, "request_refund", { order_id: orderId, ...(reason ? { reason } : {}) });
+  }
+  return toolCallChunks(id, "lookup_order", { order_id: orderId });
+};
+
+export const llmRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    path: "/chat/completions",
+    handle: ({ body }) => ({ events: complete((body as ChatCompletionRequest).messages) }),
+  },
+];
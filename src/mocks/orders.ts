@@ -0,0 +1,167 @@
+import { checkCancellation, type CancellationResult } from "@/lib/orders/cancellation";
+import { currentStage, type DeliveryStage } from "@/lib/orders/lifecycle";
+import type { Order, Place } from "@/lib/orders/types";
+import { cancelDelivery, historyAt, planDelivery, type DeliveryPlan } from "./deliveries";
+import { claimLedger, customerView, refundLedger } from "./ledger";
+import type { MockRoute } from "./server";
+import { customerTokenContact, isAuthorized, ordersForContact, requestToken } from "./verification";
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString();
+
+// How each order looks when the mock starts; `deliveries.ts` moves it along from there.
+interface SeedOrder extends Omit<Order, "status" | "history" | "etaMinutes"> {
+  destination: Place;
+  stage: DeliveryStage;
+  arrivesInMinutes: number;
+}
+
+const seedOrders: SeedOrder[] = [
+  {
+    id: "N001",
+    stage: "In Transit",
+    arrivesInMinutes: 4,
+    area: "Greenwich Village",
+    location: { lat: 40.7505, lng: -73.9934, address: "Near Washington Square Park" },
+    destination: { lat: 40.7295, lng: -73.9965, address: "70 Washington Square S" },
+    merchant: "Joe's Pizza",
+    items: [
+      { sku: "JP-CHEESE", name: "Cheese slice", quantity: 2, unitPrice: 3.5 },
+      { sku: "JP-SODA", name: "Fountain soda", quantity: 1, unitPrice: 2.25 },
+    ],
+    placedAt: minutesAgo(11),
+  },
+  {
+    id: "N002",
+    stage: "In Transit",
+    arrivesInMinutes: 7,
+    area: "West Village",
+    location: { lat: 40.7614, lng: -73.9776, address: "Above Union Square" },
+    destination: { lat: 40.7336, lng: -74.0027, address: "88 Seventh Ave S" },
+    merchant: "Union Square Greenmarket",
+    items: [
+      { sku: "GM-APPLES", name: "Honeycrisp apples (1 lb)", quantity: 2, unitPrice: 4 },
+      { sku: "GM-BREAD", name: "Sourdough loaf", quantity: 1, unitPrice: 7.5 },
+    ],
+    placedAt: minutesAgo(9),
+  },
+  {
+    id: "N003",
+    stage: "Preparing",
+    arrivesInMinutes: 12,
+    area: "Financial District",
+    location: { lat: 40.7831, lng: -73.9712, address: "Central Park South" },
+    destination: { lat: 40.7127, lng: -74.0134, address: "200 Liberty St" },
+    merchant: "Bluestone Lane",
+    items: [
+      { sku: "BL-FLATWHITE", name: "Flat white", quantity: 2, unitPrice: 5.25 },
+      { sku: "BL-AVOTOAST", name: "Avocado toast", quantity: 1, unitPrice: 14 },
+    ],
+    placedAt: minutesAgo(2),
+  },
+  {
+    id: "N004",
+    stage: "Delivered",
+    arrivesInMinutes: -20,
+    area: "Tribeca",
+    location: { lat: 40.7177, lng: -74.0086, address: "60 Hudson St" },
+    destination: { lat: 40.7177, lng: -74.0086, address: "60 Hudson St" },
+    merchant: "Los Tacos No. 1",
+    items: [
+      { sku: "LT-ADOBADA", name: "Adobada taco", quantity: 3, unitPrice: 4.75 },
+      { sku: "LT-HORCHATA", name: "Horchata", quantity: 1, unitPrice: 3.5 },
+    ],
+    placedAt: minutesAgo(45),
+  },
+];
+
+const startedAt = Date.now();
+const seeds = new Map(seedOrders.map((order) => [order.id, order]));
+const plans = new Map(seedOrders.map((order) => [order.id, planDelivery(order, startedAt)]));
+// Cancellation references by order id.
+const cancellations = new Map<string, string>();
+
+export const findDeliveryPlan = (orderId: string): DeliveryPlan | null => plans.get(orderId.toUpperCase()) ?? null;
+
+// The order as it stands right now.
+export const findOrder = (orderId: string): Order | null => {
+  const seed = seeds.get(orderId.toUpperCase());
+  const plan = findDeliveryPlan(orderId);
+  if (!seed || !plan) return null;
+
+  const now = Date.now();
+  const { stage, arrivesInMinutes, ...order } = seed;
+  const history = historyAt(plan, now);
+  return {
+    ...order,
+    status: currentStage(history),
+    history,
+    etaMinutes: Math.max(0, Math.ceil((plan.arrivalAt - now) / 60_000)),
+    refunds: refundLedger.forOrder(seed.id).map(customerView),
+    claims: claimLedger.forOrder(seed.id),
+  };
+};
+
+// Without a verification token for the order, leave out where it is.
+const redact = ({ location, destination, ...order }: Order): Order => order;
+
+export const orderRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    path: "/orders",
+    handle: async (request) => {
+      // The mock knows customers only by the contacts on their orders, so the
+      // token is signed for an email or phone.
+      const contact = await customerTokenContact(requestToken(request));
+      if (!contact) return { status: 401, body: { error: "A signed customer token is required" } };
+      const orders = ordersForContact(contact)
+        .map((orderId) => findOrder(orderId))
+        .filter((order): order is Order => !!order)
+        .sort((a, b) => b.placedAt.localeCompare(a.placedAt));
+      return { body: { orders: orders.map(redact) } };
+    },
+  },
+  {
+    method: "GET",
+    path: "/orders/:orderId",
+    handle: (request) => {
+      const order = findOrder(request.params.orderId);
+      if (!order) return { status: 404, body: { error: "Order not found" } };
+      return { body: isAuthorized(order.id, requestToken(request)) ? order : redact(order) };
+    },
+  },
+  {
+    method: "POST",
+    path: "/orders/:orderId/cancellation",
+    handle: (request) => {
+      const order = findOrder(request.params.orderId);
+      const plan = findDeliveryPlan(request.params.orderId);
+      if (!order || !plan) return { status: 404, body: { error: "Order not found" } };
+      if (!isAuthorized(order.id, requestToken(request))) {
+        return { status: 403, body: { error: "Verify the order before cancelling it" } };
+      }
+
+      const now = Date.now();
+      const refusal = checkCancellation(order, undefined, now);
+      if (refusal) {
+        const result: CancellationResult = {
+          status: "refused",
+          orderId: order.id,
+          reason: refusal,
+          reference: cancellations.get(order.id),
+        };
+        return { status: 409, body: result };
+      }
+
+      const reference = `CAN-${order.id}-${now.toString(36).toUpperCase()}`;
+      cancellations.set(order.id, reference);
+      plans.set(order.id, cancelDelivery(plan, now));
+      const result: CancellationResult = {
+        status: "cancelled",
+        orderId: order.id,
+        reference,
+        cancelledAt: new Date(now).toISOString(),
+      };
+      return { body: result };
+    },
+  },
+];
@@ -0,0 +1,99 @@
+import { formatAmount } from "@/lib/i18n/format";
+import {
+  checkRefund,
+  defaultRefundPolicy,
+  findReason,
+  refundLines,
+  refundTotal,
+} from "@/lib/refunds/policy";
+import type { AuditEntry, Refund, RefundRequest, RefundResult, RefundReview } from "@/lib/refunds/types";
+import { findOrder } from "./orders";
+import { customerView, refundLedger } from "./ledger";
+import type { MockRoute } from "./server";
+import { isAuthorized, requestToken } from "./verification";
+
+const audit = (actor: string, action: AuditEntry["action"], note?: string): AuditEntry => ({
+  at: new Date().toISOString(),
+  actor,
+  action,
+  note,
+});
+
+export const refundRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    path: "/orders/:orderId/refunds",
+    handle: (request) => {
+      const order = findOrder(request.params.orderId);
+      if (!order) return { status: 404, body: { error: "Order not found" } };
+      if (!isAuthorized(order.id, requestToken(request))) {
+        return { status: 403, body: { error: "Verify the order before asking for a refund" } };
+      }
+
+      const key = request.headers.get("Idempotency-Key");
+      if (!key) return { status: 400, body: { error: "Idempotency-Key header is required" } };
+      const existing = refundLedger.byKey(key);
+      if (existing) return { body: { status: "submitted", refund: customerView(existing) } satisfies RefundResult };
+
+      const { reason: reasonId, items } = request.body as Omit<RefundRequest, "idempotencyKey">;
+      const reason = findReason(reasonId);
+      const refuse = (refusal: Extract<RefundResult, { status: "refused" }>["reason"]) => ({
+        status: 409,
+        body: { status: "refused", orderId: order.id, reason: refusal } satisfies RefundResult,
+      });
+
+      const refusal = checkRefund(order, reason);
+      if (refusal) return refuse(refusal);
+      const lines = refundLines(order, reason!, items);
+      if (!lines.length) return refuse("no-items");
+
+      const amount = refundTotal(lines);
+      const now = new Date().toISOString();
+      const autoApproved = amount <= defaultRefundPolicy.autoApproveUpTo;
+      const refund: Refund = {
+        id: `REF-${order.id}-${Date.now().toString(36).toUpperCase()}`,
+        orderId: order.id,
+        reason: reason!.id,
+        lines,
+        amount,
+        status: autoApproved ? "approved" : "pending",
+        createdAt: now,
+        updatedAt: now,
+        audit: [
+          audit("customer", "requested"),
+          ...(autoApproved
+            ? [audit("system", "approved", `Within the ${formatAmount(defaultRefundPolicy.autoApproveUpTo)} automatic approval limit`)]
+            : []),
+        ],
+      };
+      refundLedger.put(refund, key);
+      return { body: { status: "submitted", refund: customerView(refund) } satisfies RefundResult };
+    },
+  },
+  {
+    method: "GET",
+    path: "/refunds",
+    handle: () => ({ body: refundLedger.all() }),
+  },
+  {
+    method: "POST",
+    path: "/refunds/:refundId/review",
+    handle: (request) => {
+      const refund = refundLedger.get(request.params.refundId);
+      if (!refund) return { status: 404, body: { error: "Refund not found" } };
+      if (refund.status !== "pending") return { status: 409, body: { error: `Refund is already ${refund.status}` } };
+
+      const { decision, agent, note } = request.body as RefundReview;
+      if (!agent) return { status: 400, body: { error: "agent is required" } };
+      const action = decision === "approve" ? "approved" : "rejected";
+      const reviewed: Refund = {
+        ...refund,
+        status: action,
+        updatedAt: new Date().toISOString(),
+        audit: [...(refund.audit ?? []), audit(`agent:${agent}`, action, note)],
+      };
+      refundLedger.put(reviewed);
+      return { body: reviewed };
+    },
+  },
+];
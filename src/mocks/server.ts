@@ -0,0 +1,89 @@
+export interface MockRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Headers;
+  body: unknown;
+}
+
+export interface MockResponse {
+  status?: number;
+  body?: unknown;
+  // Sent as a text/event-stream, one `data:` line per event, ending in [DONE].
+  events?: unknown[];
+}
+
+export interface MockRoute {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  // Path relative to the mock base URL; `:name` segments become params.
+  path: string;
+  handle: (request: MockRequest) => MockResponse | Promise<MockResponse>;
+}
+
+interface MockFetchOptions {
+  // Simulated network latency in milliseconds.
+  latency?: number;
+}
+
+const matchPath = (pattern: string, pathname: string) => {
+  const expected = pattern.split("/").filter(Boolean);
+  const actual = pathname.split("/").filter(Boolean);
+  if (expected.length !== actual.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(":")) {
+      params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+    } else if (expected[i] !== actual[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+const json = ({ status = 200, body }: MockResponse) =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const eventStream = ({ status = 200, events }: MockResponse, latency: number) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const event of events) {
+        await new Promise((resolve) => setTimeout(resolve, latency / 10));
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+  return new Response(body, { status, headers: { "Content-Type": "text/event-stream" } });
+};
+
+// A `fetch` that answers from in-browser route handlers instead of the network,
+// so the real fetch-based clients can run without a backend.
+export const createMockFetch = (baseUrl: string, routes: MockRoute[], { latency = 300 }: MockFetchOptions = {}): typeof fetch =>
+  async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), window.location.origin);
+    const request = new Request(url, input instanceof Request ? input : init);
+    const base = new URL(baseUrl, window.location.origin);
+    const pathname = url.pathname.startsWith(base.pathname)
+      ? url.pathname.slice(base.pathname.length)
+      : url.pathname;
+
+    await new Promise((resolve) => setTimeout(resolve, latency));
+
+    for (const route of routes) {
+      if (route.method !== request.method) continue;
+      const params = matchPath(route.path, pathname);
+      if (!params) continue;
+
+      const text = await request.text();
+      const body = text ? JSON.parse(text) : undefined;
+      const response = await route.handle({ params, query: url.searchParams, headers: request.headers, body });
+      return response.events ? eventStream(response, latency) : json(response);
+    }
+
+    return json({ status: 404, body: { error: `No mock route for ${request.method} ${pathname}` } });
+  };
@@ -0,0 +1,43 @@
+import { isFinalStage } from "@/lib/orders/lifecycle";
+import type { TelemetrySource } from "@/lib/telemetry/types";
+import { frameAt } from "./deliveries";
+import { findDeliveryPlan } from "./orders";
+import { isAuthorized } from "./verification";
+
+const TICK_MS = 1000;
+
+// Replays each order's planned flight (see `deliveries.ts`) as a live stream.
+// Like the real stream, positions are only sent with a valid verification token.
+export const createTelemetrySimulator = (
+  getToken: (orderId: string) => string | null = () => null,
+): TelemetrySource => ({
+  subscribe: (orderId, onFrame, onError) => {
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let closed = false;
+
+    Promise.resolve(findDeliveryPlan(orderId)).then((plan) => {
+      if (closed) return;
+      if (!plan) {
+        onError?.(new Error(`Order ${orderId} not found`));
+        return;
+      }
+
+      const authorized = isAuthorized(orderId, getToken(orderId));
+      // Reports whether the delivery is still going, so a finished one never
+      // starts the interval.
+      const tick = () => {
+        const { position, ...frame } = frameAt(orderId, plan, Date.now());
+        onFrame(authorized ? { ...frame, position } : frame);
+        if (!isFinalStage(frame.status)) return true;
+        clearInterval(timer);
+        return false;
+      };
+      if (tick()) timer = setInterval(tick, TICK_MS);
+    });
+
+    return () => {
+      closed = true;
+      clearInterval(timer);
+    };
+  },
+});
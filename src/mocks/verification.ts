@@ -0,0 +1,119 @@
+import type { MockRequest, MockRoute } from "./server";
+
+interface Contact {
+  phone: string;
+  email: string;
+}
+
+const contacts: Record<string, Contact> = {
+  N001: { phone: "(212) 555-0101", email: "alex.rivera@example.com" },
+  N002: { phone: "(917) 555-0142", email: "sam.chen@example.com" },
+  N003: { phone: "(646) 555-0188", email: "jordan.lee@example.com" },
+  // Alex placed two orders, so "my orders" has something to compare.
+  N004: { phone: "(212) 555-0101", email: "alex.rivera@example.com" },
+};
+
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+const challenges = new Map<string, { orderId: string; code: string }>();
+const tokens = new Map<string, { orderId: string; expiresAt: number }>();
+
+const digits = (value: string) => value.replace(/\D/g, "").slice(-10);
+
+const matches = (contact: Contact, claimed: string) => {
+  const value = claimed.trim().toLowerCase();
+  if (value.includes("@")) return value === contact.email;
+  return digits(value).length === 10 && digits(value) === digits(contact.phone);
+};
+
+// Orders whose contact on file is the given email or phone.
+export const ordersForContact = (claimed: string) =>
+  Object.keys(contacts).filter((orderId) => matches(contacts[orderId], claimed));
+
+const mask = (claimed: string) =>
+  claimed.includes("@")
+    ? claimed.replace(/^(.).*(@.*)$/, "$1•••$2")
+    : `•••• ${digits(claimed).slice(-4)}`;
+
+const randomId = () => Math.random().toString(36).slice(2, 10);
+
+export const isAuthorized = (orderId: string, token: string | null | undefined) => {
+  const grant = token ? tokens.get(token) : undefined;
+  return !!grant && grant.orderId === orderId && grant.expiresAt > Date.now();
+};
+
+// Stands in for the secret the host's backend shares with the order API.
+const CUSTOMER_TOKEN_SECRET = "nibbly-mock-customer-secret";
+
+const signature = async (payload: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(CUSTOMER_TOKEN_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const bytes = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(payload)));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// What the host's backend would hand the page for `Nibbly.identify({ token })`,
+// e.g. `await signCustomerToken("alex.rivera@example.com")` in development.
+export const signCustomerToken = async (contact: string, ttl = TOKEN_TTL_MS) => {
+  const payload = btoa(JSON.stringify({ contact, expiresAt: Date.now() + ttl }));
+  return `${payload}.${await signature(payload)}`;
+};
+
+// The email or phone a customer token was signed for, or null if it is forged or expired.
+export const customerTokenContact = async (token: string | null | undefined) => {
+  const [payload, signed] = token?.split(".") ?? [];
+  if (!payload || !signed || signed !== (await signature(payload))) return null;
+  try {
+    const { contact, expiresAt } = JSON.parse(atob(payload)) as { contact: string; expiresAt: number };
+    return expiresAt > Date.now() ? contact : null;
+  } catch {
+    return null;
+  }
+};
+
+// Accepts the token as a bearer header or, for event streams, a query param.
+export const requestToken = ({ headers, query }: MockRequest) =>
+  headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? query.get("token");
+
+export const verificationRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    path: "/orders/:orderId/verifications",
+    handle: ({ params, body }) => {
+      const orderId = params.orderId.toUpperCase();
+      const claimed = String((body as { contact?: string })?.contact ?? "");
+      const contact = contacts[orderId];
+      if (!contact || !matches(contact, claimed)) {
+        return { status: 403, body: { error: "Contact does not match this order" } };
+      }
+
+      const verificationId = randomId();
+      const code = String(Math.floor(100000 + Math.random() * 900000));
+      challenges.set(verificationId, { orderId, code });
+      return { status: 201, body: { verificationId, sentTo: mask(claimed), devCode: code } };
+    },
+  },
+  {
+    method: "POST",
+    path: "/orders/:orderId/verifications/:verificationId",
+    handle: ({ params, body }) => {
+      const challenge = challenges.get(params.verificationId);
+      const code = String((body as { code?: string })?.code ?? "");
+      if (!challenge || challenge.orderId !== params.orderId.toUpperCase() || challenge.code !== code) {
+        return { status: 403, body: { error: "Invalid code" } };
+      }
+
+      challenges.delete(params.verificationId);
+      const token = randomId() + randomId();
+      const expiresAt = Date.now() + TOKEN_TTL_MS;
+      tokens.set(token, { orderId: challenge.orderId, expiresAt });
+      return { body: { token, expiresAt: new Date(expiresAt).toISOString() } };
+    },
+  },
+];
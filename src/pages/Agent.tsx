@@ -0,0 +1,386 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bot, Headset, LogOut, Package, Phone, Plane, Send, User } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AgentAvatar } from "@/components/chat/AgentAvatar";
+import { useHandoffQueue } from "@/hooks/use-handoff-queue";
+import { handoffRelay } from "@/lib/handoff/client";
+import type { AgentProfile, HandoffMessage, HandoffTicket } from "@/lib/handoff/types";
+import { formatAmount, formatDateTime } from "@/lib/i18n/format";
+import { refundService } from "@/lib/refunds/client";
+import { describeLines, findReason, reasonLabel } from "@/lib/refunds/policy";
+import type { AuditEntry, Refund, RefundReview } from "@/lib/refunds/types";
+
+const AGENT_STORAGE_KEY = "nibbly.agent";
+
+const loadAgent = (): AgentProfile | null => {
+  try {
+    return JSON.parse(localStorage.getItem(AGENT_STORAGE_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+};
+
+const formatTime = (at: string) => new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+const minutesSince = (at: string) => Math.max(0, Math.floor((Date.now() - Date.parse(at)) / 60_000));
+
+const statusLabels: Record<HandoffTicket["status"], string> = {
+  waiting: "Waiting",
+  active: "Active",
+  closed: "Ended",
+};
+
+const senderIcons = {
+  customer: User,
+  bot: Bot,
+  agent: Headset,
+};
+
+const TranscriptLine = ({ message }: { message: HandoffMessage }) => {
+  if (message.from === "system") {
+    return <p className="text-center text-[11px] text-muted-foreground">{message.text}</p>;
+  }
+  const Icon = senderIcons[message.from];
+  const isCustomer = message.from === "customer";
+  return (
+    <div className={`flex gap-2 ${isCustomer ? "" : "flex-row-reverse text-right"}`}>
+      {message.from === "agent" && message.agent
+        ? <AgentAvatar agent={message.agent} />
+        : <Icon className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" />}
+      <div className="max-w-[80%] space-y-0.5">
+        <div className={`inline-block rounded-lg p-2 text-xs ${
+          isCustomer ? "bg-muted" : message.from === "agent" ? "bg-gradient-primary" : "bg-card border"
+        }`}>
+          {message.text}
+        </div>
+        <p className="text-[10px] text-muted-foreground">
+          {message.from === "agent" ? message.agent?.name : message.from === "bot" ? "Assistant" : "Customer"} · {formatTime(message.at)}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+interface TicketRowProps {
+  ticket: HandoffTicket;
+  isSelected: boolean;
+  onSelect: () => void;
+}
+
+const TicketRow = ({ ticket, isSelected, onSelect }: TicketRowProps) => (
+  <button
+    onClick={onSelect}
+    className={`w-full rounded-md border p-2 text-left text-xs hover:bg-muted ${isSelected ? "border-primary bg-muted" : ""}`}
+  >
+    <div className="flex items-center justify-between gap-2">
+      <span className="font-semibold">{ticket.customerName ?? "Guest"}</span>
+      <span className="text-muted-foreground">{minutesSince(ticket.createdAt)} min</span>
+    </div>
+    <p className="truncate text-muted-foreground">
+      {ticket.callbackPhone && `Call ${ticket.callbackPhone} · `}
+      {ticket.orderId && `${ticket.orderId} · `}
+      {ticket.transcript.filter(message => message.from === "customer").pop()?.text ?? "No messages yet"}
+    </p>
+  </button>
+);
+
+const REFUND_REFRESH_MS = 5_000;
+// Decided refunds shown under the pending ones, newest first.
+const RECENT_REFUNDS = 5;
+
+const refundStatusVariants: Record<Refund["status"], "default" | "secondary" | "outline"> = {
+  pending: "default",
+  approved: "secondary",
+  rejected: "outline",
+};
+
+const actorLabel = (actor: AuditEntry["actor"]) =>
+  actor.startsWith("agent:") ? actor.slice("agent:".length) : actor === "system" ? "Automatic" : "Customer";
+
+const RefundRow = ({ refund, agent }: { refund: Refund; agent: AgentProfile }) => {
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState("");
+  const review = useMutation({
+    mutationFn: (decision: RefundReview["decision"]) =>
+      refundService.reviewRefund(refund.id, { decision, agent: agent.name, note: note.trim() || undefined }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["refunds"] }),
+  });
+  const reason = findReason(refund.reason);
+
+  return (
+    <div className="space-y-1 rounded-md border p-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold">{refund.id}</span>
+        <Badge variant={refundStatusVariants[refund.status]}>{refund.status}</Badge>
+      </div>
+      <p className="text-muted-foreground">
+        Order {refund.orderId} · {formatAmount(refund.amount)} · {reason ? reasonLabel(reason) : refund.reason}
+      </p>
+      <p>{describeLines(refund.lines)}</p>
+      <ul className="text-muted-foreground">
+        {refund.audit?.map((entry, index) => (
+          <li key={index}>
+            {formatDateTime(entry.at, "en")} · {actorLabel(entry.actor)} {entry.action}
+            {entry.note && `: ${entry.note}`}
+          </li>
+        ))}
+      </ul>
+      {refund.status === "pending" && (
+        <div className="flex gap-1 pt-1">
+          <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional)" className="h-7 text-xs" />
+          <Button size="sm" className="h-7" disabled={review.isPending} onClick={() => review.mutate("approve")}>
+            Approve
+          </Button>
+          <Button size="sm" variant="outline" className="h-7" disabled={review.isPending} onClick={() => review.mutate("reject")}>
+            Reject
+          </Button>
+        </div>
+      )}
+      {review.isError && <p className="text-destructive">{review.error.message}</p>}
+    </div>
+  );
+};
+
+// Refunds over the automatic approval limit wait here for an agent; decided
+// ones show who approved or rejected them.
+const RefundReviews = ({ agent }: { agent: AgentProfile }) => {
+  const { data: refunds = [], isError } = useQuery({
+    queryKey: ["refunds"],
+    queryFn: ({ signal }) => refundService.listRefunds(signal),
+    refetchInterval: REFUND_REFRESH_MS,
+  });
+  const pending = refunds.filter(refund => refund.status === "pending");
+  const decided = refunds.filter(refund => refund.status !== "pending").slice(0, RECENT_REFUNDS);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-base">
+          Refunds to review
+          <Badge variant="secondary">{pending.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isError && <p className="text-sm text-destructive">Couldn't load refunds.</p>}
+        {!isError && pending.length === 0 && <p className="text-sm text-muted-foreground">No refunds are waiting.</p>}
+        {pending.map(refund => <RefundRow key={refund.id} refund={refund} agent={agent} />)}
+        {decided.length > 0 && <p className="pt-2 text-xs font-semibold text-muted-foreground">Recently decided</p>}
+        {decided.map(refund => <RefundRow key={refund.id} refund={refund} agent={agent} />)}
+      </CardContent>
+    </Card>
+  );
+};
+
+const SignIn = ({ onSignIn }: { onSignIn: (agent: AgentProfile) => void }) => {
+  const [name, setName] = useState("");
+  return (
+    <Card className="mx-auto mt-12 max-w-sm">
+      <CardHeader>
+        <CardTitle className="text-base">Start your shift</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) onSignIn({ id: crypto.randomUUID(), name: name.trim() });
+          }}
+        >
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Your name, as customers will see it" />
+          <Button type="submit" disabled={!name.trim()}>Go</Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+const Agent = () => {
+  const [agent, setAgent] = useState(loadAgent);
+  const tickets = useHandoffQueue(handoffRelay);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const selected = tickets.find(ticket => ticket.id === selectedId) ?? null;
+  const waiting = tickets.filter(ticket => ticket.status === "waiting");
+  const mine = tickets.filter(ticket => ticket.status === "active" && ticket.agent?.id === agent?.id);
+  const isMine = selected?.status === "active" && selected.agent?.id === agent?.id;
+  // Callbacks happen by phone; the customer isn't in the chat to read replies.
+  const canReply = isMine && !selected?.callbackPhone;
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [selected?.messages.length, selectedId]);
+
+  const signIn = (profile: AgentProfile) => {
+    localStorage.setItem(AGENT_STORAGE_KEY, JSON.stringify(profile));
+    setAgent(profile);
+  };
+
+  const signOut = () => {
+    localStorage.removeItem(AGENT_STORAGE_KEY);
+    setAgent(null);
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const claim = (ticket: HandoffTicket) =>
+    run(async () => {
+      setSelectedId(ticket.id);
+      await handoffRelay.claim(ticket.id, agent!);
+    });
+
+  const send = () =>
+    run(async () => {
+      if (!selected || !reply.trim()) return;
+      await handoffRelay.send(selected.id, { from: "agent", text: reply.trim(), agent: agent! });
+      setReply("");
+    });
+
+  return (
+    <div className="min-h-screen bg-gradient-chat">
+      <header className="bg-gradient-primary text-primary-foreground">
+        <div className="container flex items-center gap-3 py-4">
+          <Plane className="h-5 w-5" />
+          <Link to="/" className="font-semibold">Nibbly</Link>
+          <span className="opacity-70">/</span>
+          <span>Agent console</span>
+          {agent && (
+            <div className="ml-auto flex items-center gap-2 text-sm">
+              <AgentAvatar agent={agent} />
+              {agent.name}
+              <Button variant="ghost" size="sm" onClick={signOut} className="h-8 hover:bg-white/20" aria-label="Sign out">
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      {!agent ? <SignIn onSignIn={signIn} /> : (
+        <main className="container grid gap-6 py-6 lg:grid-cols-[320px_1fr]">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-base">
+                  Waiting
+                  <Badge variant="secondary">{waiting.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {waiting.length === 0 && <p className="text-sm text-muted-foreground">Nobody is waiting.</p>}
+                {waiting.map(ticket => (
+                  <TicketRow
+                    key={ticket.id}
+                    ticket={ticket}
+                    isSelected={ticket.id === selectedId}
+                    onSelect={() => setSelectedId(ticket.id)}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-base">
+                  Your chats
+                  <Badge variant="secondary">{mine.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {mine.length === 0 && <p className="text-sm text-muted-foreground">Claim a waiting chat to start.</p>}
+                {mine.map(ticket => (
+                  <TicketRow
+                    key={ticket.id}
+                    ticket={ticket}
+                    isSelected={ticket.id === selectedId}
+                    onSelect={() => setSelectedId(ticket.id)}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+            <RefundReviews agent={agent} />
+          </div>
+
+          <Card className="flex h-[640px] flex-col">
+            {!selected ? (
+              <CardContent className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+                Pick a chat to read its transcript.
+              </CardContent>
+            ) : (
+              <>
+                <CardHeader className="flex-row items-center justify-between space-y-0 border-b py-3">
+                  <div>
+                    <CardTitle className="text-base">{selected.customerName ?? "Guest"}</CardTitle>
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      {selected.callbackPhone && <><Phone className="h-3 w-3" /> Call back on {selected.callbackPhone} · </>}
+                      {selected.orderId && <><Package className="h-3 w-3" /> Order {selected.orderId} · </>}
+                      Raised {formatTime(selected.createdAt)}
+                      {selected.agent && ` · ${selected.agent.name}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={selected.status === "waiting" ? "default" : "outline"}>{statusLabels[selected.status]}</Badge>
+                    {selected.status === "waiting" && <Button size="sm" onClick={() => claim(selected)}>Claim</Button>}
+                    {isMine && (
+                      <Button size="sm" variant="outline" onClick={() => run(() => handoffRelay.close(selected.id, "agent"))}>
+                        {selected.callbackPhone ? "Mark as called" : "End chat"}
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <ScrollArea className="flex-1 min-h-0 p-4">
+                  <div className="space-y-3">
+                    {selected.transcript.map(message => <TranscriptLine key={message.id} message={message} />)}
+                    <p className="border-t pt-2 text-center text-[11px] text-muted-foreground">
+                      Transferred to support at {formatTime(selected.createdAt)}
+                    </p>
+                    {selected.messages.map(message => <TranscriptLine key={message.id} message={message} />)}
+                    <div ref={endRef} />
+                  </div>
+                </ScrollArea>
+                <div className="border-t p-3">
+                  {error && <p className="mb-2 text-xs text-destructive">{error}</p>}
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      send();
+                    }}
+                  >
+                    <Input
+                      value={reply}
+                      onChange={(e) => setReply(e.target.value)}
+                      placeholder={canReply
+                        ? "Reply to the customer..."
+                        : selected.callbackPhone ? "The customer asked for a phone call" : "Claim this chat to reply"}
+                      disabled={!canReply}
+                    />
+                    <Button type="submit" disabled={!canReply || !reply.trim()} aria-label="Send">
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </form>
+                </div>
+              </>
+            )}
+          </Card>
+        </main>
+      )}
+    </div>
+  );
+};
+
+export default Agent;
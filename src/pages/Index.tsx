@@ -1,7 +1,32 @@
-import { ChatBot } from "@/components/ChatBot";
+import { useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import { ChatBot, type ChatBotHandle } from "@/components/ChatBot";
+import { extractEntities } from "@/lib/bot/entities";
 
 const Index = () => {
-  return <ChatBot />;
+  const chatBot = useRef<ChatBotHandle>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Notification links like /?order=N001&open=chat open the widget straight onto that order.
+  useEffect(() => {
+    const [orderId] = extractEntities(searchParams.get("order") ?? "").orderIds;
+    const shouldOpen = searchParams.get("open") === "chat";
+    if (!orderId && !shouldOpen) return;
+
+    if (orderId) {
+      chatBot.current?.sendMessage(`track order ${orderId}`);
+    } else {
+      chatBot.current?.open();
+    }
+
+    // Reloading the page shouldn't ask again.
+    const remaining = new URLSearchParams(searchParams);
+    remaining.delete("order");
+    remaining.delete("open");
+    setSearchParams(remaining, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  return <ChatBot ref={chatBot} />;
 };
 
 export default Index;
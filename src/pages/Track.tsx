@@ -0,0 +1,128 @@
+import { Link, useParams } from "react-router-dom";
+import { Clock, Package, Plane, Store } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChatBot } from "@/components/ChatBot";
+import { LiveMapMessage } from "@/components/chat/LiveMapMessage";
+import { OrderTimeline } from "@/components/tracking/OrderTimeline";
+import { useDelivery } from "@/hooks/use-delivery";
+import { TranslatorContext } from "@/hooks/use-translator";
+import { resolveLocale } from "@/lib/i18n/catalog";
+import { formatAmount } from "@/lib/i18n/format";
+import { translator } from "@/lib/i18n/translator";
+import { orderService } from "@/lib/orders/client";
+import { isEnRoute } from "@/lib/orders/lifecycle";
+import { telemetrySource } from "@/lib/telemetry/client";
+
+const Track = () => {
+  // The browser's language, which is also what the docked chat starts in.
+  const t = translator(resolveLocale(navigator.language));
+  const { orderId = "" } = useParams();
+  const id = orderId.toUpperCase();
+  const { data: order, isPending, isError, frame, stage: status, history } = useDelivery(orderService, id, telemetrySource);
+
+  const etaMinutes = frame ? Math.ceil(frame.etaSeconds / 60) : order?.etaMinutes;
+  const total = order?.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0) ?? 0;
+
+  return (
+    <TranslatorContext.Provider value={t}>
+      <div className="min-h-screen bg-gradient-chat">
+        <header className="bg-gradient-primary text-primary-foreground">
+          <div className="container flex items-center gap-3 py-4">
+            <Plane className="h-5 w-5" />
+            <Link to="/" className="font-semibold">Nibbly</Link>
+            <span className="opacity-70">/</span>
+            <span>{t("track.title", { orderId: id })}</span>
+          </div>
+        </header>
+
+        <main className="container grid gap-6 py-6 lg:grid-cols-[1fr_380px]">
+          <div className="space-y-6">
+            {isPending && <Skeleton className="h-40 w-full" />}
+
+            {isError && (
+              <Card>
+                <CardContent className="p-6 text-sm text-destructive">
+                  {t("track.loadError")}
+                </CardContent>
+              </Card>
+            )}
+
+            {!isPending && !isError && !order && (
+              <Card>
+                <CardContent className="p-6 text-sm">
+                  {t("track.notFound", { orderId: id })}
+                </CardContent>
+              </Card>
+            )}
+
+            {order && (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between text-lg">
+                      <span>{t(`stage.${status}`)}</span>
+                      {isEnRoute(status) && (
+                        <span className="flex items-center gap-1 text-sm font-normal text-muted-foreground">
+                          <Clock className="h-4 w-4" />
+                          {t("status.eta", { eta: t("comparison.minutes", { minutes: etaMinutes ?? 0 }) })}
+                        </span>
+                      )}
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {t(status === "Delivered" ? "track.deliveredTo" : "track.deliveringTo", { area: order.area })}
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    <OrderTimeline history={history} />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">{t("track.liveMap")}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-xs">
+                    <LiveMapMessage orderId={id} orderService={orderService} source={telemetrySource} />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <Store className="h-4 w-4" />
+                      {order.merchant}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2 text-sm">
+                    {order.items.map(item => (
+                      <div key={item.sku} className="flex justify-between">
+                        <span className="flex items-center gap-2">
+                          <Package className="h-3 w-3 text-muted-foreground" />
+                          {item.quantity} × {item.name}
+                        </span>
+                        <span>{formatAmount(item.quantity * item.unitPrice, t.locale)}</span>
+                      </div>
+                    ))}
+                    <Separator />
+                    <div className="flex justify-between font-semibold">
+                      <span>{t("track.total")}</span>
+                      <span>{formatAmount(total, t.locale)}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+
+          <aside className="h-[600px] lg:sticky lg:top-6">
+            <ChatBot key={id} variant="docked" orderId={id} />
+          </aside>
+        </main>
+      </div>
+    </TranslatorContext.Provider>
+  );
+};
+
+export default Track;
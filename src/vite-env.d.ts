@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the order API, e.g. https://api.staging.nibbly.com/v1
+  readonly VITE_ORDER_API_URL?: string;
+  // Chat completions endpoint, or "mock" for the in-browser stub.
+  readonly VITE_LLM_API_URL?: string;
+  readonly VITE_LLM_MODEL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
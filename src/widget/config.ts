@@ -0,0 +1,54 @@
+import { reportError } from "@/lib/diagnostics";
+import { mergeWidgetConfig, type WidgetConfigInput } from "@/lib/widget-config";
+
+const colorAttributes = [
+  "primary",
+  "primaryForeground",
+  "background",
+  "foreground",
+  "muted",
+  "mutedForeground",
+  "accent",
+  "border",
+] as const;
+
+const textAttributes = ["title", "subtitle", "greeting", "avatarUrl", "launcherIcon", "position", "width", "height", "retentionDays", "escalationThreshold", "locale"] as const;
+
+// `<script data-title="Acme Eats" data-primary-color="#e11d48" …>`; values are validated later
+// along with everything else.
+export const configFromDataset = (dataset: DOMStringMap): WidgetConfigInput => {
+  const config: Record<string, unknown> = {};
+  for (const key of textAttributes) {
+    if (dataset[key] !== undefined) config[key] = dataset[key];
+  }
+
+  const colors: Record<string, string> = {};
+  for (const key of colorAttributes) {
+    const value = dataset[`${key}Color`];
+    if (value !== undefined) colors[key] = value;
+  }
+  config.colors = colors;
+
+  if (dataset.gradientFrom && dataset.gradientTo) {
+    config.gradient = { from: dataset.gradientFrom, to: dataset.gradientTo, angle: dataset.gradientAngle };
+  }
+  return config as WidgetConfigInput;
+};
+
+// `data-config="/nibbly.json"` points at a JSON file; attributes on the tag override it.
+export const loadWidgetConfig = async (script: HTMLOrSVGScriptElement | null): Promise<WidgetConfigInput> => {
+  const dataset = script instanceof HTMLScriptElement ? script.dataset : {};
+  let fileConfig: WidgetConfigInput | undefined;
+
+  if (dataset.config) {
+    try {
+      const response = await fetch(new URL(dataset.config, document.baseURI));
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      fileConfig = await response.json();
+    } catch (error) {
+      reportError(`Couldn't load widget config from ${dataset.config}`, error);
+    }
+  }
+
+  return mergeWidgetConfig(fileConfig, configFromDataset(dataset));
+};
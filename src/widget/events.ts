@@ -0,0 +1,34 @@
+import { reportError } from "@/lib/diagnostics";
+
+type Listener<T> = (payload: T) => void;
+
+export interface Emitter<Events> {
+  on: <K extends keyof Events>(event: K, listener: Listener<Events[K]>) => () => void;
+  emit: <K extends keyof Events>(event: K, payload: Events[K]) => void;
+}
+
+export const createEmitter = <Events>(): Emitter<Events> => {
+  const listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  return {
+    on: (event, listener) => {
+      const set = listeners.get(event) ?? new Set();
+      set.add(listener);
+      listeners.set(event, set);
+      return () => {
+        set.delete(listener);
+      };
+    },
+
+    emit: (event, payload) => {
+      listeners.get(event)?.forEach(listener => {
+        try {
+          (listener as Listener<typeof payload>)(payload);
+        } catch (error) {
+          // A broken host callback shouldn't take the widget down with it.
+          reportError(`"${String(event)}" listener failed`, error);
+        }
+      });
+    },
+  };
+};
@@ -0,0 +1,109 @@
+import { createRef } from "react";
+import { flushSync } from "react-dom";
+import { createRoot, type Root } from "react-dom/client";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import styles from "@/index.css?inline";
+import { ChatBot, type ChatBotHandle } from "@/components/ChatBot";
+import type { CustomerIdentity, Message } from "@/lib/chat/types";
+import type { WidgetConfigInput } from "@/lib/widget-config";
+import { loadWidgetConfig } from "./config";
+import { createEmitter, type Emitter } from "./events";
+
+export interface NibblyEvents {
+  open: void;
+  close: void;
+  message: Message;
+}
+
+export interface NibblyApi {
+  open: () => void;
+  close: () => void;
+  sendMessage: (text: string) => void;
+  identify: (customer: CustomerIdentity) => void;
+  on: Emitter<NibblyEvents>["on"];
+}
+
+declare global {
+  interface Window {
+    Nibbly?: NibblyApi;
+  }
+}
+
+// The theme variables are declared on :root, which selects nothing inside a shadow tree.
+const shadowStyles = ":host { all: initial; }\n" + styles.replace(/:root\b/g, ":host");
+
+// Only available while the script is first being evaluated.
+const script = document.currentScript;
+
+const events = createEmitter<NibblyEvents>();
+const queryClient = new QueryClient();
+const chatBot = createRef<ChatBotHandle>();
+const pending: ((handle: ChatBotHandle) => void)[] = [];
+let customer: CustomerIdentity | undefined;
+let config: WidgetConfigInput | undefined;
+let root: Root | undefined;
+
+const handleOpenChange = (open: boolean) => events.emit(open ? "open" : "close", undefined);
+const handleMessage = (message: Message) => events.emit("message", message);
+
+const render = () => {
+  root?.render(
+    <QueryClientProvider client={queryClient}>
+      <ChatBot ref={chatBot} customer={customer} config={config} onOpenChange={handleOpenChange} onMessage={handleMessage} />
+    </QueryClientProvider>
+  );
+};
+
+// Calls made before the widget has mounted are replayed once it has.
+const withChatBot = (command: (handle: ChatBotHandle) => void) => {
+  if (chatBot.current) {
+    command(chatBot.current);
+  } else {
+    pending.push(command);
+  }
+};
+
+const mount = () => {
+  const host = document.createElement("div");
+  host.id = "nibbly-widget";
+  const shadow = host.attachShadow({ mode: "open" });
+
+  const style = document.createElement("style");
+  style.textContent = shadowStyles;
+  const container = document.createElement("div");
+  container.className = "font-sans antialiased leading-normal text-foreground";
+  shadow.append(style, container);
+  document.body.appendChild(host);
+
+  root = createRoot(container);
+  flushSync(render);
+  pending.splice(0).forEach(command => withChatBot(command));
+  window.dispatchEvent(new CustomEvent("nibbly:ready"));
+};
+
+if (!window.Nibbly) {
+  window.Nibbly = {
+    open: () => withChatBot(handle => handle.open()),
+    close: () => withChatBot(handle => handle.close()),
+    sendMessage: (text) => withChatBot(handle => handle.sendMessage(text)),
+    identify: (identity) => {
+      customer = { ...customer, ...identity };
+      render();
+    },
+    on: events.on,
+  };
+
+  const domReady = new Promise<void>(resolve => {
+    if (document.readyState === "loading") {
+      document.addEventListener("DOMContentLoaded", () => resolve(), { once: true });
+    } else {
+      resolve();
+    }
+  });
+
+  // Waiting for the config avoids flashing the default branding before the partner's.
+  Promise.all([loadWidgetConfig(script), domReady]).then(([loaded]) => {
+    config = loaded;
+    mount();
+  });
+}
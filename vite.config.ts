@@ -19,4 +19,20 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // `vite build --mode widget` bundles the embeddable widget into a single loader script.
+  ...(mode === "widget" && {
+    define: {
+      "process.env.NODE_ENV": JSON.stringify("production"),
+    },
+    build: {
+      outDir: "dist/widget",
+      copyPublicDir: false,
+      lib: {
+        entry: path.resolve(__dirname, "./src/widget/loader.tsx"),
+        name: "NibblyWidget",
+        formats: ["iife"],
+        fileName: () => "nibbly.js",
+      },
+    },
+  }),
 }));